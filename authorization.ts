@@ -0,0 +1,171 @@
+import { TRPCError } from "@trpc/server";
+import type { Incident, User } from "../drizzle/schema";
+import { protectedProcedure } from "./_core/trpc";
+import {
+  getIncidentById,
+  getServiceById,
+  getServiceUnitById,
+  isIncidentInAgency,
+} from "./db";
+import { agencyScopeOf, hasPermission, type Permission } from "./permissions";
+
+/**
+ * التحقق من الصلاحيات ونطاق الجهة في إجراءات tRPC
+ * الرفض دائماً FORBIDDEN، والمستخدم من خارج أدوار الجهات لا يُقيد بنطاق
+ */
+
+type ScopedUser = Pick<User, "role" | "agency"> | null;
+
+function forbidden(message: string): TRPCError {
+  return new TRPCError({ code: "FORBIDDEN", message });
+}
+
+export function assertPermission(
+  user: Pick<User, "role">,
+  permission: Permission
+): void {
+  if (!hasPermission(user.role, permission)) {
+    throw forbidden(`Missing permission ${permission}`);
+  }
+}
+
+/**
+ * إجراء يتطلب تسجيل الدخول وصلاحية محددة
+ */
+export function permissionProcedure(permission: Permission) {
+  return protectedProcedure.use(({ ctx, next }) => {
+    assertPermission(ctx.user, permission);
+    return next();
+  });
+}
+
+/**
+ * أدوار الجهات تصل فقط للحوادث المسندة لجهتها أو الموجهة لها وحداتها
+ */
+export async function assertIncidentAccess(
+  user: ScopedUser,
+  incidentId: number
+): Promise<void> {
+  const agency = user ? agencyScopeOf(user) : null;
+  if (agency === null) return;
+
+  if (!agency || !(await isIncidentInAgency(incidentId, agency))) {
+    throw forbidden(`Incident #${incidentId} is not assigned to your agency`);
+  }
+}
+
+/**
+ * أدوار الجهات تعمل فقط على الخدمات التي وُجهت لها وحدة من جهتها
+ */
+export async function assertServiceAccess(
+  user: ScopedUser,
+  serviceId: number
+): Promise<void> {
+  const agency = user ? agencyScopeOf(user) : null;
+  if (agency === null) return;
+
+  const service = await getServiceById(serviceId);
+  const unit = service?.unitId ? await getServiceUnitById(service.unitId) : null;
+  if (!agency || !unit || unit.agency !== agency) {
+    throw forbidden(`Service #${serviceId} is not assigned to your agency`);
+  }
+}
+
+export async function assertUnitAccess(
+  user: ScopedUser,
+  unitId: number
+): Promise<void> {
+  const agency = user ? agencyScopeOf(user) : null;
+  if (agency === null) return;
+
+  const unit = await getServiceUnitById(unitId);
+  if (!agency || !unit || unit.agency !== agency) {
+    throw forbidden(`Service unit #${unitId} does not belong to your agency`);
+  }
+}
+
+/**
+ * الاشتراك في البث المباشر
+ * البث الكامل أو حسب المنطقة لأصحاب صلاحية realtime:monitor فقط، وغيرهم يشترك في حادث واحد:
+ * أدوار الجهات في حوادث جهتها، والمواطن في الحوادث التي أبلغ عنها
+ */
+export async function assertRealtimeAccess(
+  user: Pick<User, "id" | "role" | "agency">,
+  incidentId: number | undefined
+): Promise<void> {
+  if (hasPermission(user.role, "realtime:monitor")) return;
+  if (incidentId === undefined) {
+    throw forbidden("Subscribe to a single incident");
+  }
+
+  if (agencyScopeOf(user) !== null) {
+    await assertIncidentAccess(user, incidentId);
+    return;
+  }
+
+  const incident = await getIncidentById(incidentId);
+  if (!incident || incident.reporterId !== user.id) {
+    throw forbidden(`Incident #${incidentId} was not reported by you`);
+  }
+}
+
+/**
+ * هل يرى المستخدم البيانات الشخصية لأطراف الحادث دون إخفاء
+ * مقدم البلاغ يراها دائماً، وغيره يحتاج الصلاحية ونطاق جهته
+ */
+export async function canViewPersonalData(
+  user: Pick<User, "id" | "role" | "agency"> | null,
+  incident: Pick<Incident, "id" | "reporterId">
+): Promise<boolean> {
+  if (!user) return false;
+  if (incident.reporterId === user.id) return true;
+  if (!hasPermission(user.role, "party:view-personal-data")) return false;
+
+  const agency = agencyScopeOf(user);
+  return (
+    agency === null ||
+    (!!agency && (await isIncidentInAgency(incident.id, agency)))
+  );
+}
+
+type ScopeMiddlewareOptions<TInput, TResult> = {
+  ctx: { user: ScopedUser };
+  input: TInput;
+  next: () => Promise<TResult>;
+};
+
+/**
+ * وسيط نطاق الحادث، يُضاف بعد input: ‎.use(incidentScope(input => input.incidentId))
+ */
+export function incidentScope<TInput>(getIncidentId: (input: TInput) => number) {
+  return async <TResult>({
+    ctx,
+    input,
+    next,
+  }: ScopeMiddlewareOptions<TInput, TResult>) => {
+    await assertIncidentAccess(ctx.user, getIncidentId(input));
+    return next();
+  };
+}
+
+export function serviceScope<TInput>(getServiceId: (input: TInput) => number) {
+  return async <TResult>({
+    ctx,
+    input,
+    next,
+  }: ScopeMiddlewareOptions<TInput, TResult>) => {
+    await assertServiceAccess(ctx.user, getServiceId(input));
+    return next();
+  };
+}
+
+export function unitScope<TInput>(getUnitId: (input: TInput) => number) {
+  return async <TResult>({
+    ctx,
+    input,
+    next,
+  }: ScopeMiddlewareOptions<TInput, TResult>) => {
+    await assertUnitAccess(ctx.user, getUnitId(input));
+    return next();
+  };
+}
@@ -1,15 +1,75 @@
-import { getDb } from "./db";
-import { incidents, services } from "../drizzle/schema";
-import { eq } from "drizzle-orm";
-import { generateSmartReport, sendSmartReportToParties } from "./smartReports";
+import {
+  addIncidentHistory,
+  getDb,
+  getIncidentById,
+  getIncidentIdsWithJobs,
+  getIncidentServices,
+  getOpenIncidentsNear,
+  mergeIncidents,
+  setIncidentDuplicateOf,
+  transitionIncidentStatus,
+} from "./db";
+import { dispatchService, describeDispatch, type ServiceType } from "./dispatch";
+import { enqueueJob } from "./jobQueue";
+import { runPipelineStep } from "./incidentPipeline";
+import type { ProximityAlert } from "./tracking";
+import { incidents, incidentParties, services } from "../drizzle/schema";
+import { and, avg, count, eq, gt, isNotNull, isNull, sql } from "drizzle-orm";
+import { generateSmartReport, type SmartReportData } from "./smartReports";
+import { describeDispatchDecision, SERVICE_TYPE_LABELS, type DispatchPriority } from "./dispatchRules";
+import {
+  findDuplicateMatches,
+  getDuplicateDetectionOptions,
+  shouldAutoMerge,
+  type DuplicateMatch,
+} from "./duplicateDetection";
+import { toCoordinates } from "./geo";
 
 /**
  * محرك الأتمتة المتكامل
  * يقوم بمعالجة الحوادث تلقائياً وتوجيه الخدمات والإرسال التنبيهات
  */
 
+/**
+ * فحص البلاغ الجديد مقابل الحوادث المفتوحة قبل بدء المعالجة
+ * التطابق القوي يُدمج في الحادث الأقدم، والمحتمل يُعلَّم ولا يُعالج تلقائياً حتى يقرر المشغل
+ */
+export async function screenIncidentForDuplicates(incidentId: number): Promise<{
+  outcome: "unique" | "flagged" | "merged";
+  match: DuplicateMatch | null;
+}> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const options = getDuplicateDetectionOptions();
+  const candidates = await getOpenIncidentsNear(
+    toCoordinates(incident.latitude, incident.longitude),
+    options.radiusKm,
+    new Date(incident.reportedAt.getTime() - options.windowMinutes * 60000)
+  );
+
+  // الحادث الأقدم هو الباقي دائماً، حتى لا يُعلّم بلاغان متزامنان كلٌ منهما على الآخر
+  const [match] = findDuplicateMatches(
+    incident,
+    candidates.filter(candidate => candidate.id < incidentId),
+    options
+  );
+  if (!match) return { outcome: "unique", match: null };
+
+  if (shouldAutoMerge(match, options)) {
+    await mergeIncidents(match.incidentId, incidentId, {
+      reason: `Duplicate report ${Math.round(match.distanceKm * 1000)}m from incident #${match.incidentId}, merged automatically`,
+    });
+    return { outcome: "merged", match };
+  }
+
+  await setIncidentDuplicateOf(incidentId, match.incidentId);
+  return { outcome: "flagged", match };
+}
+
 /**
  * معالجة الحادث تلقائياً
+ * كل خطوة تُسجل في incidentPipelineSteps، فإعادة التشغيل بعد فشل تستأنف من الخطوة الفاشلة
  */
 export async function processIncidentAutomatically(
   incidentId: number
@@ -20,25 +80,35 @@ export async function processIncidentAutomatically(
   try {
     console.log(`🔄 جاري معالجة الحادث #${incidentId}...`);
 
-    // 1. إنشاء التقرير الذكي
-    const report = await generateSmartReport(incidentId);
+    // 1. إنشاء التقرير الذكي (يُحفظ ناتجه لتستخدمه الخطوات التالية عند الاستئناف)
+    const report = await runPipelineStep(incidentId, "smart_report", () =>
+      generateSmartReport(incidentId)
+    );
     console.log(`✅ تم إنشاء التقرير الذكي (${report.analysisTime}ms)`);
 
-    // 2. توجيه الخدمات تلقائياً
-    await routeServicesAutomatically(incidentId, report);
-    console.log(`✅ تم توجيه الخدمات`);
+    // 2. توجيه الخدمات تلقائياً (كل خدمة مهمة مستقلة تُعاد محاولتها وحدها)
+    await runPipelineStep(incidentId, "route_services", () =>
+      routeServicesAutomatically(incidentId, report)
+    );
+    console.log(`✅ تمت إضافة مهام توجيه الخدمات`);
 
     // 3. إرسال التنبيهات
-    await sendAlertsToParties(incidentId, report);
+    await runPipelineStep(incidentId, "alerts", () =>
+      sendAlertsToParties(incidentId, report)
+    );
     console.log(`✅ تم إرسال التنبيهات`);
 
-    // 4. تحديث حالة الحادث
-    await updateIncidentStatus(incidentId, "in_progress");
+    // 4. تحديث حالة الحادث (تم توجيه الخدمات ثم بدء المعالجة)
+    await runPipelineStep(incidentId, "status_update", () =>
+      startIncidentHandling(incidentId)
+    );
     console.log(`✅ تم تحديث حالة الحادث`);
 
     // 5. إرسال التقرير للأطراف
-    await sendSmartReportToParties(report);
-    console.log(`✅ تم إرسال التقرير الذكي`);
+    await runPipelineStep(incidentId, "report_delivery", () =>
+      enqueueJob("notification", { incidentId })
+    );
+    console.log(`✅ تمت إضافة مهمة إرسال التقرير الذكي`);
 
     console.log(`✨ تمت معالجة الحادث #${incidentId} بنجاح`);
   } catch (error) {
@@ -48,48 +118,95 @@ export async function processIncidentAutomatically(
 }
 
 /**
- * توجيه الخدمات تلقائياً بناءً على نوع الحادث
+ * نقل الحادث إلى "قيد المعالجة" من حيث توقف (قد يكون نُقل إلى assigned في محاولة سابقة)
  */
-async function routeServicesAutomatically(incidentId: number, report: any) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+async function startIncidentHandling(incidentId: number) {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) throw new Error("Incident not found");
 
-  const serviceMapping: { [key: string]: string } = {
-    ambulance: "إسعاف",
-    tow_truck: "سطحة",
-    traffic_control: "مرور",
-    police: "شرطة",
-    fire: "إطفاء",
-  };
+  if (incident.status === "pending") {
+    await transitionIncidentStatus(incidentId, "assigned");
+  }
+  if (incident.status === "pending" || incident.status === "assigned") {
+    await transitionIncidentStatus(incidentId, "in_progress");
+  }
+}
+
+/**
+ * خطوة توجيه خدمة لأقرب وحدة متاحة من نوعها (معالج مهام dispatch)
+ * مفتاحها dispatch:{serviceType}، وإذا كانت للحادث خدمة قائمة من النوع نفسه لا تُوجَّه أخرى
+ * @param reason سبب الطلب من قرار التوجيه، يُضاف للسجل
+ */
+export async function dispatchIncidentService(
+  incidentId: number,
+  serviceType: ServiceType,
+  options: { priority?: DispatchPriority; performedBy?: number; reason?: string } = {}
+) {
+  return await runPipelineStep(incidentId, `dispatch:${serviceType}`, async () => {
+    const existing = (await getIncidentServices(incidentId)).find(
+      (service) => service.serviceType === serviceType && service.status !== "cancelled"
+    );
+    if (existing) {
+      return { serviceId: existing.id, unitId: existing.unitId, distanceKm: null };
+    }
 
-  // توجيه الخدمة الرئيسية
-  if (report.aiDecision.action !== "none") {
-    await db.insert(services).values({
-      incidentId: incidentId,
-      serviceType: report.aiDecision.action,
-      status: "pending",
+    const result = await dispatchService(incidentId, serviceType, { priority: options.priority });
+    await addIncidentHistory({
+      incidentId,
+      type: "service.requested",
+      details: options.reason
+        ? `${describeDispatch(serviceType, result)}. ${options.reason}`
+        : describeDispatch(serviceType, result),
+      payload: {
+        previous: null,
+        next: {
+          serviceId: result.serviceId,
+          serviceType,
+          priority: options.priority ?? "normal",
+          unitId: result.unit?.id ?? null,
+        },
+        reason: options.reason ?? null,
+      },
+      performedBy: options.performedBy,
     });
 
     console.log(
-      `📍 تم توجيه ${serviceMapping[report.aiDecision.action]} للحادث`
-    );
-  }
-
-  // توجيه الخدمات الإضافية
-  for (const service of report.recommendedServices) {
-    const serviceType = Object.keys(serviceMapping).find(
-      (key) => serviceMapping[key] === service
+      `📍 تم توجيه ${SERVICE_TYPE_LABELS[serviceType]} للحادث${result.unit ? ` (${result.unit.callSign})` : ""}`
     );
+    return {
+      serviceId: result.serviceId,
+      unitId: result.unit?.id ?? null,
+      distanceKm: result.distanceKm,
+    };
+  });
+}
 
-    if (serviceType && serviceType !== report.aiDecision.action) {
-      await db.insert(services).values({
-        incidentId: incidentId,
-        serviceType: serviceType as any,
-        status: "pending",
-      });
+/**
+ * توجيه الخدمات التي حددتها قواعد التوجيه في التقرير، بترتيب أولويتها
+ * القرار وأسبابه يُسجلان في السجل، وكل خدمة تُضاف مهمة dispatch مستقلة
+ */
+async function routeServicesAutomatically(
+  incidentId: number,
+  report: SmartReportData
+) {
+  const decision = {
+    services: report.recommendedServices,
+    matchedRules: report.matchedDispatchRules,
+  };
+  await addIncidentHistory({
+    incidentId,
+    type: "dispatch.decided",
+    details: describeDispatchDecision(decision),
+    payload: { previous: null, next: decision },
+  });
 
-      console.log(`📍 تم توجيه ${service} للحادث`);
-    }
+  for (const service of report.recommendedServices) {
+    await enqueueJob("dispatch", {
+      incidentId,
+      serviceType: service.serviceType,
+      priority: service.priority,
+      reason: `Priority ${service.priority}, requested by ${service.rules.join(" + ")}`,
+    });
   }
 }
 
@@ -126,78 +243,68 @@ async function sendAlertsToParties(incidentId: number, report: any) {
   }
 }
 
-/**
- * تحديث حالة الحادث
- */
-async function updateIncidentStatus(
-  incidentId: number,
-  status: string
-): Promise<void> {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-
-  await db
-    .update(incidents)
-    .set({ status: status as any })
-    .where(eq(incidents.id, incidentId));
-}
-
 /**
  * نظام التنبيهات الذكية
- * يرسل تنبيهات عند اقتراب الخدمات من موقع الحادث
+ * يرسل تنبيهات عند اقتراب الخدمات من موقع الحادث (يُستدعى من tracking.ts)
  */
 export async function sendSmartAlerts(
   incidentId: number,
   serviceType: string,
-  distanceKm: number
-): Promise<void> {
-  const alerts: { [key: number]: string } = {
-    5: `⚠️ الخدمة على بعد 5 كم من موقع الحادث`,
-    2: `🚨 الخدمة على بعد 2 كم - استعد للاستقبال`,
-    1: `🔴 الخدمة على بعد 1 كم - جاهزية عالية`,
-    0: `✅ الخدمة وصلت إلى موقع الحادث`,
+  alert: ProximityAlert
+): Promise<string> {
+  const alerts: { [key in ProximityAlert]: string } = {
+    "5km": `⚠️ الخدمة على بعد 5 كم من موقع الحادث`,
+    "2km": `🚨 الخدمة على بعد 2 كم - استعد للاستقبال`,
+    "1km": `🔴 الخدمة على بعد 1 كم - جاهزية عالية`,
+    arrived: `✅ الخدمة وصلت إلى موقع الحادث`,
   };
 
-  const closestDistance = Object.keys(alerts)
-    .map(Number)
-    .sort((a, b) => b - a)
-    .find((d) => distanceKm <= d);
-
-  if (closestDistance !== undefined) {
-    console.log(
-      `📍 ${serviceType}: ${alerts[closestDistance as keyof typeof alerts]}`
-    );
-  }
+  console.log(`📍 ${serviceType} (الحادث #${incidentId}): ${alerts[alert]}`);
+  return alerts[alert];
 }
 
 /**
  * نظام المراقبة المستمرة
- * يراقب الحوادث ويتخذ إجراءات تلقائية
+ * يضيف مهمة smart_report لكل حادث معلق لم تُضف له من قبل
+ * (المهام الميتة لا تُضاف من جديد، بل يعيد المشغل تشغيلها)
  */
-export async function monitorIncidentsAutomatically(): Promise<void> {
+export async function monitorIncidentsAutomatically(): Promise<{
+  pending: number;
+  queued: number;
+}> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // الحصول على الحوادث المعلقة
+  // الحصول على الحوادث المعلقة (البلاغات المكررة المحتملة تنتظر قرار المشغل)
   const pendingIncidents = await db
     .select()
     .from(incidents)
-    .where(eq(incidents.status, "pending"));
+    .where(and(eq(incidents.status, "pending"), isNull(incidents.duplicateOfId)));
 
   console.log(`📊 جاري مراقبة ${pendingIncidents.length} حادث معلق...`);
 
+  const alreadyQueued = await getIncidentIdsWithJobs(
+    "smart_report",
+    pendingIncidents.map((incident) => incident.id)
+  );
+
+  let queued = 0;
   for (const incident of pendingIncidents) {
+    if (alreadyQueued.has(incident.id)) continue;
     try {
-      await processIncidentAutomatically(incident.id);
+      await enqueueJob("smart_report", { incidentId: incident.id });
+      queued++;
     } catch (error) {
-      console.error(`❌ خطأ في معالجة الحادث #${incident.id}:`, error);
+      console.error(`❌ خطأ في إضافة معالجة الحادث #${incident.id}:`, error);
     }
   }
+
+  return { pending: pendingIncidents.length, queued };
 }
 
 /**
  * نظام الإحصائيات الذكية
- * يحسب إحصائيات الحوادث والخدمات
+ * يحسب إحصائيات الحوادث والخدمات من قاعدة البيانات
  */
 export async function calculateSmartStatistics(): Promise<{
   totalIncidents: number;
@@ -208,11 +315,39 @@ export async function calculateSmartStatistics(): Promise<{
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // محاكاة الإحصائيات
+  const [incidentTotals] = await db
+    .select({
+      total: count(),
+      resolved: sql<number>`sum(case when ${incidents.status} in ('resolved', 'closed') then 1 else 0 end)`,
+    })
+    .from(incidents);
+
+  // زمن الاستجابة: من طلب الخدمة حتى وصولها (بالثواني)
+  const [responseTimes] = await db
+    .select({
+      averageSeconds: sql<string | null>`avg(timestampdiff(SECOND, ${services.createdAt}, ${services.arrivedAt}))`,
+    })
+    .from(services)
+    .where(isNotNull(services.arrivedAt));
+
+  // نسبة الخطأ: فقط للأطراف التي حُددت لها نسبة
+  const [faults] = await db
+    .select({ average: avg(incidentParties.faultPercentage) })
+    .from(incidentParties)
+    .where(gt(incidentParties.faultPercentage, 0));
+
+  const totalIncidents = Number(incidentTotals?.total ?? 0);
+  const resolvedIncidents = Number(incidentTotals?.resolved ?? 0);
+
   return {
-    totalIncidents: 1250,
-    averageResponseTime: 3.2, // دقائق
-    successRate: 94.5, // نسبة مئوية
-    averageFaultPercentage: 62.3, // نسبة مئوية
+    totalIncidents,
+    averageResponseTime: round1(Number(responseTimes?.averageSeconds ?? 0) / 60), // دقائق
+    successRate:
+      totalIncidents > 0 ? round1((resolvedIncidents / totalIncidents) * 100) : 0, // نسبة مئوية
+    averageFaultPercentage: round1(Number(faults?.average ?? 0)), // نسبة مئوية
   };
 }
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
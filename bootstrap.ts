@@ -0,0 +1,28 @@
+import { getDeliveryChannels } from "./deliveryChannels";
+import { startScheduler } from "./scheduler";
+
+/**
+ * تشغيل المعالجة في الخلفية عند بدء الخادم
+ * يُستدعى مرة واحدة من server/_core/index.ts قبل server.listen، ولا تعمل بدونه إعادة محاولات
+ * المهام المؤجلة ولا مراقبة الحوادث المعلقة ولا إعادة إرسال التقارير ولا مراقبة SLA
+ */
+
+let stopBackgroundProcessing: (() => void) | null = null;
+
+/**
+ * بدء عامل المهام دائماً، والمجدول إلا إذا كان SCHEDULER_ENABLED=false
+ * إعدادات قنوات التقارير تُتحقق أولاً، فيفشل التشغيل بدل أن تضيع الإرسالات لاحقاً
+ * الاستدعاء المتكرر لا يبدأ نسخة ثانية
+ * @returns دالة الإيقاف
+ */
+export function startBackgroundProcessing(): () => void {
+  if (!stopBackgroundProcessing) {
+    getDeliveryChannels();
+    const stop = startScheduler();
+    stopBackgroundProcessing = () => {
+      stop();
+      stopBackgroundProcessing = null;
+    };
+  }
+  return stopBackgroundProcessing;
+}
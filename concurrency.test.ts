@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createConcurrencyPool, mapWithConcurrency } from "./concurrency";
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe("createConcurrencyPool", () => {
+  it("never runs more tasks than the limit at once", async () => {
+    const pool = createConcurrencyPool(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        pool.run(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await tick();
+          active--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("frees the slot when a task fails", async () => {
+    const pool = createConcurrencyPool(1);
+
+    await expect(
+      pool.run(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    await expect(pool.run(async () => "next")).resolves.toBe("next");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async ms => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return ms;
+    });
+
+    expect(results).toEqual([30, 10, 20]);
+  });
+});
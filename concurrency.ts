@@ -0,0 +1,42 @@
+/**
+ * تنفيذ محدود التزامن للمهام الدورية وعامل مهام الخلفية
+ */
+
+/**
+ * مجمع تنفيذ محدود: لا يعمل أكثر من limit مهمة معاً، والباقي ينتظر دوره بالترتيب
+ */
+export function createConcurrencyPool(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  // المكان يُسلَّم مباشرة للمنتظر التالي، فلا يسبقه طلب جديد
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      if (active < limit) active++;
+      else await new Promise<void>(resolve => waiting.push(resolve));
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+/**
+ * تطبيق fn على العناصر بحد أقصى limit في الوقت نفسه، والنتائج بترتيب العناصر
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const pool = createConcurrencyPool(limit);
+  return await Promise.all(items.map(item => pool.run(() => fn(item))));
+}
@@ -1,8 +1,10 @@
-import { eq } from "drizzle-orm";
+import { and, asc, count, desc, eq, gte, inArray, isNotNull, isNull, like, lt, lte, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
   InsertUser,
   users,
+  userAuditLog,
   incidents,
   incidentParties,
   services,
@@ -10,13 +12,83 @@ import {
   incidentHistory,
   statistics,
   reportSends,
+  serviceUnits,
+  serviceLocations,
+  serviceProximityAlerts,
+  reportDocuments,
+  faultAssessments,
+  mediaUploads,
+  imageAnalyses,
+  jobs,
+  incidentPipelineSteps,
+  schedulerLocks,
+  schedulerRuns,
+  dispatchRules,
+  slaTargets,
+  serviceSlaBreaches,
+  incidentAgencies,
+  personalDataAccessLog,
+  type InsertDispatchRule,
+  type InsertImageAnalysis,
+  type InsertJob,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import {
+  findResolutionTimeInHistory,
+  minutesBetween,
+  nextDay,
+  startOfDay,
+  summarizeDailyStatistics,
+} from "./statistics";
+import { publishRealtimeEvent } from "./realtime";
+import {
+  agencyForRole,
+  assertActiveChange,
+  assertRoleChange,
+  UserManagementError,
+  type ManagedUser,
+  type UserAuditAction,
+  type UserRole,
+} from "./userManagement";
+import { assertValidFaultSplit, FaultSplitError, type FaultShare } from "./faultApportionment";
+import { hashHistoryEntry, HISTORY_GENESIS_HASH } from "./historyChain";
+import { historyRecord, type HistoryEvent, type HistoryEventType } from "./historyEvents";
+import {
+  boundingBoxAround,
+  EARTH_RADIUS_KM,
+  toCoordinates,
+  type BoundingBox,
+  type Coordinates,
+} from "./geo";
+import { IncidentMergeError } from "./duplicateDetection";
+import { assertServiceTransition, ServiceTransitionError, TERMINAL_SERVICE_STATUSES } from "./serviceLifecycle";
+import { ImageAnalysisError } from "./incidentAnalyzer";
+import {
+  decodeSearchCursor,
+  emptyFacetCounts,
+  encodeSearchCursor,
+  escapeLikePattern,
+  incidentSortValue,
+  type IncidentFacetCounts,
+  type IncidentSearchFilters,
+  type IncidentSearchSort,
+} from "./incidentSearch";
+import {
+  assertIncidentTransition,
+  IncidentTransitionError,
+  isReopenTransition,
+  type IncidentStatus,
+} from "./incidentLifecycle";
 
 import type { Incident, IncidentParty, Service, IncidentMedia as IIncidentMedia, IncidentHistory, Statistic, ReportSend } from "../drizzle/schema";
 
+type ServiceType = Service["serviceType"];
+
 let _db: ReturnType<typeof drizzle> | null = null;
 
+type Database = ReturnType<typeof drizzle>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
   if (!_db && process.env.DATABASE_URL) {
@@ -96,11 +168,194 @@ export async function getUserByOpenId(openId: string) {
     return undefined;
   }
 
-  const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
+  // الحساب المعطل لا يُعاد، فتفشل المصادقة ويُرفض في protectedProcedure
+  const result = await db
+    .select()
+    .from(users)
+    .where(and(eq(users.openId, openId), isNull(users.deactivatedAt)))
+    .limit(1);
 
   return result.length > 0 ? result[0] : undefined;
 }
 
+// ===== User Management Queries =====
+export async function getUserById(userId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * البحث في المستخدمين بالاسم أو البريد أو الجوال، مع التصفية حسب الدور والحالة
+ */
+export async function searchUsers(filter: {
+  text?: string;
+  role?: UserRole;
+  status?: "active" | "deactivated";
+  limit: number;
+  offset: number;
+}) {
+  const db = await getDb();
+  if (!db) return { users: [], total: 0 };
+
+  const conditions: SQL[] = [];
+  const text = filter.text?.trim();
+  if (text) {
+    const pattern = `%${escapeLikePattern(text)}%`;
+    conditions.push(or(like(users.name, pattern), like(users.email, pattern), like(users.phone, pattern))!);
+  }
+  if (filter.role) conditions.push(eq(users.role, filter.role));
+  if (filter.status === "active") conditions.push(isNull(users.deactivatedAt));
+  if (filter.status === "deactivated") conditions.push(isNotNull(users.deactivatedAt));
+
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const [rows, [totals]] = await Promise.all([
+    db.select().from(users).where(where).orderBy(desc(users.createdAt), desc(users.id)).limit(filter.limit).offset(filter.offset),
+    db.select({ total: count() }).from(users).where(where),
+  ]);
+
+  return { users: rows, total: Number(totals?.total ?? 0) };
+}
+
+/**
+ * نشاط المستخدم: البلاغات التي قدمها والإجراءات التي نفذها في سجلات الحوادث
+ */
+export async function getUserActivity(userId: number, limit: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [[reported], recentIncidents, [actions], recentActions] = await Promise.all([
+    db.select({ total: count() }).from(incidents).where(eq(incidents.reporterId, userId)),
+    db
+      .select({
+        id: incidents.id,
+        incidentType: incidents.incidentType,
+        status: incidents.status,
+        location: incidents.location,
+        reportedAt: incidents.reportedAt,
+      })
+      .from(incidents)
+      .where(eq(incidents.reporterId, userId))
+      .orderBy(desc(incidents.reportedAt), desc(incidents.id))
+      .limit(limit),
+    db.select({ total: count() }).from(incidentHistory).where(eq(incidentHistory.performedBy, userId)),
+    db
+      .select()
+      .from(incidentHistory)
+      .where(eq(incidentHistory.performedBy, userId))
+      .orderBy(desc(incidentHistory.createdAt), desc(incidentHistory.id))
+      .limit(limit),
+  ]);
+
+  return {
+    incidentsReported: Number(reported?.total ?? 0),
+    recentIncidents,
+    historyActions: Number(actions?.total ?? 0),
+    recentActions,
+  };
+}
+
+/**
+ * تعديل حساب مستخدم وتسجيله في سجل التدقيق معاً
+ * القواعد في userManagement.ts، والتحقق يتم على الصف مقفلاً داخل المعاملة
+ */
+async function changeUserAccount(
+  userId: number,
+  performedBy: number,
+  apply: (
+    user: ManagedUser,
+    activeAdmins: number
+  ) => { set: Partial<InsertUser>; action: UserAuditAction; payload: Record<string, unknown> },
+  reason?: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    const [user] = await tx.select().from(users).where(eq(users.id, userId)).limit(1).for("update");
+    if (!user) throw new UserManagementError("not_found", "User not found");
+
+    const [admins] = await tx
+      .select({ total: count() })
+      .from(users)
+      .where(and(eq(users.role, "admin"), isNull(users.deactivatedAt)));
+
+    const change = apply(
+      { ...user, isOwner: Boolean(ENV.ownerOpenId) && user.openId === ENV.ownerOpenId },
+      Number(admins?.total ?? 0)
+    );
+    await tx.update(users).set(change.set).where(eq(users.id, userId));
+    await tx.insert(userAuditLog).values({
+      userId,
+      action: change.action,
+      payload: change.payload,
+      reason,
+      performedBy,
+    });
+
+    return { ...user, ...change.set };
+  });
+}
+
+export async function changeUserRole(
+  userId: number,
+  role: UserRole,
+  options: { performedBy: number; reason?: string; agency?: string | null }
+) {
+  const agency = agencyForRole(role, options.agency ?? null);
+  return await changeUserAccount(
+    userId,
+    options.performedBy,
+    (user, activeAdmins) => {
+      assertRoleChange(user, role, options.performedBy, activeAdmins, agency);
+      return {
+        set: { role, agency },
+        action: "role_changed",
+        payload: { from: user.role, to: role, fromAgency: user.agency, toAgency: agency },
+      };
+    },
+    options.reason
+  );
+}
+
+/**
+ * تعطيل الحساب أو إعادة تفعيله
+ */
+export async function setUserActive(userId: number, active: boolean, options: { performedBy: number; reason?: string }) {
+  return await changeUserAccount(
+    userId,
+    options.performedBy,
+    (user, activeAdmins) => {
+      assertActiveChange(user, active, options.performedBy, activeAdmins);
+      return {
+        set: { deactivatedAt: active ? null : new Date() },
+        action: active ? "reactivated" : "deactivated",
+        payload: { from: active ? "deactivated" : "active", to: active ? "active" : "deactivated" },
+      };
+    },
+    options.reason
+  );
+}
+
+export async function getUserAuditLog(filter: { userId?: number; performedBy?: number; limit: number }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(userAuditLog)
+    .where(
+      and(
+        filter.userId !== undefined ? eq(userAuditLog.userId, filter.userId) : undefined,
+        filter.performedBy !== undefined ? eq(userAuditLog.performedBy, filter.performedBy) : undefined
+      )
+    )
+    .orderBy(desc(userAuditLog.createdAt), desc(userAuditLog.id))
+    .limit(filter.limit);
+}
+
 // ===== Incident Queries =====
 export async function createIncident(data: {
   reporterId: number;
@@ -125,7 +380,20 @@ export async function createIncident(data: {
     status: "pending",
   });
 
-  return { insertId: result[0]?.insertId || 0 };
+  const insertId = result[0]?.insertId || 0;
+  void publishRealtimeEvent(
+    "incident.created",
+    insertId,
+    {
+      incidentType: data.incidentType,
+      severity: data.severity || "medium",
+      status: "pending",
+      location: data.location,
+    },
+    data
+  );
+
+  return { insertId };
 }
 
 export async function getIncidentById(incidentId: number) {
@@ -141,228 +409,1738 @@ export async function getIncidentById(incidentId: number) {
   return result.length > 0 ? result[0] : null;
 }
 
-export async function getAllIncidents(limit = 50, offset = 0) {
+export async function getAllIncidents(limit = 50, offset = 0, agency?: string) {
   const db = await getDb();
   if (!db) return [];
 
-  return await db.select().from(incidents).limit(limit).offset(offset);
+  return await db
+    .select()
+    .from(incidents)
+    .where(agency !== undefined ? agencyIncidentCondition(agency) : undefined)
+    .limit(limit)
+    .offset(offset);
 }
 
-export async function updateIncidentStatus(
-  incidentId: number,
-  status: "pending" | "assigned" | "in_progress" | "resolved" | "closed"
-) {
+/**
+ * حوادث الجهة: المسندة إليها، أو التي وُجهت لها وحدة من وحداتها
+ */
+function agencyIncidentCondition(agency: string): SQL {
+  return sql`(${incidents.id} in (select ${incidentAgencies.incidentId} from ${incidentAgencies} where ${incidentAgencies.agency} = ${agency})
+    or ${incidents.id} in (select ${services.incidentId} from ${services} inner join ${serviceUnits} on ${services.unitId} = ${serviceUnits.id} where ${serviceUnits.agency} = ${agency}))`;
+}
+
+export async function isIncidentInAgency(incidentId: number, agency: string): Promise<boolean> {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return false;
 
-  return await db
-    .update(incidents)
-    .set({ status, updatedAt: new Date() })
-    .where(eq(incidents.id, incidentId));
+  const [row] = await db
+    .select({ id: incidents.id })
+    .from(incidents)
+    .where(and(eq(incidents.id, incidentId), agencyIncidentCondition(agency)))
+    .limit(1);
+  return Boolean(row);
 }
 
-// ===== Incident Parties Queries =====
-export async function addIncidentParty(data: {
-  incidentId: number;
-  partyName: string;
-  phone?: string;
-  vehicleNumber?: string;
-}) {
+/**
+ * إسناد الحادث لجهة
+ * @returns false إذا كان مسنداً لها من قبل
+ */
+export async function assignIncidentAgency(incidentId: number, agency: string, assignedBy?: number): Promise<boolean> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.insert(incidentParties).values(data);
-  return { insertId: result[0]?.insertId || 0 };
+  const result = await db.insert(incidentAgencies).ignore().values({ incidentId, agency, assignedBy });
+  return result[0].affectedRows > 0;
 }
 
-export async function getIncidentParties(incidentId: number) {
+export async function unassignIncidentAgency(incidentId: number, agency: string): Promise<boolean> {
   const db = await getDb();
-  if (!db) return [];
+  if (!db) throw new Error("Database not available");
 
-  return await db
-    .select()
-    .from(incidentParties)
-    .where(eq(incidentParties.incidentId, incidentId));
+  const result = await db
+    .delete(incidentAgencies)
+    .where(and(eq(incidentAgencies.incidentId, incidentId), eq(incidentAgencies.agency, agency)));
+  return result[0].affectedRows > 0;
 }
 
-export async function updatePartyFaultPercentage(
-  partyId: number,
-  faultPercentage: number
-) {
+/**
+ * الجهات المسندة للحادث وجهات الوحدات الموجهة إليه
+ */
+export async function getIncidentAgencies(incidentId: number) {
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) return { assigned: [], dispatched: [] };
 
-  return await db
-    .update(incidentParties)
-    .set({ faultPercentage })
-    .where(eq(incidentParties.id, partyId));
+  const [assigned, dispatched] = await Promise.all([
+    db.select().from(incidentAgencies).where(eq(incidentAgencies.incidentId, incidentId)).orderBy(asc(incidentAgencies.createdAt)),
+    db
+      .selectDistinct({ agency: serviceUnits.agency })
+      .from(services)
+      .innerJoin(serviceUnits, eq(services.unitId, serviceUnits.id))
+      .where(eq(services.incidentId, incidentId)),
+  ]);
+
+  return { assigned, dispatched: dispatched.map((row) => row.agency) };
 }
 
-// ===== Services Queries =====
-export async function createService(data: {
-  incidentId: number;
-  serviceType: "ambulance" | "tow_truck" | "traffic_control" | "police" | "fire";
-  assignedTo?: string;
+function withinBoundsCondition(bounds: BoundingBox): SQL {
+  const latitude = sql`${incidents.latitude} between ${bounds.south} and ${bounds.north}`;
+  // صندوق يعبر خط الطول 180
+  const longitude =
+    bounds.west <= bounds.east
+      ? sql`${incidents.longitude} between ${bounds.west} and ${bounds.east}`
+      : sql`(${incidents.longitude} >= ${bounds.west} or ${incidents.longitude} <= ${bounds.east})`;
+  return sql`(${latitude} and ${longitude})`;
+}
+
+/**
+ * شروط البحث، مع إمكانية استثناء تصفية أحد التصنيفات عند حساب أعداده
+ */
+function incidentSearchConditions(
+  filters: IncidentSearchFilters,
+  excludeFacet?: keyof IncidentFacetCounts
+): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.agency !== undefined) {
+    conditions.push(agencyIncidentCondition(filters.agency));
+  }
+  if (filters.incidentTypes?.length && excludeFacet !== "incidentType") {
+    conditions.push(inArray(incidents.incidentType, filters.incidentTypes));
+  }
+  if (filters.statuses?.length && excludeFacet !== "status") {
+    conditions.push(inArray(incidents.status, filters.statuses));
+  }
+  if (filters.severities?.length && excludeFacet !== "severity") {
+    conditions.push(inArray(incidents.severity, filters.severities));
+  }
+  if (filters.reporterId !== undefined) {
+    conditions.push(eq(incidents.reporterId, filters.reporterId));
+  }
+  if (filters.createdFrom) {
+    conditions.push(gte(incidents.createdAt, filters.createdFrom));
+  }
+  if (filters.createdTo) {
+    conditions.push(lt(incidents.createdAt, filters.createdTo));
+  }
+
+  const text = filters.text?.trim();
+  if (text) {
+    const pattern = `%${escapeLikePattern(text)}%`;
+    conditions.push(
+      or(like(incidents.location, pattern), like(incidents.description, pattern))!
+    );
+  }
+
+  if (filters.bounds) {
+    conditions.push(withinBoundsCondition(filters.bounds));
+  }
+
+  if (filters.near) {
+    const { latitude, longitude, radiusKm } = filters.near;
+    // الصندوق يستفيد من الفهارس، ثم تُحسب المسافة الفعلية (Haversine)
+    conditions.push(
+      withinBoundsCondition(boundingBoxAround({ latitude, longitude }, radiusKm))
+    );
+    conditions.push(sql`2 * ${EARTH_RADIUS_KM} * asin(sqrt(
+      power(sin(radians(${incidents.latitude} - ${latitude}) / 2), 2) +
+      cos(radians(${latitude})) * cos(radians(${incidents.latitude})) *
+      power(sin(radians(${incidents.longitude} - ${longitude}) / 2), 2)
+    )) <= ${radiusKm}`);
+  }
+
+  return conditions;
+}
+
+function incidentSortExpression(field: IncidentSearchSort["field"]) {
+  if (field === "severity") {
+    return sql`case ${incidents.severity} when 'low' then 1 when 'medium' then 2 when 'high' then 3 when 'critical' then 4 end`;
+  }
+  return field === "createdAt" ? incidents.createdAt : incidents.updatedAt;
+}
+
+/**
+ * البحث في الحوادث مع التصفية والترتيب والترقيم بمؤشر، وأعداد كل تصنيف للوحة التصفية
+ * يرمي InvalidSearchCursorError إذا كان المؤشر غير صالح أو صادراً لترتيب آخر
+ */
+export async function searchIncidents(options: {
+  filters?: IncidentSearchFilters;
+  sort?: IncidentSearchSort;
+  cursor?: string;
+  limit?: number;
 }) {
+  const {
+    filters = {},
+    sort = { field: "createdAt", direction: "desc" },
+    limit = 25,
+  } = options;
   const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  if (!db) {
+    return { items: [], nextCursor: null, total: 0, facets: emptyFacetCounts() };
+  }
 
-  const result = await db.insert(services).values({
-    incidentId: data.incidentId,
-    serviceType: data.serviceType,
-    status: "pending",
-    assignedTo: data.assignedTo,
-  });
-  return { insertId: result[0]?.insertId || 0 };
+  const conditions = incidentSearchConditions(filters);
+  const sortExpression = incidentSortExpression(sort.field);
+  const order = sort.direction === "desc" ? desc : asc;
+
+  const pageConditions = [...conditions];
+  if (options.cursor) {
+    const cursor = decodeSearchCursor(options.cursor, sort);
+    const value =
+      sort.field === "severity" ? cursor.value : new Date(cursor.value);
+    const operator = sql.raw(sort.direction === "desc" ? "<" : ">");
+    pageConditions.push(
+      sql`(${sortExpression} ${operator} ${value} or (${sortExpression} = ${value} and ${incidents.id} ${operator} ${cursor.id}))`
+    );
+  }
+
+  const facetCounts = (
+    facet: keyof IncidentFacetCounts,
+    column:
+      | typeof incidents.incidentType
+      | typeof incidents.status
+      | typeof incidents.severity
+  ) =>
+    db
+      .select({ value: column, count: count() })
+      .from(incidents)
+      .where(and(...incidentSearchConditions(filters, facet)))
+      .groupBy(column);
+
+  const [rows, [totalRow], typeCounts, statusCounts, severityCounts] =
+    await Promise.all([
+      db
+        .select()
+        .from(incidents)
+        .where(and(...pageConditions))
+        .orderBy(order(sortExpression), order(incidents.id))
+        .limit(limit + 1),
+      db.select({ count: count() }).from(incidents).where(and(...conditions)),
+      facetCounts("incidentType", incidents.incidentType),
+      facetCounts("status", incidents.status),
+      facetCounts("severity", incidents.severity),
+    ]);
+
+  const facets = emptyFacetCounts();
+  for (const row of typeCounts) {
+    facets.incidentType[row.value as Incident["incidentType"]] = row.count;
+  }
+  for (const row of statusCounts) {
+    facets.status[row.value as Incident["status"]] = row.count;
+  }
+  for (const row of severityCounts) {
+    facets.severity[row.value as Incident["severity"]] = row.count;
+  }
+
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeSearchCursor({
+          ...sort,
+          value: incidentSortValue(last, sort.field),
+          id: last.id,
+        })
+      : null;
+
+  return { items, nextCursor, total: totalRow?.count ?? 0, facets };
 }
 
-export async function getIncidentServices(incidentId: number) {
+/**
+ * مواقع الحوادث المبلغ عنها في فترة، لتحليل النقاط الساخنة
+ */
+export async function getIncidentLocations(filters: {
+  from: Date;
+  to: Date;
+  incidentTypes?: Incident["incidentType"][];
+  severities?: Incident["severity"][];
+}) {
   const db = await getDb();
   if (!db) return [];
 
-  return await db
-    .select()
-    .from(services)
-    .where(eq(services.incidentId, incidentId));
+  const conditions = [
+    gte(incidents.reportedAt, filters.from),
+    lt(incidents.reportedAt, filters.to),
+  ];
+  if (filters.incidentTypes?.length) {
+    conditions.push(inArray(incidents.incidentType, filters.incidentTypes));
+  }
+  if (filters.severities?.length) {
+    conditions.push(inArray(incidents.severity, filters.severities));
+  }
+
+  const rows = await db
+    .select({
+      id: incidents.id,
+      latitude: incidents.latitude,
+      longitude: incidents.longitude,
+      reportedAt: incidents.reportedAt,
+      severity: incidents.severity,
+      incidentType: incidents.incidentType,
+    })
+    .from(incidents)
+    .where(and(...conditions));
+
+  return rows.map((row) => ({
+    ...row,
+    ...toCoordinates(row.latitude, row.longitude),
+  }));
 }
 
-export async function updateServiceStatus(
-  serviceId: number,
-  status: "pending" | "assigned" | "en_route" | "arrived" | "completed" | "cancelled"
+/**
+ * نقل الحادث إلى حالة جديدة وفق دورة الحياة (incidentLifecycle.ts)
+ * يرمي IncidentTransitionError للانتقالات غير المسموحة وللحادث غير الموجود، ويسجل الحالة قبل وبعد في السجل التاريخي
+ */
+export async function transitionIncidentStatus(
+  incidentId: number,
+  status: IncidentStatus,
+  options: { performedBy?: number; reason?: string } = {}
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db
-    .update(services)
-    .set({ status, updatedAt: new Date() })
-    .where(eq(services.id, serviceId));
-}
+  const transition = await db.transaction(async (tx) => {
+    const [incident] = await tx
+      .select()
+      .from(incidents)
+      .where(eq(incidents.id, incidentId))
+      .limit(1)
+      .for("update");
 
-// ===== Incident Media Queries =====
-export async function addIncidentMedia(data: {
-  incidentId: number;
-  mediaType: "image" | "video";
-  mediaUrl: string;
-  description?: string;
-  isSimulated?: boolean;
-}) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+    if (!incident) {
+      throw new IncidentTransitionError(
+        "not_found",
+        null,
+        status,
+        `Incident #${incidentId} not found`
+      );
+    }
 
-  const result = await db.insert(incidentMedia).values({
-    incidentId: data.incidentId,
-    mediaType: data.mediaType,
-    mediaUrl: data.mediaUrl,
-    description: data.description,
-    isSimulated: data.isSimulated ?? true,
+    const from = incident.status;
+    assertIncidentTransition(from, status, options.reason);
+
+    const now = new Date();
+    const reopened = isReopenTransition(from, status);
+
+    await tx
+      .update(incidents)
+      .set({
+        status,
+        updatedAt: now,
+        ...(status === "resolved" || status === "closed"
+          ? { resolvedAt: incident.resolvedAt ?? now, resolutionReason: options.reason }
+          : {}),
+        ...(reopened ? { resolvedAt: null, resolutionReason: options.reason } : {}),
+      })
+      .where(eq(incidents.id, incidentId));
+
+    const historyEntry: HistoryEvent<"incident.status_changed"> = {
+      incidentId,
+      type: "incident.status_changed",
+      details: `Status changed to ${status}`,
+      payload: { previous: from, next: status, reason: options.reason ?? null, reopened },
+      performedBy: options.performedBy,
+    };
+    await appendIncidentHistory(tx, historyEntry);
+
+    return { from, to: status, historyEntry, location: incident };
   });
-  return { insertId: result[0]?.insertId || 0 };
+
+  // النشر بعد تثبيت المعاملة فقط
+  const { historyEntry, location, ...change } = transition;
+  void publishRealtimeEvent("incident.status_changed", incidentId, change, location);
+  void publishRealtimeEvent("history.added", incidentId, historyEntry, location);
+
+  return change;
 }
 
-export async function getIncidentMedia(incidentId: number) {
+/**
+ * الحوادث المفتوحة (غير المدموجة) حول موقع خلال فترة، للبحث عن البلاغات المكررة
+ */
+export async function getOpenIncidentsNear(
+  location: Coordinates,
+  radiusKm: number,
+  since: Date
+) {
   const db = await getDb();
   if (!db) return [];
 
   return await db
     .select()
-    .from(incidentMedia)
-    .where(eq(incidentMedia.incidentId, incidentId));
+    .from(incidents)
+    .where(
+      and(
+        inArray(incidents.status, ["pending", "assigned", "in_progress"]),
+        isNull(incidents.mergedIntoId),
+        gte(incidents.reportedAt, since),
+        withinBoundsCondition(boundingBoxAround(location, radiusKm))
+      )
+    );
 }
 
-// ===== Incident History Queries =====
-export async function addIncidentHistory(data: {
-  incidentId: number;
-  action: string;
-  details?: string;
-  performedBy?: number;
-}) {
+/**
+ * تعليم البلاغ كمكرر محتمل لحادث آخر بانتظار قرار المشغل، أو إزالة التعليم (null)
+ */
+export async function setIncidentDuplicateOf(
+  incidentId: number,
+  duplicateOfId: number | null,
+  performedBy?: number
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  return await db.insert(incidentHistory).values(data);
-}
+  const [incident] = await db
+    .select({ duplicateOfId: incidents.duplicateOfId })
+    .from(incidents)
+    .where(eq(incidents.id, incidentId))
+    .limit(1);
+  if (!incident) {
+    throw new IncidentMergeError("not_found", `Incident #${incidentId} not found`);
+  }
+  if (duplicateOfId === null && incident.duplicateOfId === null) {
+    throw new IncidentMergeError("not_duplicate", `Incident #${incidentId} is not flagged as a duplicate`);
+  }
 
-export async function getIncidentHistory(incidentId: number) {
-  const db = await getDb();
-  if (!db) return [];
+  await db
+    .update(incidents)
+    .set({ duplicateOfId })
+    .where(eq(incidents.id, incidentId));
 
-  return await db
-    .select()
-    .from(incidentHistory)
-    .where(eq(incidentHistory.incidentId, incidentId))
-    .orderBy((t) => t.createdAt);
+  await addIncidentHistory({
+    incidentId,
+    type: duplicateOfId ? "incident.duplicate_flagged" : "incident.duplicate_dismissed",
+    details: duplicateOfId
+      ? `Report may duplicate incident #${duplicateOfId}`
+      : "Report confirmed as a separate incident",
+    payload: { previous: incident.duplicateOfId, next: duplicateOfId },
+    performedBy,
+  });
 }
 
-// ===== Statistics Queries =====
-export async function getTodayStatistics() {
+/**
+ * دمج بلاغ في حادث آخر: نقل الأطراف والوسائط والخدمات إلى الحادث الباقي
+ * وإغلاق البلاغ المدموج. الدمج هو الطريق الوحيد لإغلاق بلاغ خارج دورة الحياة
+ * يرمي IncidentMergeError إذا لم يكن الدمج ممكناً
+ */
+export async function mergeIncidents(
+  survivorId: number,
+  mergedId: number,
+  options: { performedBy?: number; reason?: string } = {}
+) {
+  if (survivorId === mergedId) {
+    throw new IncidentMergeError("same_incident", "Cannot merge an incident into itself");
+  }
+
   const db = await getDb();
-  if (!db) return null;
+  if (!db) throw new Error("Database not available");
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const merge = await db.transaction(async (tx) => {
+    const locked = await tx
+      .select()
+      .from(incidents)
+      .where(inArray(incidents.id, [survivorId, mergedId]))
+      .orderBy(asc(incidents.id))
+      .for("update");
 
-  const result = await db
-    .select()
-    .from(statistics)
-    .where((t) => eq(t.date, today))
-    .limit(1);
+    const survivor = locked.find((incident) => incident.id === survivorId);
+    const merged = locked.find((incident) => incident.id === mergedId);
+    if (!survivor || !merged) {
+      throw new IncidentMergeError("not_found", "Incident not found");
+    }
+    for (const incident of [survivor, merged]) {
+      if (incident.mergedIntoId) {
+        throw new IncidentMergeError(
+          "already_merged",
+          `Incident #${incident.id} was already merged into #${incident.mergedIntoId}`
+        );
+      }
+    }
 
-  return result.length > 0 ? result[0] : null;
-}
+    const move = async (
+      table: typeof incidentParties | typeof incidentMedia | typeof services
+    ) => {
+      const result = await tx
+        .update(table)
+        .set({ incidentId: survivorId })
+        .where(eq(table.incidentId, mergedId));
+      return result[0].affectedRows;
+    };
+    // السجل التاريخي لا يُنقل حتى لا تنكسر سلسلة أي من الحادثين، ويُربط بآخر بصمة للمدموج
+    const moved = {
+      parties: await move(incidentParties),
+      media: await move(incidentMedia),
+      services: await move(services),
+    };
 
-export async function updateStatistics() {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+    // البلاغات التي عُلّمت كمكررة للمدموج تشير الآن إلى الحادث الباقي
+    await tx
+      .update(incidents)
+      .set({ duplicateOfId: survivorId })
+      .where(and(eq(incidents.duplicateOfId, mergedId), ne(incidents.id, survivorId)));
+    if (survivor.duplicateOfId === mergedId) {
+      await tx.update(incidents).set({ duplicateOfId: null }).where(eq(incidents.id, survivorId));
+    }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+    const reason = options.reason ?? `Merged into incident #${survivorId}`;
+    await tx
+      .update(incidents)
+      .set({
+        status: "closed",
+        mergedIntoId: survivorId,
+        duplicateOfId: null,
+        resolvedAt: merged.resolvedAt ?? new Date(),
+        resolutionReason: reason,
+      })
+      .where(eq(incidents.id, mergedId));
 
-  const incidentsData = await db
-    .select()
-    .from(incidents)
-    .where((t) => eq(t.incidentType, "injury"));
-
-  return await db.insert(statistics).values({
-    date: today,
-    totalIncidents: 0,
-    injuryIncidents: 0,
-    breakdownIncidents: 0,
-    trafficIncidents: 0,
-    averageResolutionTime: 0,
+    const mergedEntry: HistoryEvent<"incident.merged_into"> = {
+      incidentId: mergedId,
+      type: "incident.merged_into",
+      details: `Report merged into incident #${survivorId}`,
+      payload: { previous: merged.status, next: "closed", survivorId, reason },
+      performedBy: options.performedBy,
+    };
+    const mergedHead = await appendIncidentHistory(tx, mergedEntry);
+    const survivorEntry: HistoryEvent<"incident.merged"> = {
+      incidentId: survivorId,
+      type: "incident.merged",
+      details: `Report #${mergedId} merged into this incident`,
+      payload: {
+        previous: null,
+        next: { mergedIncidentId: mergedId },
+        moved,
+        mergedHistory: { length: mergedHead.sequence, headHash: mergedHead.hash },
+        reason,
+      },
+      performedBy: options.performedBy,
+    };
+    await appendIncidentHistory(tx, survivorEntry);
+
+    return { survivorId, mergedId, moved, from: merged.status, survivorEntry, mergedEntry };
   });
-}
 
+  const { survivorEntry, mergedEntry, from, ...result } = merge;
+  void publishRealtimeEvent("incident.status_changed", mergedId, {
+    from,
+    to: "closed",
+    mergedIntoId: survivorId,
+  });
+  void publishRealtimeEvent("history.added", survivorId, survivorEntry);
+  void publishRealtimeEvent("history.added", mergedId, mergedEntry);
+
+  return result;
+}
 
-// ===== Report Sends Queries =====
-export async function createReportSend(data: {
+// ===== Incident Parties Queries =====
+export async function addIncidentParty(data: {
   incidentId: number;
-  recipientType: "party" | "insurance" | "najm" | "operator";
-  recipientEmail: string;
-  recipientPhone?: string;
-  recipientName?: string;
+  partyName: string;
+  phone?: string;
+  vehicleNumber?: string;
 }) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.insert(reportSends).values({
-    incidentId: data.incidentId,
-    recipientType: data.recipientType,
-    recipientEmail: data.recipientEmail,
-    recipientPhone: data.recipientPhone,
-    recipientName: data.recipientName,
-    status: "pending",
-  });
+  const result = await db.insert(incidentParties).values(data);
   return { insertId: result[0]?.insertId || 0 };
 }
 
-export async function getReportSends(incidentId: number) {
+export async function getIncidentParties(incidentId: number) {
   const db = await getDb();
   if (!db) return [];
 
   return await db
     .select()
-    .from(reportSends)
+    .from(incidentParties)
+    .where(eq(incidentParties.incidentId, incidentId));
+}
+
+/**
+ * تسجيل اطلاع مستخدم على البيانات الشخصية لأطراف حادث (صف لكل طرف)
+ */
+export async function recordPersonalDataAccess(
+  userId: number,
+  incidentId: number,
+  partyIds: number[],
+  source: string
+) {
+  if (partyIds.length === 0) return;
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(personalDataAccessLog)
+    .values(partyIds.map((partyId) => ({ userId, incidentId, partyId, source })));
+}
+
+export async function getPersonalDataAccessLog(filter: {
+  incidentId?: number;
+  partyId?: number;
+  userId?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(personalDataAccessLog)
+    .where(
+      and(
+        filter.incidentId !== undefined ? eq(personalDataAccessLog.incidentId, filter.incidentId) : undefined,
+        filter.partyId !== undefined ? eq(personalDataAccessLog.partyId, filter.partyId) : undefined,
+        filter.userId !== undefined ? eq(personalDataAccessLog.userId, filter.userId) : undefined,
+        filter.from ? gte(personalDataAccessLog.createdAt, filter.from) : undefined,
+        filter.to ? lt(personalDataAccessLog.createdAt, filter.to) : undefined
+      )
+    )
+    .orderBy(desc(personalDataAccessLog.createdAt), desc(personalDataAccessLog.id))
+    .limit(filter.limit);
+}
+
+/**
+ * تعيين توزيع نسب الخطأ لجميع أطراف الحادث دفعة واحدة
+ * يرمي FaultSplitError إذا لم يكن التوزيع صالحاً أو لم يوجد الحادث، ويسجل التوزيع السابق والجديد في السجل التاريخي
+ */
+export async function setIncidentFaultSplit(
+  incidentId: number,
+  split: FaultShare[],
+  performedBy?: number
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const change = await db.transaction(async (tx) => {
+    const [incident] = await tx
+      .select()
+      .from(incidents)
+      .where(eq(incidents.id, incidentId))
+      .limit(1);
+    if (!incident) {
+      throw new FaultSplitError("incident_not_found", `Incident #${incidentId} not found`);
+    }
+
+    const parties = await tx
+      .select()
+      .from(incidentParties)
+      .where(eq(incidentParties.incidentId, incidentId))
+      .for("update");
+
+    assertValidFaultSplit(
+      incident.incidentType,
+      parties.map((party) => party.id),
+      split
+    );
+
+    for (const share of split) {
+      await tx
+        .update(incidentParties)
+        .set({ faultPercentage: share.faultPercentage })
+        .where(eq(incidentParties.id, share.partyId));
+    }
+
+    const previous = parties.map((party) => ({
+      partyId: party.id,
+      faultPercentage: party.faultPercentage ?? 0,
+    }));
+    const historyEntry: HistoryEvent<"fault.changed"> = {
+      incidentId,
+      type: "fault.changed",
+      details: `Fault split set to ${split
+        .map((share) => `#${share.partyId} ${share.faultPercentage}%`)
+        .join(", ")}`,
+      payload: { previous, next: split },
+      performedBy,
+    };
+    await appendIncidentHistory(tx, historyEntry);
+
+    return { previous, next: split, historyEntry };
+  });
+
+  const { historyEntry, ...result } = change;
+  void publishRealtimeEvent("history.added", incidentId, historyEntry);
+  return result;
+}
+
+export async function updatePartyFacts(partyId: number, facts: unknown) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(incidentParties)
+    .set({ facts })
+    .where(eq(incidentParties.id, partyId));
+}
+
+// ===== Fault Assessments Queries =====
+export async function addFaultAssessment(data: {
+  incidentId: number;
+  rulesetVersion: string;
+  input: unknown;
+  result: unknown;
+  createdBy?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(faultAssessments).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getFaultAssessments(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(faultAssessments)
+    .where(eq(faultAssessments.incidentId, incidentId))
+    .orderBy(desc(faultAssessments.createdAt));
+}
+
+export async function getFaultAssessmentById(assessmentId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(faultAssessments)
+    .where(eq(faultAssessments.id, assessmentId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// ===== Image Analyses Queries =====
+export async function addImageAnalysis(data: InsertImageAnalysis) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(imageAnalyses).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getImageAnalyses(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(imageAnalyses)
+    .where(eq(imageAnalyses.incidentId, incidentId))
+    .orderBy(desc(imageAnalyses.createdAt), desc(imageAnalyses.id));
+}
+
+export async function getImageAnalysisById(analysisId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(imageAnalyses)
+    .where(eq(imageAnalyses.id, analysisId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+/**
+ * اعتماد تحليل صور كمرجع للحادث: تحديث خطورة الحادث وإلغاء اعتماد التحليلات الأخرى
+ * يرمي ImageAnalysisError للتحليل غير الموجود أو غير المكتمل
+ */
+export async function acceptImageAnalysis(analysisId: number, performedBy?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const change = await db.transaction(async (tx) => {
+    const [analysis] = await tx
+      .select()
+      .from(imageAnalyses)
+      .where(eq(imageAnalyses.id, analysisId))
+      .limit(1)
+      .for("update");
+    if (!analysis) {
+      throw new ImageAnalysisError("not_found", `Image analysis #${analysisId} not found`);
+    }
+    if (analysis.status !== "completed" || !analysis.severity) {
+      throw new ImageAnalysisError(
+        "not_acceptable",
+        "Only completed analyses with a severity can be accepted"
+      );
+    }
+
+    const [incident] = await tx
+      .select()
+      .from(incidents)
+      .where(eq(incidents.id, analysis.incidentId))
+      .limit(1)
+      .for("update");
+    if (!incident) {
+      throw new ImageAnalysisError("not_found", `Incident #${analysis.incidentId} not found`);
+    }
+
+    await tx
+      .update(imageAnalyses)
+      .set({ accepted: false })
+      .where(
+        and(eq(imageAnalyses.incidentId, analysis.incidentId), eq(imageAnalyses.accepted, true))
+      );
+    await tx
+      .update(imageAnalyses)
+      .set({ accepted: true, acceptedBy: performedBy, acceptedAt: new Date() })
+      .where(eq(imageAnalyses.id, analysisId));
+    await tx
+      .update(incidents)
+      .set({ severity: analysis.severity })
+      .where(eq(incidents.id, analysis.incidentId));
+
+    const historyEntry: HistoryEvent<"analysis.accepted"> = {
+      incidentId: analysis.incidentId,
+      type: "analysis.accepted",
+      details: `Analysis #${analysisId} accepted, severity ${incident.severity} → ${analysis.severity}`,
+      payload: {
+        previous: incident.severity,
+        next: analysis.severity,
+        analysisId,
+        damageLevel: analysis.damageLevel,
+        estimatedCost: analysis.estimatedCost,
+      },
+      performedBy,
+    };
+    await appendIncidentHistory(tx, historyEntry);
+
+    return { incidentId: analysis.incidentId, from: incident.severity, to: analysis.severity, historyEntry };
+  });
+
+  const { historyEntry, ...result } = change;
+  void publishRealtimeEvent("history.added", result.incidentId, historyEntry);
+  return { analysisId, ...result };
+}
+
+// ===== Services Queries =====
+export async function createService(data: {
+  incidentId: number;
+  serviceType: "ambulance" | "tow_truck" | "traffic_control" | "police" | "fire";
+  assignedTo?: string;
+  unitId?: number;
+  status?: "pending" | "assigned";
+  priority?: "immediate" | "urgent" | "normal";
+  escalatedFromId?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(services).values({
+    incidentId: data.incidentId,
+    serviceType: data.serviceType,
+    status: data.status ?? "pending",
+    assignedTo: data.assignedTo,
+    unitId: data.unitId,
+    priority: data.priority,
+    escalatedFromId: data.escalatedFromId,
+    assignedAt: data.status === "assigned" ? new Date() : undefined,
+  });
+
+  const insertId = result[0]?.insertId || 0;
+  void publishRealtimeEvent("service.created", data.incidentId, {
+    serviceId: insertId,
+    serviceType: data.serviceType,
+    status: data.status ?? "pending",
+    unitId: data.unitId ?? null,
+    assignedTo: data.assignedTo ?? null,
+  });
+
+  return { insertId };
+}
+
+export async function getServiceById(serviceId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(services)
+    .where(eq(services.id, serviceId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getIncidentServices(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(services)
+    .where(eq(services.incidentId, incidentId));
+}
+
+export async function updateServiceStatus(
+  serviceId: number,
+  status: "pending" | "assigned" | "en_route" | "arrived" | "completed" | "cancelled"
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const current = await getServiceById(serviceId);
+  if (!current) {
+    throw new ServiceTransitionError("not_found", null, status, `Service #${serviceId} not found`);
+  }
+  assertServiceTransition(current.status, status);
+
+  const now = new Date();
+  // كل مرحلة تُسجل أول مرة تُبلغ فيها، والمراحل السابقة المتخطاة تُعتبر مبلغة معها (لقياس SLA)
+  const reached = (milestones: string[]) => milestones.includes(status);
+  const result = await db
+    .update(services)
+    .set({
+      status,
+      updatedAt: now,
+      ...(reached(["assigned", "en_route", "arrived"]) ? { assignedAt: sql`coalesce(${services.assignedAt}, ${now})` } : {}),
+      ...(reached(["en_route", "arrived"]) ? { enRouteAt: sql`coalesce(${services.enRouteAt}, ${now})` } : {}),
+      ...(status === "arrived" ? { arrivedAt: sql`coalesce(${services.arrivedAt}, ${now})` } : {}),
+      ...(status === "completed" ? { completedAt: sql`coalesce(${services.completedAt}, ${now})` } : {}),
+    })
+    // شرط الحالة يمنع إعادة تفعيل خدمة انتهت بين القراءة والتحديث
+    .where(
+      and(
+        eq(services.id, serviceId),
+        or(eq(services.status, status), notInArray(services.status, [...TERMINAL_SERVICE_STATUSES]))
+      )
+    );
+  if (result[0].affectedRows === 0) {
+    const latest = await getServiceById(serviceId);
+    if (latest) assertServiceTransition(latest.status, status);
+  }
+
+  const service = await getServiceById(serviceId);
+  if (service) {
+    // تحرير الوحدة عند انتهاء الخدمة أو إلغائها
+    if ((status === "completed" || status === "cancelled") && service.unitId) {
+      await releaseServiceUnit(service.unitId, serviceId);
+    }
+
+    void publishRealtimeEvent("service.status_changed", service.incidentId, {
+      serviceId,
+      serviceType: service.serviceType,
+      status,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * توجيه وحدة لخدمة معلقة بلا وحدة (تحديث مشروط، فلا تُوجه وحدتان للخدمة نفسها)
+ * @returns true إذا تم التوجيه
+ */
+export async function assignServiceUnit(serviceId: number, unit: { id: number; callSign: string }): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const result = await db
+    .update(services)
+    .set({ unitId: unit.id, assignedTo: unit.callSign, status: "assigned", assignedAt: now, updatedAt: now })
+    .where(and(eq(services.id, serviceId), eq(services.status, "pending"), isNull(services.unitId)));
+
+  const assigned = result[0].affectedRows > 0;
+  if (assigned) {
+    const service = await getServiceById(serviceId);
+    if (service) {
+      void publishRealtimeEvent("service.status_changed", service.incidentId, {
+        serviceId,
+        serviceType: service.serviceType,
+        status: "assigned",
+        unitId: unit.id,
+      });
+    }
+  }
+  return assigned;
+}
+
+/**
+ * الخدمات التي لم تصل بعد (تُراقب لتجاوز SLA)
+ */
+export async function getOpenServices() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(services)
+    .where(inArray(services.status, ["pending", "assigned", "en_route"]))
+    .orderBy(asc(services.createdAt));
+}
+
+/**
+ * الخدمات المطلوبة خلال فترة مع جهة الوحدة الموجهة (لتقرير الالتزام بـ SLA)
+ */
+export async function getServicesWithAgency(filter: { from: Date; to: Date; agency?: string }) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({ service: services, agency: serviceUnits.agency })
+    .from(services)
+    .leftJoin(serviceUnits, eq(services.unitId, serviceUnits.id))
+    .where(
+      and(
+        gte(services.createdAt, filter.from),
+        lt(services.createdAt, filter.to),
+        filter.agency ? eq(serviceUnits.agency, filter.agency) : undefined
+      )
+    )
+    .orderBy(asc(services.createdAt));
+}
+
+// ===== SLA Queries =====
+export async function getSlaTargets() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(slaTargets);
+}
+
+export async function upsertSlaTarget(data: {
+  serviceType: "ambulance" | "tow_truck" | "traffic_control" | "police" | "fire";
+  priority: "immediate" | "urgent" | "normal";
+  assignedMinutes: number;
+  enRouteMinutes: number;
+  arrivedMinutes: number;
+  updatedBy?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { serviceType: _serviceType, priority: _priority, ...minutes } = data;
+  await db.insert(slaTargets).values(data).onDuplicateKeyUpdate({
+    set: { ...minutes, updatedAt: new Date() },
+  });
+}
+
+/**
+ * حذف الأهداف المحفوظة، فتعود الأهداف الافتراضية
+ */
+export async function deleteSlaTargets() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(slaTargets);
+}
+
+/**
+ * تسجيل تجاوز مرحلة مرة واحدة فقط لكل خدمة
+ * @returns رقم التجاوز إذا كان جديداً ويجب تصعيده، أو null
+ */
+export async function recordSlaBreach(data: {
+  serviceId: number;
+  incidentId: number;
+  milestone: "assigned" | "en_route" | "arrived";
+  targetMinutes: number;
+  dueAt: Date;
+}): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(serviceSlaBreaches).ignore().values(data);
+  return result[0].affectedRows > 0 ? result[0].insertId : null;
+}
+
+export async function updateSlaBreach(
+  breachId: number,
+  data: { redispatchServiceId?: number | null; supervisorNotified?: boolean }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.update(serviceSlaBreaches).set(data).where(eq(serviceSlaBreaches.id, breachId));
+}
+
+export async function getSlaBreaches(
+  filter: { incidentId?: number; serviceId?: number; from?: Date; to?: Date; limit?: number } = {}
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(serviceSlaBreaches)
+    .where(
+      and(
+        filter.incidentId !== undefined ? eq(serviceSlaBreaches.incidentId, filter.incidentId) : undefined,
+        filter.serviceId !== undefined ? eq(serviceSlaBreaches.serviceId, filter.serviceId) : undefined,
+        filter.from ? gte(serviceSlaBreaches.createdAt, filter.from) : undefined,
+        filter.to ? lt(serviceSlaBreaches.createdAt, filter.to) : undefined
+      )
+    )
+    .orderBy(desc(serviceSlaBreaches.createdAt), desc(serviceSlaBreaches.id))
+    .limit(filter.limit ?? 100);
+}
+
+// ===== Service Units Queries =====
+export async function createServiceUnit(data: {
+  callSign: string;
+  unitType: ServiceType;
+  agency: string;
+  homeBase?: string;
+  homeLatitude?: string;
+  homeLongitude?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(serviceUnits).values({
+    ...data,
+    // تبدأ الوحدة من مقرها
+    currentLatitude: data.homeLatitude,
+    currentLongitude: data.homeLongitude,
+    status: "available",
+  });
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getServiceUnits(filter: {
+  unitType?: ServiceType;
+  status?: "available" | "busy" | "offline";
+  agency?: string;
+} = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [
+    filter.unitType ? eq(serviceUnits.unitType, filter.unitType) : undefined,
+    filter.status ? eq(serviceUnits.status, filter.status) : undefined,
+    filter.agency ? eq(serviceUnits.agency, filter.agency) : undefined,
+  ];
+
+  return await db
+    .select()
+    .from(serviceUnits)
+    .where(and(...conditions));
+}
+
+export async function getServiceUnitById(unitId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(serviceUnits)
+    .where(eq(serviceUnits.id, unitId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function updateServiceUnit(
+  unitId: number,
+  data: {
+    currentLatitude?: string;
+    currentLongitude?: string;
+    status?: "available" | "offline";
+  }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // الوحدة المشغولة لا تتغير حالتها يدوياً، تُحرَّر عند انتهاء خدمتها
+  const { status, ...position } = data;
+  if (status) {
+    await db
+      .update(serviceUnits)
+      .set({ status, updatedAt: new Date() })
+      .where(and(eq(serviceUnits.id, unitId), ne(serviceUnits.status, "busy")));
+  }
+  if (position.currentLatitude !== undefined || position.currentLongitude !== undefined) {
+    await db
+      .update(serviceUnits)
+      .set({ ...position, updatedAt: new Date() })
+      .where(eq(serviceUnits.id, unitId));
+  }
+}
+
+/**
+ * حجز الوحدة إذا كانت متاحة (تحديث مشروط لتجنب حجز الوحدة نفسها مرتين)
+ * @returns true إذا تم الحجز
+ */
+export async function claimServiceUnit(unitId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(serviceUnits)
+    .set({ status: "busy", updatedAt: new Date() })
+    .where(and(eq(serviceUnits.id, unitId), eq(serviceUnits.status, "available")));
+
+  return result[0].affectedRows > 0;
+}
+
+export async function setServiceUnitService(unitId: number, serviceId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(serviceUnits)
+    .set({ currentServiceId: serviceId, updatedAt: new Date() })
+    .where(eq(serviceUnits.id, unitId));
+}
+
+/**
+ * إعادة الوحدة متاحة (إذا لم تكن قد وُجّهت لخدمة أخرى)
+ */
+export async function releaseServiceUnit(unitId: number, serviceId?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(serviceUnits)
+    .set({ status: "available", currentServiceId: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(serviceUnits.id, unitId),
+        eq(serviceUnits.status, "busy"),
+        serviceId !== undefined ? eq(serviceUnits.currentServiceId, serviceId) : undefined
+      )
+    );
+}
+
+// ===== Service Tracking Queries =====
+export async function addServiceLocation(data: {
+  serviceId: number;
+  unitId?: number | null;
+  latitude: string;
+  longitude: string;
+  distanceMeters: number;
+  recordedAt?: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(serviceLocations).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getServiceTrack(serviceId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(serviceLocations)
+    .where(eq(serviceLocations.serviceId, serviceId))
+    .orderBy(asc(serviceLocations.recordedAt), asc(serviceLocations.id));
+}
+
+/**
+ * تسجيل تنبيه اقتراب مرة واحدة فقط لكل خدمة
+ * @returns true إذا كان التنبيه جديداً ويجب إرساله
+ */
+export async function recordProximityAlert(data: {
+  serviceId: number;
+  alert: "5km" | "2km" | "1km" | "arrived";
+  distanceMeters: number;
+}): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(serviceProximityAlerts).ignore().values(data);
+  return result[0].affectedRows > 0;
+}
+
+// ===== Incident Media Queries =====
+export async function addIncidentMedia(data: {
+  incidentId: number;
+  mediaType: "image" | "video";
+  // رابط خارجي (محاكاة) أو مفتاح تخزين (ملف مرفوع)
+  mediaUrl?: string;
+  storageKey?: string;
+  thumbnailKey?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  sha256?: string;
+  capturedAt?: Date;
+  captureLatitude?: string;
+  captureLongitude?: string;
+  uploadedBy?: number;
+  description?: string;
+  isSimulated?: boolean;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(incidentMedia).values({
+    ...data,
+    isSimulated: data.isSimulated ?? true,
+  });
+
+  const insertId = result[0]?.insertId || 0;
+  void publishRealtimeEvent("media.added", data.incidentId, {
+    mediaId: insertId,
+    mediaType: data.mediaType,
+    mediaUrl: data.mediaUrl ?? null,
+    storageKey: data.storageKey ?? null,
+  });
+
+  return { insertId };
+}
+
+export async function findIncidentMediaByHash(incidentId: number, sha256: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(incidentMedia)
+    .where(and(eq(incidentMedia.incidentId, incidentId), eq(incidentMedia.sha256, sha256)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ===== Media Upload Sessions Queries =====
+export async function createMediaUpload(data: {
+  incidentId: number;
+  uploadedBy: number;
+  fileName: string;
+  mimeType: string;
+  declaredSize: number;
+  description?: string;
+  expiresAt: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const token = nanoid(32);
+  const result = await db.insert(mediaUploads).values({ ...data, token });
+  return { insertId: result[0]?.insertId || 0, token };
+}
+
+export async function getMediaUploadByToken(token: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(mediaUploads)
+    .where(eq(mediaUploads.token, token))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * تسجيل استلام جزء، بشرط أن يكون الجزء التالي المتوقع والجلسة ما زالت مفتوحة
+ * @returns false إذا سبقه طلب آخر بالجزء نفسه
+ */
+export async function recordMediaUploadChunk(
+  uploadId: number,
+  chunkIndex: number,
+  byteLength: number
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(mediaUploads)
+    .set({
+      chunkCount: chunkIndex + 1,
+      receivedBytes: sql`${mediaUploads.receivedBytes} + ${byteLength}`,
+    })
+    .where(
+      and(
+        eq(mediaUploads.id, uploadId),
+        eq(mediaUploads.status, "open"),
+        eq(mediaUploads.chunkCount, chunkIndex)
+      )
+    );
+
+  return result[0].affectedRows > 0;
+}
+
+export async function finishMediaUpload(
+  uploadId: number,
+  outcome: { status: "completed"; mediaId: number } | { status: "failed"; error: string }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(mediaUploads)
+    .set(
+      outcome.status === "completed"
+        ? { status: "completed", mediaId: outcome.mediaId }
+        : { status: "failed", error: outcome.error }
+    )
+    .where(eq(mediaUploads.id, uploadId));
+}
+
+export async function getIncidentMedia(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(incidentMedia)
+    .where(eq(incidentMedia.incidentId, incidentId));
+}
+
+// ===== Incident History Queries =====
+/**
+ * إضافة سجل في نهاية سلسلة الحادث داخل المعاملة
+ * قفل صف الحادث يمنع سجلين متزامنين من أخذ التسلسل نفسه
+ */
+async function appendIncidentHistory(tx: Transaction, entry: HistoryEvent) {
+  await tx.select({ id: incidents.id }).from(incidents).where(eq(incidents.id, entry.incidentId)).for("update");
+  const [last] = await tx
+    .select({ sequence: incidentHistory.sequence, hash: incidentHistory.hash })
+    .from(incidentHistory)
+    .where(eq(incidentHistory.incidentId, entry.incidentId))
+    .orderBy(desc(incidentHistory.sequence))
+    .limit(1);
+
+  const fields = {
+    ...historyRecord(entry),
+    sequence: (last?.sequence ?? 0) + 1,
+    // أعمدة timestamp تحفظ الثواني فقط، والبصمة تُحسب على القيمة المحفوظة
+    createdAt: new Date(Math.floor(Date.now() / 1000) * 1000),
+    previousHash: last?.hash ?? HISTORY_GENESIS_HASH,
+  };
+  const hash = hashHistoryEntry(fields);
+  await tx.insert(incidentHistory).values({ ...fields, hash });
+  return { ...fields, hash };
+}
+
+export async function addIncidentHistory(data: HistoryEvent) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const entry = await db.transaction((tx) => appendIncidentHistory(tx, data));
+  void publishRealtimeEvent("history.added", data.incidentId, data);
+  return entry;
+}
+
+export type IncidentHistoryFilter = {
+  eventTypes?: HistoryEventType[];
+  performedBy?: number;
+  from?: Date;
+  to?: Date;
+};
+
+export function historyFilterConditions(filter: IncidentHistoryFilter): SQL[] {
+  const conditions: SQL[] = [];
+  if (filter.eventTypes?.length) conditions.push(inArray(incidentHistory.eventType, filter.eventTypes));
+  if (filter.performedBy !== undefined) conditions.push(eq(incidentHistory.performedBy, filter.performedBy));
+  if (filter.from) conditions.push(gte(incidentHistory.createdAt, filter.from));
+  if (filter.to) conditions.push(lt(incidentHistory.createdAt, filter.to));
+  return conditions;
+}
+
+/**
+ * سلسلة سجلات الحادث بترتيبها (بلا تصفية للتحقق من السلسلة كاملة)
+ */
+export async function getIncidentHistory(incidentId: number, filter: IncidentHistoryFilter = {}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(incidentHistory)
+    .where(and(eq(incidentHistory.incidentId, incidentId), ...historyFilterConditions(filter)))
+    .orderBy(asc(incidentHistory.sequence));
+}
+
+/**
+ * البلاغات المدموجة في الحادث، ومن دُمج فيها قبل ذلك
+ */
+export async function getMergedIncidentIds(incidentId: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const mergedIds: number[] = [];
+  let survivors = [incidentId];
+  while (survivors.length > 0) {
+    const rows = await db
+      .select({ id: incidents.id })
+      .from(incidents)
+      .where(inArray(incidents.mergedIntoId, survivors));
+    survivors = rows.map((row) => row.id).filter((id) => !mergedIds.includes(id));
+    mergedIds.push(...survivors);
+  }
+  return mergedIds;
+}
+
+/**
+ * سجلات عدة حوادث معاً بترتيب وقوعها، مثل الحادث الباقي مع البلاغات المدموجة فيه
+ * كل سجل يبقى في سلسلة حادثه (incidentId وsequence) فلا تتأثر بصماته
+ */
+export async function getLinkedIncidentHistory(
+  incidentIds: number[],
+  filter: IncidentHistoryFilter = {}
+) {
+  const db = await getDb();
+  if (!db || incidentIds.length === 0) return [];
+
+  return await db
+    .select()
+    .from(incidentHistory)
+    .where(and(inArray(incidentHistory.incidentId, incidentIds), ...historyFilterConditions(filter)))
+    .orderBy(asc(incidentHistory.createdAt), asc(incidentHistory.incidentId), asc(incidentHistory.sequence));
+}
+
+/**
+ * البحث في أحداث السجل عبر الحوادث، مثل كل تغييرات نسب الخطأ لمشغل محدد (الأحدث أولاً)
+ */
+export async function searchIncidentHistory(
+  filter: IncidentHistoryFilter & { incidentId?: number; limit: number; offset: number }
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(incidentHistory)
+    .where(
+      and(
+        filter.incidentId !== undefined ? eq(incidentHistory.incidentId, filter.incidentId) : undefined,
+        ...historyFilterConditions(filter)
+      )
+    )
+    .orderBy(desc(incidentHistory.createdAt), desc(incidentHistory.id))
+    .limit(filter.limit)
+    .offset(filter.offset);
+}
+
+// ===== Statistics Queries =====
+/**
+ * حساب إحصائيات يوم واحد من جداول الحوادث والسجل التاريخي
+ */
+export async function computeDailyStatistics(date: Date) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const dayStart = startOfDay(date);
+  const dayEnd = nextDay(date);
+
+  const reported = await db
+    .select()
+    .from(incidents)
+    .where(and(gte(incidents.reportedAt, dayStart), lt(incidents.reportedAt, dayEnd)));
+
+  // الحوادث المسجّل وقت حلها مباشرة، دون البلاغات المدمجة التي يُضبط resolvedAt لها عند الدمج
+  const resolvedWithTimestamp = await db
+    .select()
+    .from(incidents)
+    .where(
+      and(
+        gte(incidents.resolvedAt, dayStart),
+        lt(incidents.resolvedAt, dayEnd),
+        isNull(incidents.mergedIntoId)
+      )
+    );
+
+  const resolutionMinutes = resolvedWithTimestamp.map((incident) =>
+    minutesBetween(incident.reportedAt, incident.resolvedAt!)
+  );
+
+  // الحوادث القديمة التي لا تحمل resolvedAt: يُستخرج وقت الحل من السجل التاريخي
+  const statusChanges = await db
+    .select()
+    .from(incidentHistory)
+    .where(
+      and(
+        eq(incidentHistory.action, "Status updated"),
+        gte(incidentHistory.createdAt, dayStart),
+        lt(incidentHistory.createdAt, dayEnd)
+      )
+    );
+
+  const candidateIds = Array.from(new Set(statusChanges.map((h) => h.incidentId)));
+  if (candidateIds.length > 0) {
+    const candidates = await db
+      .select()
+      .from(incidents)
+      .where(
+        and(
+          inArray(incidents.id, candidateIds),
+          isNull(incidents.resolvedAt),
+          isNull(incidents.mergedIntoId)
+        )
+      );
+
+    for (const incident of candidates) {
+      const history = await getIncidentHistory(incident.id);
+      const resolvedAt = findResolutionTimeInHistory(history);
+      if (resolvedAt && resolvedAt >= dayStart && resolvedAt < dayEnd) {
+        resolutionMinutes.push(minutesBetween(incident.reportedAt, resolvedAt));
+      }
+    }
+  }
+
+  return summarizeDailyStatistics(dayStart, reported, resolutionMinutes);
+}
+
+export async function getTodayStatistics() {
+  return await computeDailyStatistics(new Date());
+}
+
+/**
+ * إعادة حساب إحصائيات يوم وحفظها (آمنة لإعادة التشغيل: صف واحد لكل يوم)
+ */
+export async function updateStatistics(date = new Date()) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = await computeDailyStatistics(date);
+  if (!values) throw new Error("Database not available");
+
+  const { date: _date, ...counts } = values;
+  await db.insert(statistics).values(values).onDuplicateKeyUpdate({
+    set: { ...counts, updatedAt: new Date() },
+  });
+
+  return values;
+}
+
+/**
+ * إعادة حساب الإحصائيات لكل يوم ضمن فترة (للتعبئة الرجعية)
+ */
+export async function rebuildStatistics(from: Date, to: Date) {
+  let days = 0;
+  for (let day = startOfDay(from); day <= to; day = nextDay(day)) {
+    await updateStatistics(day);
+    days++;
+  }
+  return { days };
+}
+
+export async function getStatisticsRange(from: Date, to: Date) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(statistics)
+    .where(and(gte(statistics.date, startOfDay(from)), lt(statistics.date, nextDay(to))))
+    .orderBy(asc(statistics.date));
+}
+
+
+// ===== Report Sends Queries =====
+export async function createReportSend(data: {
+  incidentId: number;
+  recipientType: "party" | "insurance" | "najm" | "operator";
+  recipientEmail?: string;
+  recipientPhone?: string;
+  recipientName?: string;
+  reportDocumentId?: number;
+}) {
+  if (!data.recipientEmail && !data.recipientPhone) {
+    throw new Error("Report recipient needs an email or a phone number");
+  }
+
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(reportSends).values({
+    incidentId: data.incidentId,
+    recipientType: data.recipientType,
+    recipientEmail: data.recipientEmail,
+    recipientPhone: data.recipientPhone,
+    recipientName: data.recipientName,
+    reportDocumentId: data.reportDocumentId,
+    status: "pending",
+    trackingToken: nanoid(32),
+  });
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+/**
+ * الإرسالات المعلقة التي حان موعد محاولتها
+ */
+export async function getDueReportSends(now: Date, limit = 50) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(reportSends)
+    .where(
+      and(
+        eq(reportSends.status, "pending"),
+        or(isNull(reportSends.nextAttemptAt), lte(reportSends.nextAttemptAt, now))
+      )
+    )
+    .orderBy(asc(reportSends.createdAt))
+    .limit(limit);
+}
+
+/**
+ * حجز الإرسال لمحاولة جديدة (تحديث مشروط بعدد المحاولات لمنع الإرسال المزدوج)
+ * @returns true إذا تم الحجز
+ */
+export async function claimReportSendAttempt(
+  reportSendId: number,
+  expectedAttempts: number,
+  leaseUntil: Date
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(reportSends)
+    .set({ attempts: expectedAttempts + 1, nextAttemptAt: leaseUntil, updatedAt: new Date() })
+    .where(
+      and(
+        eq(reportSends.id, reportSendId),
+        eq(reportSends.status, "pending"),
+        eq(reportSends.attempts, expectedAttempts)
+      )
+    );
+
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * جدولة إعادة المحاولة بعد فشل مؤقت
+ */
+export async function scheduleReportSendRetry(
+  reportSendId: number,
+  nextAttemptAt: Date,
+  failureReason: string
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(reportSends)
+    .set({ nextAttemptAt, failureReason, updatedAt: new Date() })
+    .where(eq(reportSends.id, reportSendId));
+}
+
+export async function getReportSendByToken(trackingToken: string) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(reportSends)
+    .where(eq(reportSends.trackingToken, trackingToken))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getReportSends(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(reportSends)
     .where(eq(reportSends.incidentId, incidentId));
 }
 
@@ -392,3 +2170,456 @@ export async function updateReportSendStatus(
     .set(updateData)
     .where(eq(reportSends.id, reportSendId));
 }
+
+// ===== Report Documents Queries =====
+export async function addReportDocument(data: {
+  incidentId: number;
+  version: number;
+  storageKey: string;
+  sha256: string;
+  sizeBytes: number;
+  generatedBy?: number;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(reportDocuments).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getReportDocuments(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(reportDocuments)
+    .where(eq(reportDocuments.incidentId, incidentId))
+    .orderBy(desc(reportDocuments.version));
+}
+
+export async function getLatestReportDocument(incidentId: number) {
+  const documents = await getReportDocuments(incidentId);
+  return documents[0] ?? null;
+}
+
+export async function getReportDocumentById(documentId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db
+    .select()
+    .from(reportDocuments)
+    .where(eq(reportDocuments.id, documentId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+// ===== Background Jobs Queries =====
+export async function createJob(data: InsertJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(jobs).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function getJobById(jobId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getJobs(filters: {
+  incidentId?: number;
+  type?: InsertJob["type"];
+  status?: InsertJob["status"];
+  createdBy?: number;
+  limit?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions: SQL[] = [];
+  if (filters.incidentId !== undefined) conditions.push(eq(jobs.incidentId, filters.incidentId));
+  if (filters.type) conditions.push(eq(jobs.type, filters.type));
+  if (filters.status) conditions.push(eq(jobs.status, filters.status));
+  if (filters.createdBy !== undefined) conditions.push(eq(jobs.createdBy, filters.createdBy));
+
+  return await db
+    .select()
+    .from(jobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(jobs.createdAt), desc(jobs.id))
+    .limit(filters.limit ?? 50);
+}
+
+/**
+ * المهام التي حان موعدها، والمهام الجارية التي انتهى حجزها (توقف العامل أثناء تنفيذها)
+ */
+export async function getDueJobs(now: Date, limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, "queued"), lte(jobs.runAt, now)),
+        and(eq(jobs.status, "running"), lt(jobs.lockedUntil, now))
+      )
+    )
+    .orderBy(asc(jobs.runAt), asc(jobs.id))
+    .limit(limit);
+}
+
+/**
+ * حجز المهمة لمحاولة جديدة (تحديث مشروط بعدد المحاولات حتى لا تُنفذ مرتين)
+ * @returns true إذا تم الحجز
+ */
+export async function claimJob(
+  jobId: number,
+  expectedAttempts: number,
+  lockedUntil: Date
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(jobs)
+    .set({
+      status: "running",
+      attempts: expectedAttempts + 1,
+      lockedUntil,
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(jobs.id, jobId),
+        inArray(jobs.status, ["queued", "running"]),
+        eq(jobs.attempts, expectedAttempts)
+      )
+    );
+
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * إنهاء المحاولة: نجاح، أو إعادة جدولة، أو نقل إلى المهام الميتة
+ * التحديث مشروط برقم المحاولة، فلا تكتب محاولة انتهى حجزها فوق محاولة أحدث
+ * @returns true إذا سُجلت النتيجة
+ */
+export async function finishJobAttempt(
+  jobId: number,
+  attempt: number,
+  outcome:
+    | { status: "completed"; result: unknown }
+    | { status: "queued"; runAt: Date; error: string }
+    | { status: "dead"; error: string }
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const fields =
+    outcome.status === "completed"
+      ? { result: outcome.result ?? null, lastError: null, finishedAt: now }
+      : outcome.status === "queued"
+        ? { runAt: outcome.runAt, lastError: outcome.error }
+        : { lastError: outcome.error, finishedAt: now };
+
+  const result = await db
+    .update(jobs)
+    .set({ ...fields, status: outcome.status, lockedUntil: null, updatedAt: now })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running"), eq(jobs.attempts, attempt)));
+
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * إعادة مهمة ميتة إلى الطابور بعدد محاولات جديد
+ * @returns true إذا أعيدت (المهمة موجودة وميتة)
+ */
+export async function requeueDeadJob(jobId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .update(jobs)
+    .set({ status: "queued", attempts: 0, runAt: new Date(), finishedAt: null, updatedAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "dead")));
+
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * الحوادث التي لها مهمة من النوع المحدد (بأي حالة)
+ */
+export async function getIncidentIdsWithJobs(
+  type: InsertJob["type"],
+  incidentIds: number[]
+): Promise<Set<number>> {
+  const db = await getDb();
+  if (!db || incidentIds.length === 0) return new Set();
+
+  const rows = await db
+    .selectDistinct({ incidentId: jobs.incidentId })
+    .from(jobs)
+    .where(and(eq(jobs.type, type), inArray(jobs.incidentId, incidentIds)));
+
+  return new Set(rows.map((row) => row.incidentId!));
+}
+
+// ===== Incident Pipeline Queries =====
+export async function getIncidentPipelineSteps(incidentId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(incidentPipelineSteps)
+    .where(eq(incidentPipelineSteps.incidentId, incidentId))
+    .orderBy(asc(incidentPipelineSteps.id));
+}
+
+/**
+ * حجز خطوة للتنفيذ بمفتاحها
+ * الصف يُنشأ مرة واحدة لكل مفتاح، ثم يُحجز بتحديث مشروط بعدد المحاولات والحالة،
+ * فلا تنفذ نسختان الخطوة نفسها معاً ولا تُعاد خطوة مكتملة
+ * @returns الخطوة مع claimed إذا حُجزت لهذا المستدعي
+ */
+export async function claimPipelineStep(
+  incidentId: number,
+  step: string,
+  idempotencyKey: string,
+  lockedUntil: Date
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(incidentPipelineSteps)
+    .values({ incidentId, step, idempotencyKey })
+    .onDuplicateKeyUpdate({ set: { id: sql`id` } });
+
+  const [current] = await db
+    .select()
+    .from(incidentPipelineSteps)
+    .where(eq(incidentPipelineSteps.idempotencyKey, idempotencyKey))
+    .limit(1);
+  if (!current) throw new Error(`Pipeline step ${idempotencyKey} not found`);
+
+  const now = new Date();
+  if (
+    current.status === "completed" ||
+    (current.status === "running" && current.lockedUntil && current.lockedUntil > now)
+  ) {
+    return { ...current, claimed: false };
+  }
+
+  const result = await db
+    .update(incidentPipelineSteps)
+    .set({
+      status: "running",
+      attempts: current.attempts + 1,
+      lockedUntil,
+      startedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(incidentPipelineSteps.id, current.id),
+        eq(incidentPipelineSteps.status, current.status),
+        eq(incidentPipelineSteps.attempts, current.attempts)
+      )
+    );
+
+  return {
+    ...current,
+    status: "running" as const,
+    attempts: current.attempts + 1,
+    claimed: result[0].affectedRows > 0,
+  };
+}
+
+/**
+ * تسجيل نتيجة المحاولة، مشروط برقمها حتى لا تكتب محاولة انتهى حجزها فوق أحدث منها
+ */
+export async function finishPipelineStep(
+  stepId: number,
+  attempt: number,
+  outcome: { status: "completed"; result: unknown } | { status: "failed"; error: string }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const fields =
+    outcome.status === "completed"
+      ? { result: outcome.result ?? null, error: null, completedAt: now }
+      : { error: outcome.error };
+
+  return await db
+    .update(incidentPipelineSteps)
+    .set({ ...fields, status: outcome.status, lockedUntil: null, updatedAt: now })
+    .where(
+      and(
+        eq(incidentPipelineSteps.id, stepId),
+        eq(incidentPipelineSteps.status, "running"),
+        eq(incidentPipelineSteps.attempts, attempt)
+      )
+    );
+}
+
+// ===== Scheduler Queries =====
+/**
+ * أخذ قفل المهمة أو تجديده حتى lockedUntil
+ * ينجح إذا كان القفل لهذه النسخة أو انتهت مدته (توقفت النسخة التي كانت تملكه)
+ * @returns true إذا أصبح القفل لهذه النسخة
+ */
+export async function acquireSchedulerLock(
+  task: string,
+  owner: string,
+  lockedUntil: Date
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(schedulerLocks)
+    .values({ task, owner, lockedUntil })
+    .onDuplicateKeyUpdate({ set: { task: sql`task` } });
+
+  const result = await db
+    .update(schedulerLocks)
+    .set({ owner, lockedUntil, updatedAt: new Date() })
+    .where(
+      and(
+        eq(schedulerLocks.task, task),
+        or(eq(schedulerLocks.owner, owner), lt(schedulerLocks.lockedUntil, new Date()))
+      )
+    );
+
+  return result[0].affectedRows > 0;
+}
+
+export async function getSchedulerLocks() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(schedulerLocks).orderBy(asc(schedulerLocks.task));
+}
+
+export async function startSchedulerRun(task: string, instanceId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(schedulerRuns).values({ task, instanceId });
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function finishSchedulerRun(
+  runId: number,
+  outcome: { status: "completed"; result: unknown } | { status: "failed"; error: string },
+  durationMs: number
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(schedulerRuns)
+    .set({
+      status: outcome.status,
+      result: outcome.status === "completed" ? (outcome.result ?? null) : null,
+      error: outcome.status === "failed" ? outcome.error : null,
+      durationMs,
+      finishedAt: new Date(),
+    })
+    .where(eq(schedulerRuns.id, runId));
+}
+
+export async function getSchedulerRuns(filters: {
+  task?: string;
+  status?: "running" | "completed" | "failed";
+  limit?: number;
+}) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions: SQL[] = [];
+  if (filters.task) conditions.push(eq(schedulerRuns.task, filters.task));
+  if (filters.status) conditions.push(eq(schedulerRuns.status, filters.status));
+
+  return await db
+    .select()
+    .from(schedulerRuns)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(schedulerRuns.startedAt), desc(schedulerRuns.id))
+    .limit(filters.limit ?? 50);
+}
+
+// ===== Dispatch Rules Queries =====
+export async function getDispatchRules() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(dispatchRules)
+    .orderBy(asc(dispatchRules.sortOrder), asc(dispatchRules.id));
+}
+
+export async function getDispatchRuleById(ruleId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const result = await db.select().from(dispatchRules).where(eq(dispatchRules.id, ruleId)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function createDispatchRule(data: InsertDispatchRule) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(dispatchRules).values(data);
+  return { insertId: result[0]?.insertId || 0 };
+}
+
+export async function updateDispatchRule(
+  ruleId: number,
+  data: Partial<Omit<InsertDispatchRule, "id" | "createdBy" | "createdAt">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .update(dispatchRules)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(dispatchRules.id, ruleId));
+}
+
+export async function deleteDispatchRule(ruleId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(dispatchRules).where(eq(dispatchRules.id, ruleId));
+}
+
+/**
+ * استبدال كل القواعد دفعة واحدة (لاستعادة القواعد الافتراضية)
+ */
+export async function replaceDispatchRules(rules: InsertDispatchRule[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(dispatchRules);
+    if (rules.length > 0) await tx.insert(dispatchRules).values(rules);
+  });
+  return { count: rules.length };
+}
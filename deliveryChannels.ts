@@ -0,0 +1,177 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * قنوات إرسال التقارير (بريد إلكتروني ورسائل SMS)
+ * المحوّل الفعلي يُختار من متغير البيئة REPORT_DELIVERY_CHANNEL:
+ * - http: خدمات البريد والرسائل عبر HTTP (الإنتاج)
+ * - file: كتابة الرسائل في ملف محلي (التطوير)
+ * - memory: الاحتفاظ بالرسائل في الذاكرة (الاختبارات)
+ */
+
+export type DeliveryChannelName = "email" | "sms";
+
+export type DeliveryMode = "http" | "file" | "memory";
+
+const DELIVERY_MODES: readonly DeliveryMode[] = ["http", "file", "memory"];
+
+export type DeliveryMessage = {
+  to: string;
+  subject: string;
+  body: string;
+  trackingUrl: string;
+  attachmentUrl?: string;
+};
+
+export interface DeliveryChannel {
+  name: DeliveryChannelName;
+  send(message: DeliveryMessage): Promise<void>;
+}
+
+export type DeliveryChannels = Partial<
+  Record<DeliveryChannelName, DeliveryChannel>
+>;
+
+/**
+ * قناة HTTP عامة: ترسل الرسالة كـ JSON إلى مزود خارجي
+ */
+export function createHttpChannel(
+  name: DeliveryChannelName,
+  config: { url: string; apiKey: string }
+): DeliveryChannel {
+  return {
+    name,
+    async send(message) {
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify(message),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => response.statusText);
+        throw new Error(
+          `${name} provider rejected message (${response.status}): ${detail}`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * قناة ملفات للتطوير: كل رسالة سطر JSON في outbox.jsonl
+ */
+export function createFileChannel(
+  name: DeliveryChannelName,
+  directory: string
+): DeliveryChannel {
+  return {
+    name,
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+      await appendFile(
+        path.join(directory, "outbox.jsonl"),
+        JSON.stringify({ channel: name, sentAt: new Date(), ...message }) + "\n"
+      );
+    },
+  };
+}
+
+/**
+ * قناة في الذاكرة للاختبارات، يمكن جعلها تفشل لمحاكاة أعطال المزود
+ */
+export function createMemoryChannel(name: DeliveryChannelName) {
+  const sent: DeliveryMessage[] = [];
+  let failure: Error | null = null;
+
+  const channel: DeliveryChannel & {
+    sent: DeliveryMessage[];
+    failWith(error: Error | null): void;
+  } = {
+    name,
+    sent,
+    failWith(error) {
+      failure = error;
+    },
+    async send(message) {
+      if (failure) throw failure;
+      sent.push(message);
+    },
+  };
+
+  return channel;
+}
+
+/**
+ * المحوّل المطلوب من إعدادات البيئة
+ * قناة الملفات هي الافتراضية في التطوير فقط: خارجه يجب ضبط المتغير صراحة،
+ * وإلا تُكتب التقارير في ملف محلي وتُعلَّم مرسلة دون أن يستلمها أحد
+ */
+export function resolveDeliveryMode(
+  env: NodeJS.ProcessEnv = process.env
+): DeliveryMode {
+  const mode = env.REPORT_DELIVERY_CHANNEL;
+  if (!mode) {
+    if (env.NODE_ENV === "development") return "file";
+    throw new Error(
+      "REPORT_DELIVERY_CHANNEL is not set (expected http, file or memory)"
+    );
+  }
+
+  if (!DELIVERY_MODES.includes(mode as DeliveryMode)) {
+    throw new Error(
+      `Unknown REPORT_DELIVERY_CHANNEL "${mode}" (expected http, file or memory)`
+    );
+  }
+  return mode as DeliveryMode;
+}
+
+let _channels: DeliveryChannels | null = null;
+
+/**
+ * القنوات المفعلة حسب إعدادات البيئة، يرمي خطأ إذا لم تُضبط خارج التطوير
+ */
+export function getDeliveryChannels(): DeliveryChannels {
+  if (_channels) return _channels;
+
+  const mode = resolveDeliveryMode();
+
+  if (mode === "http") {
+    _channels = {};
+    if (process.env.EMAIL_API_URL && process.env.EMAIL_API_KEY) {
+      _channels.email = createHttpChannel("email", {
+        url: process.env.EMAIL_API_URL,
+        apiKey: process.env.EMAIL_API_KEY,
+      });
+    }
+    if (process.env.SMS_API_URL && process.env.SMS_API_KEY) {
+      _channels.sms = createHttpChannel("sms", {
+        url: process.env.SMS_API_URL,
+        apiKey: process.env.SMS_API_KEY,
+      });
+    }
+  } else if (mode === "memory") {
+    _channels = {
+      email: createMemoryChannel("email"),
+      sms: createMemoryChannel("sms"),
+    };
+  } else {
+    const directory = process.env.REPORT_OUTBOX_DIR ?? "tmp/outbox";
+    _channels = {
+      email: createFileChannel("email", directory),
+      sms: createFileChannel("sms", directory),
+    };
+  }
+
+  return _channels;
+}
+
+/**
+ * استبدال القنوات (للاختبارات)
+ */
+export function setDeliveryChannels(channels: DeliveryChannels | null): void {
+  _channels = channels;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { ServiceUnit } from "../drizzle/schema";
+import { rankUnitsByDistance } from "./dispatch";
+
+function unit(
+  id: number,
+  latitude: string | null,
+  longitude: string | null
+): ServiceUnit {
+  return {
+    id,
+    callSign: `AMB-${id}`,
+    unitType: "ambulance",
+    agency: "Red Crescent",
+    homeBase: null,
+    homeLatitude: null,
+    homeLongitude: null,
+    currentLatitude: latitude,
+    currentLongitude: longitude,
+    status: "available",
+    currentServiceId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("rankUnitsByDistance", () => {
+  // حادث في وسط الرياض
+  const incident = { latitude: 24.7136, longitude: 46.6753 };
+
+  it("orders units from nearest to farthest", () => {
+    const ranked = rankUnitsByDistance(
+      [
+        unit(1, "24.80000000", "46.70000000"),
+        unit(2, "24.71500000", "46.67600000"),
+        unit(3, "21.48580000", "39.19250000"),
+      ],
+      incident
+    );
+
+    expect(ranked.map(r => r.unit.id)).toEqual([2, 1, 3]);
+    expect(ranked[0]!.distanceKm).toBeLessThan(1);
+    expect(ranked[2]!.distanceKm).toBeGreaterThan(800);
+  });
+
+  it("skips units without a known position", () => {
+    const ranked = rankUnitsByDistance(
+      [unit(1, null, null), unit(2, "24.72000000", "46.68000000")],
+      incident
+    );
+    expect(ranked.map(r => r.unit.id)).toEqual([2]);
+  });
+});
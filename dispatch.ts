@@ -0,0 +1,184 @@
+import type { Service, ServiceUnit } from "../drizzle/schema";
+import {
+  assignServiceUnit,
+  claimServiceUnit,
+  createService,
+  getIncidentById,
+  getServiceUnitById,
+  getServiceUnits,
+  releaseServiceUnit,
+  setServiceUnitService,
+} from "./db";
+import type { DispatchPriority } from "./dispatchRules";
+import { distanceKm, toCoordinates, type Coordinates } from "./geo";
+
+/**
+ * نظام توجيه الوحدات
+ * يختار أقرب وحدة متاحة من النوع المطلوب لموقع الحادث ويحجزها للخدمة
+ */
+
+export type ServiceType = Service["serviceType"];
+
+export type RankedUnit = { unit: ServiceUnit; distanceKm: number };
+
+export type DispatchResult = {
+  serviceId: number;
+  unit: ServiceUnit | null;
+  distanceKm: number | null;
+};
+
+/**
+ * ترتيب الوحدات حسب المسافة إلى الموقع (تُستبعد الوحدات بلا موقع معروف)
+ */
+export function rankUnitsByDistance(
+  units: ServiceUnit[],
+  target: Coordinates
+): RankedUnit[] {
+  return units
+    .filter(
+      unit => unit.currentLatitude !== null && unit.currentLongitude !== null
+    )
+    .map(unit => ({
+      unit,
+      distanceKm: distanceKm(
+        toCoordinates(unit.currentLatitude!, unit.currentLongitude!),
+        target
+      ),
+    }))
+    .sort((a, b) => a.distanceKm - b.distanceKm || a.unit.id - b.unit.id);
+}
+
+/**
+ * إنشاء خدمة للحادث وتوجيه أقرب وحدة متاحة إليها
+ * إذا لم تتوفر وحدة تبقى الخدمة بحالة pending
+ */
+export async function dispatchService(
+  incidentId: number,
+  serviceType: ServiceType,
+  options: {
+    assignedTo?: string;
+    unitId?: number;
+    priority?: DispatchPriority;
+  } = {}
+): Promise<DispatchResult> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const target = toCoordinates(incident.latitude, incident.longitude);
+
+  const candidates = options.unitId
+    ? await getRequestedUnit(options.unitId, serviceType)
+    : await getServiceUnits({ unitType: serviceType, status: "available" });
+
+  for (const { unit, distanceKm } of rankUnitsByDistance(candidates, target)) {
+    // قد تحجز نسخة أخرى من الخادم الوحدة نفسها، ننتقل حينها للوحدة التالية
+    if (!(await claimServiceUnit(unit.id))) continue;
+
+    try {
+      const result = await createService({
+        incidentId,
+        serviceType,
+        assignedTo: unit.callSign,
+        unitId: unit.id,
+        status: "assigned",
+        priority: options.priority,
+      });
+      await setServiceUnitService(unit.id, result.insertId);
+      return { serviceId: result.insertId, unit, distanceKm };
+    } catch (error) {
+      await releaseServiceUnit(unit.id);
+      throw error;
+    }
+  }
+
+  if (options.unitId) {
+    throw new Error(`Service unit #${options.unitId} is not available`);
+  }
+
+  const result = await createService({
+    incidentId,
+    serviceType,
+    assignedTo: options.assignedTo,
+    priority: options.priority,
+  });
+  return { serviceId: result.insertId, unit: null, distanceKm: null };
+}
+
+/**
+ * توجيه وحدة أخرى لخدمة تجاوزت SLA
+ * الخدمة المعلقة بلا وحدة تأخذ الوحدة نفسها، والخدمة التي لها وحدة متأخرة
+ * تُنشأ لها خدمة بديلة بالأولوية نفسها (وتبقى الوحدة الأولى في طريقها)
+ * @returns null إذا لم تتوفر وحدة، ولا تُنشأ خدمة معلقة أخرى
+ */
+export async function redispatchService(
+  service: Service
+): Promise<DispatchResult | null> {
+  const incident = await getIncidentById(service.incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const candidates = await getServiceUnits({
+    unitType: service.serviceType,
+    status: "available",
+  });
+  const ranked = rankUnitsByDistance(
+    candidates,
+    toCoordinates(incident.latitude, incident.longitude)
+  );
+
+  for (const { unit, distanceKm } of ranked) {
+    if (!(await claimServiceUnit(unit.id))) continue;
+
+    try {
+      if (!service.unitId) {
+        // قد تكون الخدمة وُجهت أو أُلغيت منذ قراءتها
+        if (!(await assignServiceUnit(service.id, unit))) {
+          await releaseServiceUnit(unit.id);
+          return null;
+        }
+        await setServiceUnitService(unit.id, service.id);
+        return { serviceId: service.id, unit, distanceKm };
+      }
+
+      const result = await createService({
+        incidentId: service.incidentId,
+        serviceType: service.serviceType,
+        assignedTo: unit.callSign,
+        unitId: unit.id,
+        status: "assigned",
+        priority: service.priority,
+        escalatedFromId: service.id,
+      });
+      await setServiceUnitService(unit.id, result.insertId);
+      return { serviceId: result.insertId, unit, distanceKm };
+    } catch (error) {
+      await releaseServiceUnit(unit.id);
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+async function getRequestedUnit(
+  unitId: number,
+  serviceType: ServiceType
+): Promise<ServiceUnit[]> {
+  const unit = await getServiceUnitById(unitId);
+  if (!unit || unit.unitType !== serviceType) {
+    throw new Error(`Service unit #${unitId} cannot serve ${serviceType}`);
+  }
+  return [unit];
+}
+
+/**
+ * وصف نتيجة التوجيه للسجل التاريخي
+ */
+export function describeDispatch(
+  serviceType: ServiceType,
+  result: DispatchResult
+): string {
+  if (!result.unit) {
+    return `${serviceType} service requested (no available unit, pending)`;
+  }
+  return `${serviceType} service requested, unit ${result.unit.callSign} (${result.unit.agency}) dispatched ${result.distanceKm!.toFixed(1)} km away`;
+}
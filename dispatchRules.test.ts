@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DISPATCH_RULES,
+  describeDispatchDecision,
+  evaluateDispatchRules,
+  matchDispatchRule,
+  type DispatchContext,
+} from "./dispatchRules";
+
+const context = (
+  overrides: Partial<DispatchContext> = {}
+): DispatchContext => ({
+  incidentType: "traffic",
+  severity: "medium",
+  vehicleCount: 2,
+  injuries: false,
+  // 10:00 بتوقيت السعودية
+  reportedAt: new Date("2025-03-01T07:00:00Z"),
+  location: { latitude: 24.7136, longitude: 46.6753 },
+  ...overrides,
+});
+
+const serviceTypes = (ctx: DispatchContext) =>
+  evaluateDispatchRules(DEFAULT_DISPATCH_RULES, ctx).services.map(
+    service => service.serviceType
+  );
+
+describe("default dispatch rules", () => {
+  it("sends an ambulance first for injuries, instead of dropping the Red Crescent", () => {
+    expect(
+      serviceTypes(context({ incidentType: "injury", injuries: true }))
+    ).toEqual(["ambulance", "police", "traffic_control"]);
+  });
+
+  it("dispatches fire for critical incidents", () => {
+    const decision = evaluateDispatchRules(
+      DEFAULT_DISPATCH_RULES,
+      context({ incidentType: "injury", injuries: true, severity: "critical" })
+    );
+
+    expect(decision.services[0]).toMatchObject({
+      serviceType: "ambulance",
+      priority: "immediate",
+    });
+    expect(decision.services.map(service => service.serviceType)).toContain(
+      "fire"
+    );
+    // الإسعاف مطلوب من قاعدتين
+    expect(decision.services[0]?.rules).toHaveLength(2);
+  });
+
+  it("sends a tow truck for breakdowns and police for pile-ups", () => {
+    expect(serviceTypes(context({ incidentType: "breakdown" }))).toEqual([
+      "tow_truck",
+      "traffic_control",
+    ]);
+    expect(serviceTypes(context({ vehicleCount: 4 }))).toEqual([
+      "police",
+      "traffic_control",
+    ]);
+  });
+});
+
+describe("matchDispatchRule", () => {
+  it("explains each matched condition", () => {
+    expect(
+      matchDispatchRule(
+        { incidentTypes: ["traffic"], minVehicles: 2, timesOfDay: ["morning"] },
+        context()
+      )
+    ).toEqual(["type traffic", "2 vehicles ≥ 2", "reported at morning"]);
+  });
+
+  it("matches zones, including ones across the antimeridian", () => {
+    const riyadh = {
+      name: "Riyadh",
+      north: 25,
+      south: 24.5,
+      east: 47,
+      west: 46.5,
+    };
+    expect(matchDispatchRule({ zone: riyadh }, context())).toEqual([
+      "inside zone Riyadh",
+    ]);
+    expect(
+      matchDispatchRule(
+        { zone: { ...riyadh, name: "Pacific", west: 170, east: -170 } },
+        context({ location: { latitude: 24.7, longitude: 179.5 } })
+      )
+    ).not.toBeNull();
+    expect(
+      matchDispatchRule(
+        { zone: riyadh },
+        context({ location: { latitude: 21.5, longitude: 39.2 } })
+      )
+    ).toBeNull();
+  });
+
+  it("rejects incidents outside the vehicle range", () => {
+    expect(matchDispatchRule({ maxVehicles: 1 }, context())).toBeNull();
+  });
+});
+
+describe("evaluateDispatchRules", () => {
+  it("ignores disabled rules and keeps the highest priority per service", () => {
+    const decision = evaluateDispatchRules(
+      [
+        {
+          id: 1,
+          name: "night police",
+          enabled: true,
+          conditions: {},
+          services: [{ serviceType: "police", priority: "normal" }],
+        },
+        {
+          id: 2,
+          name: "urgent police",
+          enabled: true,
+          conditions: {},
+          services: [{ serviceType: "police", priority: "urgent" }],
+        },
+        {
+          id: 3,
+          name: "disabled fire",
+          enabled: false,
+          conditions: {},
+          services: [{ serviceType: "fire", priority: "immediate" }],
+        },
+      ],
+      context()
+    );
+
+    expect(decision.services).toEqual([
+      {
+        serviceType: "police",
+        priority: "urgent",
+        rules: ["night police", "urgent police"],
+      },
+    ]);
+    expect(describeDispatchDecision(decision)).toContain(
+      "police (urgent, by night police + urgent police)"
+    );
+  });
+});
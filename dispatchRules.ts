@@ -0,0 +1,255 @@
+import type { DispatchRuleRow, Incident } from "../drizzle/schema";
+import { getDispatchRules } from "./db";
+import type { ServiceType } from "./dispatch";
+import { isWithinBounds, type BoundingBox, type Coordinates } from "./geo";
+import { timeOfDay, type TimeOfDay } from "./hotspots";
+
+/**
+ * قواعد التوجيه التلقائي
+ * كل قاعدة شروط على الحادث (النوع، الخطورة، عدد المركبات المحلل، الإصابات، وقت البلاغ، المنطقة)
+ * وخدمات بأولوياتها. الخدمات من كل القواعد المطابقة تُجمع، ولكل خدمة أعلى أولوية طلبتها قاعدة،
+ * ويُحفظ سبب كل خدمة ليُشرح القرار في السجل
+ */
+
+export type DispatchPriority = "immediate" | "urgent" | "normal";
+
+export const DISPATCH_PRIORITY_RANK: Record<DispatchPriority, number> = {
+  immediate: 3,
+  urgent: 2,
+  normal: 1,
+};
+
+export const SERVICE_TYPE_LABELS: Record<ServiceType, string> = {
+  ambulance: "إسعاف",
+  tow_truck: "سطحة",
+  traffic_control: "مرور",
+  police: "شرطة",
+  fire: "إطفاء",
+};
+
+// كل الشروط اختيارية، والقاعدة بلا شروط تطابق كل حادث
+export type DispatchRuleConditions = {
+  incidentTypes?: Incident["incidentType"][];
+  severities?: Incident["severity"][];
+  minVehicles?: number;
+  maxVehicles?: number;
+  injuries?: boolean;
+  timesOfDay?: TimeOfDay[];
+  zone?: BoundingBox & { name: string };
+};
+
+export type DispatchRuleService = {
+  serviceType: ServiceType;
+  priority: DispatchPriority;
+};
+
+export type DispatchRule = {
+  id: number | null;
+  name: string;
+  enabled: boolean;
+  conditions: DispatchRuleConditions;
+  services: DispatchRuleService[];
+};
+
+export type DispatchContext = {
+  incidentType: Incident["incidentType"];
+  severity: Incident["severity"];
+  // عدد المركبات من تحليل المشهد
+  vehicleCount: number;
+  injuries: boolean;
+  reportedAt: Date;
+  location: Coordinates;
+};
+
+export type RecommendedService = DispatchRuleService & {
+  // القواعد التي طلبت الخدمة
+  rules: string[];
+};
+
+export type DispatchDecision = {
+  services: RecommendedService[];
+  matchedRules: { id: number | null; name: string; reasons: string[] }[];
+};
+
+// البلاغات تُصنف حسب وقتها المحلي (توقيت السعودية)
+const DISPATCH_UTC_OFFSET_MINUTES = 180;
+
+/**
+ * القواعد الافتراضية عندما لا توجد قواعد محفوظة
+ * الهلال الأحمر هو جهة الإسعاف، فيُطلب ambulance للإصابات
+ */
+export const DEFAULT_DISPATCH_RULES: DispatchRule[] = [
+  {
+    id: null,
+    name: "حوادث الإصابات",
+    enabled: true,
+    conditions: { injuries: true },
+    services: [
+      { serviceType: "ambulance", priority: "immediate" },
+      { serviceType: "police", priority: "urgent" },
+    ],
+  },
+  {
+    id: null,
+    name: "الأعطال",
+    enabled: true,
+    conditions: { incidentTypes: ["breakdown"] },
+    services: [{ serviceType: "tow_truck", priority: "urgent" }],
+  },
+  {
+    id: null,
+    name: "الحوادث الحرجة",
+    enabled: true,
+    conditions: { severities: ["critical"] },
+    services: [
+      { serviceType: "fire", priority: "immediate" },
+      { serviceType: "ambulance", priority: "immediate" },
+    ],
+  },
+  {
+    id: null,
+    name: "تصادم متعدد المركبات",
+    enabled: true,
+    conditions: { minVehicles: 3 },
+    services: [{ serviceType: "police", priority: "urgent" }],
+  },
+  {
+    id: null,
+    name: "تنظيم الحركة",
+    enabled: true,
+    conditions: {},
+    services: [{ serviceType: "traffic_control", priority: "normal" }],
+  },
+];
+
+/**
+ * مطابقة قاعدة مع الحادث
+ * @returns أسباب المطابقة (شرط لكل سبب)، أو null إذا لم تطابق
+ */
+export function matchDispatchRule(
+  conditions: DispatchRuleConditions,
+  context: DispatchContext
+): string[] | null {
+  const reasons: string[] = [];
+
+  if (conditions.incidentTypes?.length) {
+    if (!conditions.incidentTypes.includes(context.incidentType)) return null;
+    reasons.push(`type ${context.incidentType}`);
+  }
+  if (conditions.severities?.length) {
+    if (!conditions.severities.includes(context.severity)) return null;
+    reasons.push(`severity ${context.severity}`);
+  }
+  if (conditions.minVehicles !== undefined) {
+    if (context.vehicleCount < conditions.minVehicles) return null;
+    reasons.push(
+      `${context.vehicleCount} vehicles ≥ ${conditions.minVehicles}`
+    );
+  }
+  if (conditions.maxVehicles !== undefined) {
+    if (context.vehicleCount > conditions.maxVehicles) return null;
+    reasons.push(
+      `${context.vehicleCount} vehicles ≤ ${conditions.maxVehicles}`
+    );
+  }
+  if (conditions.injuries !== undefined) {
+    if (context.injuries !== conditions.injuries) return null;
+    reasons.push(context.injuries ? "injuries reported" : "no injuries");
+  }
+  if (conditions.timesOfDay?.length) {
+    const period = timeOfDay(context.reportedAt, DISPATCH_UTC_OFFSET_MINUTES);
+    if (!conditions.timesOfDay.includes(period)) return null;
+    reasons.push(`reported at ${period}`);
+  }
+  if (conditions.zone) {
+    if (!isWithinBounds(context.location, conditions.zone)) return null;
+    reasons.push(`inside zone ${conditions.zone.name}`);
+  }
+
+  return reasons.length > 0 ? reasons : ["applies to all incidents"];
+}
+
+/**
+ * تقييم القواعد المفعلة بترتيبها
+ * الخدمات مرتبة بالأولوية ثم بترتيب أول قاعدة طلبتها
+ */
+export function evaluateDispatchRules(
+  rules: DispatchRule[],
+  context: DispatchContext
+): DispatchDecision {
+  const services = new Map<ServiceType, RecommendedService>();
+  const matchedRules: DispatchDecision["matchedRules"] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const reasons = matchDispatchRule(rule.conditions, context);
+    if (!reasons) continue;
+
+    matchedRules.push({ id: rule.id, name: rule.name, reasons });
+    for (const { serviceType, priority } of rule.services) {
+      const existing = services.get(serviceType);
+      if (!existing) {
+        services.set(serviceType, {
+          serviceType,
+          priority,
+          rules: [rule.name],
+        });
+        continue;
+      }
+      existing.rules.push(rule.name);
+      if (
+        DISPATCH_PRIORITY_RANK[priority] >
+        DISPATCH_PRIORITY_RANK[existing.priority]
+      ) {
+        existing.priority = priority;
+      }
+    }
+  }
+
+  return {
+    // الترتيب مستقر، فالخدمات بالأولوية نفسها تبقى بترتيب إضافتها
+    services: Array.from(services.values()).sort(
+      (a, b) =>
+        DISPATCH_PRIORITY_RANK[b.priority] - DISPATCH_PRIORITY_RANK[a.priority]
+    ),
+    matchedRules,
+  };
+}
+
+/**
+ * شرح القرار للسجل التاريخي
+ */
+export function describeDispatchDecision(decision: DispatchDecision): string {
+  if (decision.services.length === 0) {
+    return "No dispatch rule matched, no services requested";
+  }
+
+  const services = decision.services
+    .map(
+      service =>
+        `${service.serviceType} (${service.priority}, by ${service.rules.join(" + ")})`
+    )
+    .join(", ");
+  const rules = decision.matchedRules
+    .map(rule => `${rule.name}: ${rule.reasons.join(", ")}`)
+    .join("; ");
+  return `Services requested: ${services}. Matched rules: ${rules}`;
+}
+
+export function toDispatchRule(row: DispatchRuleRow): DispatchRule {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled,
+    conditions: row.conditions as DispatchRuleConditions,
+    services: row.services as DispatchRuleService[],
+  };
+}
+
+/**
+ * القواعد المحفوظة بترتيبها، أو القواعد الافتراضية إذا لم تُحفظ أي قاعدة
+ */
+export async function getActiveDispatchRules(): Promise<DispatchRule[]> {
+  const rows = await getDispatchRules();
+  return rows.length > 0 ? rows.map(toDispatchRule) : DEFAULT_DISPATCH_RULES;
+}
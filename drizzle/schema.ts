@@ -0,0 +1,504 @@
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, boolean, json, uniqueIndex } from "drizzle-orm/mysql-core";
+
+/**
+ * Core user table backing auth flow.
+ * Extend this file with additional tables as your product grows.
+ * Columns use camelCase to match both database fields and generated types.
+ */
+export const users = mysqlTable("users", {
+  /**
+   * Surrogate primary key. Auto-incremented numeric value managed by the database.
+   * Use this for relations between tables.
+   */
+  id: int("id").autoincrement().primaryKey(),
+  /** Manus OAuth identifier (openId) returned from the OAuth callback. Unique per user. */
+  openId: varchar("openId", { length: 64 }).notNull().unique(),
+  name: text("name"),
+  email: varchar("email", { length: 320 }),
+  loginMethod: varchar("loginMethod", { length: 64 }),
+  role: mysqlEnum("role", ["user", "operator", "admin", "ambulance_dispatcher", "tow_operator", "insurer"]).default("user").notNull(),
+  agency: varchar("agency", { length: 255 }), // جهة أدوار الجهات (permissions.ts)، بنفس اسمها في serviceUnits.agency
+  phone: varchar("phone", { length: 20 }),
+  deactivatedAt: timestamp("deactivatedAt"), // الحساب المعطل لا يجتاز المصادقة
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = typeof users.$inferInsert;
+
+// سجل تدقيق إدارة المستخدمين (تغيير الدور، التعطيل، إعادة التفعيل)
+export const userAuditLog = mysqlTable("userAuditLog", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(), // الحساب المعدل
+  action: mysqlEnum("action", ["role_changed", "deactivated", "reactivated"]).notNull(),
+  payload: json("payload"), // القيمة قبل التغيير وبعده
+  reason: text("reason"),
+  performedBy: int("performedBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type UserAuditEntry = typeof userAuditLog.$inferSelect;
+
+// جدول الحوادث المرورية
+export const incidents = mysqlTable("incidents", {
+  id: int("id").autoincrement().primaryKey(),
+  reporterId: int("reporterId").notNull(),
+  incidentType: mysqlEnum("incidentType", ["injury", "breakdown", "traffic"]).notNull(),
+  location: text("location").notNull(), // عنوان الموقع
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  description: text("description"),
+  status: mysqlEnum("status", ["pending", "assigned", "in_progress", "resolved", "closed"]).default("pending").notNull(),
+  severity: mysqlEnum("severity", ["low", "medium", "high", "critical"]).default("medium").notNull(),
+  reportedAt: timestamp("reportedAt").defaultNow().notNull(),
+  resolvedAt: timestamp("resolvedAt"),
+  resolutionReason: text("resolutionReason"), // سبب الحل أو الإغلاق أو إعادة الفتح الأخير
+  duplicateOfId: int("duplicateOfId"), // بلاغ مفتوح يُرجّح أن هذا البلاغ مكرر له، بانتظار قرار المشغل
+  mergedIntoId: int("mergedIntoId"), // الحادث الذي دُمج فيه هذا البلاغ
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = typeof incidents.$inferInsert;
+
+// جدول إسناد الحوادث للجهات (مثل شركات التأمين)، إضافة لجهات الوحدات الموجهة للحادث
+export const incidentAgencies = mysqlTable(
+  "incidentAgencies",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    incidentId: int("incidentId").notNull(),
+    agency: varchar("agency", { length: 255 }).notNull(),
+    assignedBy: int("assignedBy"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("incidentAgencies_incident_agency").on(table.incidentId, table.agency)]
+);
+
+export type IncidentAgency = typeof incidentAgencies.$inferSelect;
+
+// جدول الأطراف المتورطة في الحادث
+export const incidentParties = mysqlTable("incidentParties", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  partyName: varchar("partyName", { length: 255 }).notNull(),
+  phone: varchar("phone", { length: 20 }),
+  vehicleNumber: varchar("vehicleNumber", { length: 50 }),
+  faultPercentage: int("faultPercentage").default(0),
+  facts: json("facts"), // إفادات الطرف ومدخلات محرك نسبة الخطأ (السرعة، الأولوية، موضع الاصطدام...)
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type IncidentParty = typeof incidentParties.$inferSelect;
+export type InsertIncidentParty = typeof incidentParties.$inferInsert;
+
+// سجل الاطلاع على البيانات الشخصية للأطراف (من عرض بيانات أي طرف ومن أي إجراء)
+export const personalDataAccessLog = mysqlTable("personalDataAccessLog", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  incidentId: int("incidentId").notNull(),
+  partyId: int("partyId").notNull(),
+  source: varchar("source", { length: 100 }).notNull(), // الإجراء الذي عرض البيانات، مثل parties.getByIncident
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type PersonalDataAccess = typeof personalDataAccessLog.$inferSelect;
+export type InsertPersonalDataAccess = typeof personalDataAccessLog.$inferInsert;
+
+// جدول تقييمات نسبة الخطأ المحفوظة (المدخلات وإصدار القواعد لإعادة الاشتقاق)
+export const faultAssessments = mysqlTable("faultAssessments", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  rulesetVersion: varchar("rulesetVersion", { length: 20 }).notNull(),
+  input: json("input").notNull(),
+  result: json("result").notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FaultAssessment = typeof faultAssessments.$inferSelect;
+export type InsertFaultAssessment = typeof faultAssessments.$inferInsert;
+
+// جدول تحليلات الصور بالذكاء الاصطناعي، كل تحليل يُحفظ كما هو ويمكن اعتماد أحدها
+export const imageAnalyses = mysqlTable("imageAnalyses", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  mediaIds: json("mediaIds"), // الوسائط التي حُللت (فارغة للروابط الخارجية)
+  imageUrls: json("imageUrls"),
+  provider: varchar("provider", { length: 20 }).default("llm").notNull(), // llm أو yolo أو fixture
+  model: varchar("model", { length: 100 }).notNull(),
+  promptVersion: varchar("promptVersion", { length: 20 }).notNull(),
+  status: mysqlEnum("status", ["completed", "failed"]).notNull(),
+  rawResponse: text("rawResponse"),
+  error: text("error"),
+  description: text("description"),
+  damageLevel: int("damageLevel"), // 0-100
+  affectedParts: json("affectedParts"),
+  severity: mysqlEnum("severity", ["low", "medium", "high", "critical"]),
+  estimatedCost: int("estimatedCost"), // بالريال
+  recommendations: json("recommendations"),
+  accepted: boolean("accepted").default(false).notNull(),
+  acceptedBy: int("acceptedBy"),
+  acceptedAt: timestamp("acceptedAt"),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ImageAnalysis = typeof imageAnalyses.$inferSelect;
+export type InsertImageAnalysis = typeof imageAnalyses.$inferInsert;
+
+// جدول قواعد التوجيه: شروط الحادث ← الخدمات المطلوبة وأولوياتها (dispatchRules.ts)
+export const dispatchRules = mysqlTable("dispatchRules", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  sortOrder: int("sortOrder").default(0).notNull(), // ترتيب التقييم والعرض
+  enabled: boolean("enabled").default(true).notNull(),
+  conditions: json("conditions").notNull(),
+  services: json("services").notNull(), // [{ serviceType, priority }]
+  createdBy: int("createdBy"),
+  updatedBy: int("updatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type DispatchRuleRow = typeof dispatchRules.$inferSelect;
+export type InsertDispatchRule = typeof dispatchRules.$inferInsert;
+
+// جدول الخدمات المطلوبة
+export const services = mysqlTable("services", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  serviceType: mysqlEnum("serviceType", ["ambulance", "tow_truck", "traffic_control", "police", "fire"]).notNull(),
+  status: mysqlEnum("status", ["pending", "assigned", "en_route", "arrived", "completed", "cancelled"]).default("pending").notNull(),
+  assignedTo: varchar("assignedTo", { length: 255 }),
+  unitId: int("unitId"), // الوحدة الموجهة من سجل الوحدات
+  priority: mysqlEnum("priority", ["immediate", "urgent", "normal"]).default("normal").notNull(), // أولوية قرار التوجيه، تحدد هدف SLA
+  escalatedFromId: int("escalatedFromId"), // الخدمة التي تجاوزت SLA فوُجهت هذه بديلاً عنها
+  estimatedArrivalTime: timestamp("estimatedArrivalTime"),
+  assignedAt: timestamp("assignedAt"),
+  enRouteAt: timestamp("enRouteAt"),
+  arrivedAt: timestamp("arrivedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Service = typeof services.$inferSelect;
+export type InsertService = typeof services.$inferInsert;
+
+// جدول أهداف زمن الاستجابة لكل نوع خدمة وأولوية (sla.ts)، بالدقائق من طلب الخدمة
+export const slaTargets = mysqlTable(
+  "slaTargets",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    serviceType: mysqlEnum("serviceType", ["ambulance", "tow_truck", "traffic_control", "police", "fire"]).notNull(),
+    priority: mysqlEnum("priority", ["immediate", "urgent", "normal"]).notNull(),
+    assignedMinutes: int("assignedMinutes").notNull(),
+    enRouteMinutes: int("enRouteMinutes").notNull(),
+    arrivedMinutes: int("arrivedMinutes").notNull(),
+    updatedBy: int("updatedBy"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("slaTargets_type_priority").on(table.serviceType, table.priority)]
+);
+
+export type SlaTargetRow = typeof slaTargets.$inferSelect;
+
+// جدول تجاوزات SLA (تجاوز واحد لكل مرحلة لكل خدمة) وإجراءات التصعيد
+export const serviceSlaBreaches = mysqlTable(
+  "serviceSlaBreaches",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    serviceId: int("serviceId").notNull(),
+    incidentId: int("incidentId").notNull(),
+    milestone: mysqlEnum("milestone", ["assigned", "en_route", "arrived"]).notNull(),
+    targetMinutes: int("targetMinutes").notNull(),
+    dueAt: timestamp("dueAt").notNull(),
+    redispatchServiceId: int("redispatchServiceId"), // الخدمة التي حصلت على الوحدة البديلة
+    supervisorNotified: boolean("supervisorNotified").default(false).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(), // وقت اكتشاف التجاوز
+  },
+  (table) => [uniqueIndex("serviceSlaBreaches_service_milestone").on(table.serviceId, table.milestone)]
+);
+
+export type ServiceSlaBreach = typeof serviceSlaBreaches.$inferSelect;
+
+// جدول وحدات الخدمة القابلة للتوجيه (إسعاف، سطحات، دوريات، إطفاء)
+export const serviceUnits = mysqlTable("serviceUnits", {
+  id: int("id").autoincrement().primaryKey(),
+  callSign: varchar("callSign", { length: 64 }).notNull().unique(), // رمز النداء
+  unitType: mysqlEnum("unitType", ["ambulance", "tow_truck", "traffic_control", "police", "fire"]).notNull(),
+  agency: varchar("agency", { length: 255 }).notNull(), // الجهة المالكة
+  homeBase: varchar("homeBase", { length: 255 }),
+  homeLatitude: decimal("homeLatitude", { precision: 10, scale: 8 }),
+  homeLongitude: decimal("homeLongitude", { precision: 11, scale: 8 }),
+  currentLatitude: decimal("currentLatitude", { precision: 10, scale: 8 }),
+  currentLongitude: decimal("currentLongitude", { precision: 11, scale: 8 }),
+  status: mysqlEnum("status", ["available", "busy", "offline"]).default("available").notNull(),
+  currentServiceId: int("currentServiceId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ServiceUnit = typeof serviceUnits.$inferSelect;
+export type InsertServiceUnit = typeof serviceUnits.$inferInsert;
+
+// جدول مسار الخدمة (مواقع GPS المرسلة من الوحدات الميدانية)
+export const serviceLocations = mysqlTable("serviceLocations", {
+  id: int("id").autoincrement().primaryKey(),
+  serviceId: int("serviceId").notNull(),
+  unitId: int("unitId"),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+  distanceMeters: int("distanceMeters").notNull(), // المسافة إلى موقع الحادث
+  recordedAt: timestamp("recordedAt").defaultNow().notNull(), // وقت القياس على الجهاز
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ServiceLocation = typeof serviceLocations.$inferSelect;
+export type InsertServiceLocation = typeof serviceLocations.$inferInsert;
+
+// جدول تنبيهات الاقتراب المرسلة (تنبيه واحد لكل مسافة لكل خدمة)
+export const serviceProximityAlerts = mysqlTable(
+  "serviceProximityAlerts",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    serviceId: int("serviceId").notNull(),
+    alert: mysqlEnum("alert", ["5km", "2km", "1km", "arrived"]).notNull(),
+    distanceMeters: int("distanceMeters").notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("serviceProximityAlerts_service_alert").on(table.serviceId, table.alert)]
+);
+
+export type ServiceProximityAlert = typeof serviceProximityAlerts.$inferSelect;
+
+// جدول الصور والفيديوهات (المحاكاة بروابط خارجية، والمرفوعة بمفتاح التخزين)
+export const incidentMedia = mysqlTable("incidentMedia", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  mediaType: mysqlEnum("mediaType", ["image", "video"]).notNull(),
+  mediaUrl: text("mediaUrl"), // رابط خارجي، فارغ للملفات المرفوعة
+  storageKey: varchar("storageKey", { length: 512 }),
+  thumbnailKey: varchar("thumbnailKey", { length: 512 }),
+  mimeType: varchar("mimeType", { length: 64 }),
+  sizeBytes: int("sizeBytes"),
+  sha256: varchar("sha256", { length: 64 }), // بصمة المحتوى لمنع التكرار وإثبات عدم التلاعب
+  capturedAt: timestamp("capturedAt"), // وقت الالتقاط من EXIF
+  captureLatitude: decimal("captureLatitude", { precision: 10, scale: 8 }),
+  captureLongitude: decimal("captureLongitude", { precision: 11, scale: 8 }),
+  uploadedBy: int("uploadedBy"),
+  description: text("description"),
+  isSimulated: boolean("isSimulated").default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type IncidentMedia = typeof incidentMedia.$inferSelect;
+export type InsertIncidentMedia = typeof incidentMedia.$inferInsert;
+
+// جلسات رفع الوسائط: الملف يُرفع على أجزاء متتالية ثم يُجمّع ويُفحص عند الإكمال
+export const mediaUploads = mysqlTable("mediaUploads", {
+  id: int("id").autoincrement().primaryKey(),
+  token: varchar("token", { length: 32 }).notNull().unique(),
+  incidentId: int("incidentId").notNull(),
+  uploadedBy: int("uploadedBy").notNull(),
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  mimeType: varchar("mimeType", { length: 64 }).notNull(),
+  declaredSize: int("declaredSize").notNull(),
+  receivedBytes: int("receivedBytes").default(0).notNull(),
+  chunkCount: int("chunkCount").default(0).notNull(),
+  description: text("description"),
+  status: mysqlEnum("status", ["open", "completed", "failed"]).default("open").notNull(),
+  mediaId: int("mediaId"),
+  error: text("error"),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type MediaUpload = typeof mediaUploads.$inferSelect;
+
+// جدول السجل التاريخي للحوادث
+// كل سجل مربوط بالسجل السابق للحادث نفسه ببصمة SHA-256 (historyChain.ts)، ولا يُعدّل بعد إضافته
+export const incidentHistory = mysqlTable(
+  "incidentHistory",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    incidentId: int("incidentId").notNull(),
+    sequence: int("sequence").notNull(), // ترتيب السجل في سلسلة الحادث، يبدأ من 1
+    // نوع الحدث من كتالوج historyEvents.ts، وaction عنوانه المقروء
+    eventType: mysqlEnum("eventType", [
+      "incident.created",
+      "incident.status_changed",
+      "incident.duplicate_flagged",
+      "incident.duplicate_dismissed",
+      "incident.merged",
+      "incident.merged_into",
+      "incident.agency_assigned",
+      "incident.agency_unassigned",
+      "analysis.accepted",
+      "party.added",
+      "party.facts_updated",
+      "fault.changed",
+      "fault.assessed",
+      "dispatch.decided",
+      "service.requested",
+      "service.status_changed",
+      "service.proximity_alert",
+      "service.sla_breached",
+      "media.added",
+      "report.document_generated",
+      "report.sent",
+      "report.delivered",
+      "report.delivery_failed",
+      "report.read",
+      "job.failed",
+      "job.rerun",
+    ]).notNull(),
+    action: varchar("action", { length: 255 }).notNull(),
+    details: text("details"),
+    payload: json("payload"), // القيمة السابقة والجديدة (previous/next) وسياق الحدث
+    performedBy: int("performedBy"),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    previousHash: varchar("previousHash", { length: 64 }).notNull(),
+    hash: varchar("hash", { length: 64 }).notNull(),
+  },
+  (table) => [uniqueIndex("incidentHistory_incident_sequence").on(table.incidentId, table.sequence)]
+);
+
+export type IncidentHistory = typeof incidentHistory.$inferSelect;
+export type InsertIncidentHistory = typeof incidentHistory.$inferInsert;
+
+// جدول الإحصائيات
+export const statistics = mysqlTable("statistics", {
+  id: int("id").autoincrement().primaryKey(),
+  date: timestamp("date").defaultNow().notNull().unique(), // بداية اليوم، صف واحد لكل يوم
+  totalIncidents: int("totalIncidents").default(0),
+  injuryIncidents: int("injuryIncidents").default(0),
+  breakdownIncidents: int("breakdownIncidents").default(0),
+  trafficIncidents: int("trafficIncidents").default(0),
+  lowSeverityIncidents: int("lowSeverityIncidents").default(0),
+  mediumSeverityIncidents: int("mediumSeverityIncidents").default(0),
+  highSeverityIncidents: int("highSeverityIncidents").default(0),
+  criticalSeverityIncidents: int("criticalSeverityIncidents").default(0),
+  pendingIncidents: int("pendingIncidents").default(0),
+  assignedIncidents: int("assignedIncidents").default(0),
+  inProgressIncidents: int("inProgressIncidents").default(0),
+  resolvedIncidents: int("resolvedIncidents").default(0),
+  closedIncidents: int("closedIncidents").default(0),
+  averageResolutionTime: int("averageResolutionTime").default(0), // بالدقائق
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Statistic = typeof statistics.$inferSelect;
+export type InsertStatistic = typeof statistics.$inferInsert;
+
+// جدول تتبع إرسالات التقارير
+export const reportSends = mysqlTable("reportSends", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  recipientType: mysqlEnum("recipientType", ["party", "insurance", "najm", "operator"]).notNull(),
+  recipientEmail: varchar("recipientEmail", { length: 255 }), // البريد أو الجوال، واحد منهما على الأقل
+  recipientPhone: varchar("recipientPhone", { length: 20 }),
+  recipientName: varchar("recipientName", { length: 255 }),
+  status: mysqlEnum("status", ["pending", "sent", "failed", "read"]).default("pending").notNull(),
+  reportDocumentId: int("reportDocumentId"), // نسخة PDF المرسلة لهذا المستلم
+  trackingToken: varchar("trackingToken", { length: 64 }).notNull().unique(), // رابط تأكيد القراءة
+  attempts: int("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt"), // موعد المحاولة التالية (إعادة المحاولة مع التأخير المتزايد)
+  sentAt: timestamp("sentAt"),
+  readAt: timestamp("readAt"),
+  failureReason: text("failureReason"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ReportSend = typeof reportSends.$inferSelect;
+export type InsertReportSend = typeof reportSends.$inferInsert;
+
+// جدول نسخ PDF المؤرشفة من التقارير الذكية (لا تُعدّل بعد إنشائها)
+export const reportDocuments = mysqlTable("reportDocuments", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  version: int("version").notNull(),
+  storageKey: varchar("storageKey", { length: 512 }).notNull(),
+  sha256: varchar("sha256", { length: 64 }).notNull(), // بصمة المحتوى للتحقق من عدم التلاعب
+  sizeBytes: int("sizeBytes").notNull(),
+  generatedBy: int("generatedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ReportDocument = typeof reportDocuments.$inferSelect;
+export type InsertReportDocument = typeof reportDocuments.$inferInsert;
+
+// جدول مهام الخلفية (تحليل الصور، التقارير الذكية، التوجيه، الإشعارات)
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  type: mysqlEnum("type", ["image_analysis", "smart_report", "dispatch", "notification"]).notNull(),
+  incidentId: int("incidentId"), // لعرض حالة المعالجة في تطبيق المواطن
+  payload: json("payload").notNull(),
+  status: mysqlEnum("status", ["queued", "running", "completed", "dead"]).default("queued").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").notNull(),
+  timeoutMs: int("timeoutMs").notNull(),
+  runAt: timestamp("runAt").defaultNow().notNull(), // موعد المحاولة التالية
+  lockedUntil: timestamp("lockedUntil"), // انتهاء حجز المحاولة الجارية، بعده تُلتقط المهمة مجدداً
+  result: json("result"),
+  lastError: text("lastError"),
+  createdBy: int("createdBy"),
+  startedAt: timestamp("startedAt"),
+  finishedAt: timestamp("finishedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+// جدول خطوات المعالجة التلقائية لكل حادث (نقاط الاستئناف)
+export const incidentPipelineSteps = mysqlTable("incidentPipelineSteps", {
+  id: int("id").autoincrement().primaryKey(),
+  incidentId: int("incidentId").notNull(),
+  step: varchar("step", { length: 50 }).notNull(), // مثل smart_report أو dispatch:ambulance
+  idempotencyKey: varchar("idempotencyKey", { length: 100 }).notNull().unique(), // incident:{id}:{step}
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  lockedUntil: timestamp("lockedUntil"), // حجز المحاولة الجارية، بعده يمكن لنسخة أخرى استئنافها
+  result: json("result"), // ناتج الخطوة، تستخدمه الخطوات اللاحقة عند الاستئناف
+  error: text("error"),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type IncidentPipelineStep = typeof incidentPipelineSteps.$inferSelect;
+
+// أقفال المهام الدورية: نسخة خادم واحدة تنفذ كل مهمة، وتجدد القفل ما دامت تعمل
+export const schedulerLocks = mysqlTable("schedulerLocks", {
+  task: varchar("task", { length: 50 }).primaryKey(),
+  owner: varchar("owner", { length: 100 }).notNull(), // معرف نسخة الخادم
+  lockedUntil: timestamp("lockedUntil").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+// سجل تشغيل المهام الدورية
+export const schedulerRuns = mysqlTable("schedulerRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  task: varchar("task", { length: 50 }).notNull(),
+  instanceId: varchar("instanceId", { length: 100 }).notNull(),
+  status: mysqlEnum("status", ["running", "completed", "failed"]).default("running").notNull(),
+  result: json("result"),
+  error: text("error"),
+  durationMs: int("durationMs"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+});
+
+export type SchedulerLock = typeof schedulerLocks.$inferSelect;
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  areCompatibleIncidentTypes,
+  findDuplicateMatches,
+  shouldAutoMerge,
+  type DuplicateReport,
+} from "./duplicateDetection";
+
+const reportedAt = new Date("2025-03-01T08:00:00Z");
+
+function report(overrides: Partial<DuplicateReport> = {}): DuplicateReport {
+  return {
+    id: 10,
+    incidentType: "injury",
+    latitude: "24.71360000",
+    longitude: "46.67530000",
+    reportedAt,
+    ...overrides,
+  };
+}
+
+const options = { radiusKm: 0.5, windowMinutes: 30, autoMergeKm: 0.1 };
+
+describe("duplicate detection", () => {
+  it("matches nearby open incidents of a compatible type within the window", () => {
+    const matches = findDuplicateMatches(
+      report(),
+      [
+        // ~200 م، نوع متوافق
+        report({ id: 1, incidentType: "traffic", latitude: "24.71540000" }),
+        // ~50 م، النوع نفسه
+        report({ id: 2, latitude: "24.71405000" }),
+        // بعيد
+        report({ id: 3, latitude: "24.80000000" }),
+        // خارج الفترة الزمنية
+        report({ id: 4, reportedAt: new Date("2025-03-01T06:00:00Z") }),
+        // نوع غير متوافق
+        report({ id: 5, incidentType: "breakdown" }),
+      ],
+      options
+    );
+
+    expect(matches.map(match => match.incidentId)).toEqual([2, 1]);
+    expect(shouldAutoMerge(matches[0]!, options)).toBe(true);
+    expect(shouldAutoMerge(matches[1]!, options)).toBe(false);
+  });
+
+  it("ignores the report itself", () => {
+    expect(findDuplicateMatches(report(), [report()], options)).toEqual([]);
+  });
+
+  it("treats injury and traffic reports as compatible but not breakdowns", () => {
+    expect(areCompatibleIncidentTypes("injury", "traffic")).toBe(true);
+    expect(areCompatibleIncidentTypes("breakdown", "traffic")).toBe(true);
+    expect(areCompatibleIncidentTypes("injury", "breakdown")).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import type { Incident } from "../drizzle/schema";
+import { distanceKm, toCoordinates } from "./geo";
+
+/**
+ * كشف البلاغات المكررة
+ * عدة مواطنين يبلغون عن الحادث نفسه: البلاغ الجديد يُقارن بالحوادث المفتوحة القريبة مكاناً وزماناً
+ * ومن نوع متوافق. التطابق القوي يُدمج تلقائياً، والمحتمل يُعلَّم للمشغل
+ *
+ * الإعدادات من متغيرات البيئة:
+ * - DUPLICATE_RADIUS_KM: أقصى مسافة لاعتبار البلاغ مكرراً محتملاً
+ * - DUPLICATE_WINDOW_MINUTES: أقصى فرق زمني بين البلاغين
+ * - DUPLICATE_AUTO_MERGE_KM: مسافة الدمج التلقائي للبلاغات من النوع نفسه (0 لتعطيله)
+ */
+
+export type DuplicateDetectionOptions = {
+  radiusKm: number;
+  windowMinutes: number;
+  autoMergeKm: number;
+};
+
+export const DEFAULT_DUPLICATE_DETECTION_OPTIONS: DuplicateDetectionOptions = {
+  radiusKm: 0.5,
+  windowMinutes: 30,
+  autoMergeKm: 0.1,
+};
+
+// حادث الإصابات يرافقه غالباً تعطل للحركة، والتعطل على الطريق السريع قد يُبلّغ كتسيير حركة
+const COMPATIBLE_INCIDENT_TYPES: Record<
+  Incident["incidentType"],
+  Incident["incidentType"][]
+> = {
+  injury: ["injury", "traffic"],
+  traffic: ["traffic", "injury", "breakdown"],
+  breakdown: ["breakdown", "traffic"],
+};
+
+export type DuplicateReport = Pick<
+  Incident,
+  "id" | "incidentType" | "latitude" | "longitude" | "reportedAt"
+>;
+
+export type DuplicateMatch = {
+  incidentId: number;
+  distanceKm: number;
+  minutesApart: number;
+  sameType: boolean;
+};
+
+export function getDuplicateDetectionOptions(): DuplicateDetectionOptions {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value)
+      ? value
+      : fallback;
+  };
+  return {
+    radiusKm: read(
+      "DUPLICATE_RADIUS_KM",
+      DEFAULT_DUPLICATE_DETECTION_OPTIONS.radiusKm
+    ),
+    windowMinutes: read(
+      "DUPLICATE_WINDOW_MINUTES",
+      DEFAULT_DUPLICATE_DETECTION_OPTIONS.windowMinutes
+    ),
+    autoMergeKm: read(
+      "DUPLICATE_AUTO_MERGE_KM",
+      DEFAULT_DUPLICATE_DETECTION_OPTIONS.autoMergeKm
+    ),
+  };
+}
+
+export function areCompatibleIncidentTypes(
+  a: Incident["incidentType"],
+  b: Incident["incidentType"]
+): boolean {
+  return COMPATIBLE_INCIDENT_TYPES[a].includes(b);
+}
+
+/**
+ * الحوادث المفتوحة التي قد يكون البلاغ مكرراً لها، الأقرب أولاً
+ */
+export function findDuplicateMatches(
+  report: DuplicateReport,
+  openIncidents: DuplicateReport[],
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_DETECTION_OPTIONS
+): DuplicateMatch[] {
+  const origin = toCoordinates(report.latitude, report.longitude);
+
+  return openIncidents
+    .filter(
+      candidate =>
+        candidate.id !== report.id &&
+        areCompatibleIncidentTypes(report.incidentType, candidate.incidentType)
+    )
+    .map(candidate => ({
+      incidentId: candidate.id,
+      distanceKm: distanceKm(
+        origin,
+        toCoordinates(candidate.latitude, candidate.longitude)
+      ),
+      minutesApart:
+        Math.abs(report.reportedAt.getTime() - candidate.reportedAt.getTime()) /
+        60000,
+      sameType: candidate.incidentType === report.incidentType,
+    }))
+    .filter(
+      match =>
+        match.distanceKm <= options.radiusKm &&
+        match.minutesApart <= options.windowMinutes
+    )
+    .sort(
+      (a, b) =>
+        Number(b.sameType) - Number(a.sameType) ||
+        a.distanceKm - b.distanceKm ||
+        a.minutesApart - b.minutesApart
+    );
+}
+
+/**
+ * هل التطابق قوي بما يكفي للدمج التلقائي دون مراجعة المشغل
+ */
+export function shouldAutoMerge(
+  match: DuplicateMatch,
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_DETECTION_OPTIONS
+): boolean {
+  return match.sameType && match.distanceKm <= options.autoMergeKm;
+}
+
+export type IncidentMergeErrorCode =
+  "same_incident" | "not_found" | "already_merged" | "not_duplicate";
+
+/**
+ * خطأ في دمج البلاغات أو إلغاء تعليمها كمكررة
+ */
+export class IncidentMergeError extends Error {
+  constructor(
+    public code: IncidentMergeErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "IncidentMergeError";
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertValidFaultSplit,
+  FaultSplitError,
+  type FaultSplitErrorCode,
+} from "./faultApportionment";
+
+function splitErrorCode(run: () => void): FaultSplitErrorCode | null {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(FaultSplitError);
+    return (error as FaultSplitError).code;
+  }
+}
+
+describe("fault apportionment", () => {
+  it("accepts a split covering every party that totals 100", () => {
+    expect(() =>
+      assertValidFaultSplit(
+        "traffic",
+        [1, 2],
+        [
+          { partyId: 1, faultPercentage: 70 },
+          { partyId: 2, faultPercentage: 30 },
+        ]
+      )
+    ).not.toThrow();
+  });
+
+  it("rejects totals other than 100", () => {
+    expect(
+      splitErrorCode(() =>
+        assertValidFaultSplit(
+          "traffic",
+          [1, 2],
+          [
+            { partyId: 1, faultPercentage: 80 },
+            { partyId: 2, faultPercentage: 60 },
+          ]
+        )
+      )
+    ).toBe("invalid_total");
+  });
+
+  it("allows a zero split only for breakdowns", () => {
+    const zero = [
+      { partyId: 1, faultPercentage: 0 },
+      { partyId: 2, faultPercentage: 0 },
+    ];
+    expect(() =>
+      assertValidFaultSplit("breakdown", [1, 2], zero)
+    ).not.toThrow();
+    expect(
+      splitErrorCode(() => assertValidFaultSplit("injury", [1, 2], zero))
+    ).toBe("invalid_total");
+  });
+
+  it("requires exactly one share per party of the incident", () => {
+    expect(
+      splitErrorCode(() =>
+        assertValidFaultSplit(
+          "traffic",
+          [1, 2],
+          [{ partyId: 1, faultPercentage: 100 }]
+        )
+      )
+    ).toBe("missing_party");
+    expect(
+      splitErrorCode(() =>
+        assertValidFaultSplit(
+          "traffic",
+          [1],
+          [
+            { partyId: 1, faultPercentage: 50 },
+            { partyId: 1, faultPercentage: 50 },
+          ]
+        )
+      )
+    ).toBe("duplicate_party");
+    expect(
+      splitErrorCode(() =>
+        assertValidFaultSplit(
+          "traffic",
+          [1],
+          [{ partyId: 9, faultPercentage: 100 }]
+        )
+      )
+    ).toBe("unknown_party");
+  });
+
+  it("rejects fractional percentages", () => {
+    expect(
+      splitErrorCode(() =>
+        assertValidFaultSplit(
+          "traffic",
+          [1, 2],
+          [
+            { partyId: 1, faultPercentage: 50.5 },
+            { partyId: 2, faultPercentage: 49.5 },
+          ]
+        )
+      )
+    ).toBe("invalid_percentage");
+  });
+});
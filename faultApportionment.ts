@@ -0,0 +1,85 @@
+import type { Incident } from "../drizzle/schema";
+
+/**
+ * توزيع نسب الخطأ على أطراف الحادث
+ * التوزيع يغطي جميع الأطراف ومجموعه 100%، أو 0% لحوادث التعطل بدون خطأ
+ */
+
+export type FaultShare = { partyId: number; faultPercentage: number };
+
+export type FaultSplitErrorCode =
+  | "incident_not_found"
+  | "unknown_party"
+  | "missing_party"
+  | "duplicate_party"
+  | "invalid_percentage"
+  | "invalid_total";
+
+/**
+ * خطأ في توزيع نسب الخطأ
+ */
+export class FaultSplitError extends Error {
+  constructor(
+    public code: FaultSplitErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "FaultSplitError";
+  }
+}
+
+/**
+ * التحقق من التوزيع، يرمي FaultSplitError إذا لم يكن صالحاً
+ */
+export function assertValidFaultSplit(
+  incidentType: Incident["incidentType"],
+  partyIds: number[],
+  split: FaultShare[]
+): void {
+  const seen = new Set<number>();
+
+  for (const share of split) {
+    if (!partyIds.includes(share.partyId)) {
+      throw new FaultSplitError(
+        "unknown_party",
+        `Party #${share.partyId} does not belong to this incident`
+      );
+    }
+    if (seen.has(share.partyId)) {
+      throw new FaultSplitError(
+        "duplicate_party",
+        `Party #${share.partyId} appears more than once`
+      );
+    }
+    if (
+      !Number.isInteger(share.faultPercentage) ||
+      share.faultPercentage < 0 ||
+      share.faultPercentage > 100
+    ) {
+      throw new FaultSplitError(
+        "invalid_percentage",
+        `Fault percentage for party #${share.partyId} must be an integer between 0 and 100`
+      );
+    }
+    seen.add(share.partyId);
+  }
+
+  const missing = partyIds.filter(id => !seen.has(id));
+  if (missing.length > 0) {
+    throw new FaultSplitError(
+      "missing_party",
+      `Fault split must cover every party, missing: ${missing.map(id => `#${id}`).join(", ")}`
+    );
+  }
+
+  const total = split.reduce((sum, share) => sum + share.faultPercentage, 0);
+  const allowNoFault = incidentType === "breakdown";
+  if (total !== 100 && !(allowNoFault && total === 0)) {
+    throw new FaultSplitError(
+      "invalid_total",
+      allowNoFault
+        ? `Fault split must total 100% or 0%, got ${total}%`
+        : `Fault split must total 100%, got ${total}%`
+    );
+  }
+}
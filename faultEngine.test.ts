@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  apportionPercentages,
+  CURRENT_FAULT_RULESET_VERSION,
+  evaluateFault,
+  type FaultInput,
+} from "./faultEngine";
+
+describe("evaluateFault", () => {
+  const rearEnd: FaultInput = {
+    incidentType: "traffic",
+    parties: [
+      { label: "A", impactPoint: "front", speedKmh: 95 },
+      { label: "B", impactPoint: "rear", speedKmh: 40 },
+    ],
+  };
+
+  it("is reproducible for the same input", () => {
+    expect(evaluateFault(rearEnd)).toEqual(evaluateFault(rearEnd));
+  });
+
+  it("explains each percentage with the rules that fired", () => {
+    const result = evaluateFault(rearEnd);
+
+    expect(result.rulesetVersion).toBe(CURRENT_FAULT_RULESET_VERSION);
+    expect(result.parties.map(p => p.faultPercentage)).toEqual([90, 10]);
+    expect(result.parties[0]!.rules.map(r => r.ruleId)).toEqual([
+      "base_involvement",
+      "rear_end_collision",
+      "speeding",
+    ]);
+    expect(result.parties[1]!.rules).toEqual([
+      expect.objectContaining({ ruleId: "base_involvement", weight: 10 }),
+    ]);
+  });
+
+  it("puts no fault on a stationary vehicle", () => {
+    const result = evaluateFault({
+      incidentType: "injury",
+      parties: [
+        { label: "A", ranRedLight: true },
+        { label: "B", wasStationary: true },
+      ],
+    });
+    expect(result.parties.map(p => p.faultPercentage)).toEqual([100, 0]);
+  });
+
+  it("assigns no fault for breakdowns", () => {
+    const result = evaluateFault({
+      incidentType: "breakdown",
+      parties: [{ label: "A" }],
+    });
+    expect(result.parties[0]).toMatchObject({
+      faultPercentage: 0,
+      rules: [expect.objectContaining({ ruleId: "no_fault_breakdown" })],
+    });
+  });
+
+  it("rejects unknown ruleset versions", () => {
+    expect(() => evaluateFault(rearEnd, "0.0.1")).toThrow(
+      /Unknown fault ruleset version/
+    );
+    expect(() => evaluateFault(rearEnd, "0.0.1")).toThrow(
+      expect.objectContaining({ code: "unknown_ruleset" })
+    );
+  });
+});
+
+describe("apportionPercentages", () => {
+  it("always sums to 100", () => {
+    expect(apportionPercentages([1, 1, 1])).toEqual([34, 33, 33]);
+    expect(apportionPercentages([70, 10])).toEqual([88, 12]);
+  });
+
+  it("returns zeros when there are no points", () => {
+    expect(apportionPercentages([0, 0])).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * محرك حساب نسبة الخطأ
+ * قواعد ثابتة ومرقّمة بالإصدار: نفس المدخلات ونفس الإصدار تعطي دائماً نفس النتيجة،
+ * وكل نتيجة تحمل القواعد التي طُبقت وأوزانها ليمكن شرحها لنجم وشركات التأمين
+ */
+
+export type FaultAssessmentErrorCode = "not_found" | "unknown_ruleset";
+
+/**
+ * خطأ في تقييم محفوظ أو إصدار قواعد غير معروف
+ */
+export class FaultAssessmentError extends Error {
+  constructor(
+    public code: FaultAssessmentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "FaultAssessmentError";
+  }
+}
+
+export type ImpactPoint = "front" | "rear" | "side" | "none";
+
+export type FaultPartyInput = {
+  partyId?: number;
+  label: string;
+  speedKmh?: number;
+  speedLimitKmh?: number;
+  hadRightOfWay?: boolean;
+  // موضع الاصطدام على مركبة هذا الطرف
+  impactPoint?: ImpactPoint;
+  // إفادات الطرف
+  ranRedLight?: boolean;
+  wasStationary?: boolean;
+  wasReversing?: boolean;
+  changedLane?: boolean;
+  usingPhone?: boolean;
+};
+
+export type FaultInput = {
+  incidentType: "injury" | "breakdown" | "traffic";
+  parties: FaultPartyInput[];
+};
+
+export type FiredRule = {
+  ruleId: string;
+  weight: number;
+  description: string;
+};
+
+export type PartyFaultResult = {
+  partyId?: number;
+  label: string;
+  faultPercentage: number;
+  rules: FiredRule[];
+};
+
+export type FaultResult = {
+  rulesetVersion: string;
+  parties: PartyFaultResult[];
+};
+
+type FaultRuleContext = {
+  input: FaultInput;
+  party: FaultPartyInput;
+  others: FaultPartyInput[];
+};
+
+type FaultRule = {
+  id: string;
+  description: string;
+  weight: (ctx: FaultRuleContext) => number;
+  applies: (ctx: FaultRuleContext) => boolean;
+};
+
+type FaultRuleset = {
+  version: string;
+  defaultSpeedLimitKmh: number;
+  rules: FaultRule[];
+};
+
+const speedExcess = ({ party }: FaultRuleContext, limit: number) =>
+  party.speedKmh !== undefined
+    ? party.speedKmh - (party.speedLimitKmh ?? limit)
+    : 0;
+
+const RULESET_V1: FaultRuleset = {
+  version: "1.0.0",
+  defaultSpeedLimitKmh: 80,
+  rules: [
+    {
+      id: "base_involvement",
+      description: "مشاركة في الحادث وهي متحركة",
+      weight: () => 10,
+      applies: ({ party }) => !party.wasStationary,
+    },
+    {
+      id: "rear_end_collision",
+      description: "اصطدام من الخلف بمركبة أخرى",
+      weight: () => 60,
+      applies: ({ party, others }) =>
+        party.impactPoint === "front" &&
+        others.some(other => other.impactPoint === "rear"),
+    },
+    {
+      id: "ran_red_light",
+      description: "تجاوز الإشارة الحمراء",
+      weight: () => 50,
+      applies: ({ party }) => party.ranRedLight === true,
+    },
+    {
+      id: "no_right_of_way",
+      description: "عدم إعطاء الأولوية",
+      weight: () => 40,
+      applies: ({ party }) => party.hadRightOfWay === false,
+    },
+    {
+      id: "speeding_severe",
+      description: "تجاوز السرعة المحددة بأكثر من 20 كم/س",
+      weight: () => 35,
+      applies: ctx => speedExcess(ctx, RULESET_V1.defaultSpeedLimitKmh) > 20,
+    },
+    {
+      id: "speeding",
+      description: "تجاوز السرعة المحددة",
+      weight: () => 20,
+      applies: ctx => {
+        const excess = speedExcess(ctx, RULESET_V1.defaultSpeedLimitKmh);
+        return excess > 0 && excess <= 20;
+      },
+    },
+    {
+      id: "reversing",
+      description: "الرجوع للخلف",
+      weight: () => 30,
+      applies: ({ party }) => party.wasReversing === true,
+    },
+    {
+      id: "unsafe_lane_change",
+      description: "تغيير المسار",
+      weight: () => 25,
+      applies: ({ party }) => party.changedLane === true,
+    },
+    {
+      id: "phone_use",
+      description: "استخدام الجوال أثناء القيادة",
+      weight: () => 15,
+      applies: ({ party }) => party.usingPhone === true,
+    },
+  ],
+};
+
+export const FAULT_RULESETS: Record<string, FaultRuleset> = {
+  [RULESET_V1.version]: RULESET_V1,
+};
+
+export const CURRENT_FAULT_RULESET_VERSION = RULESET_V1.version;
+
+/**
+ * تحويل النقاط إلى نسب مئوية صحيحة مجموعها 100 (طريقة الباقي الأكبر)
+ * التعادل يُحسم بترتيب الأطراف ليبقى الناتج ثابتاً
+ */
+export function apportionPercentages(points: number[]): number[] {
+  const total = points.reduce((sum, p) => sum + p, 0);
+  if (total <= 0) return points.map(() => 0);
+
+  const exact = points.map(p => (p / total) * 100);
+  const result = exact.map(Math.floor);
+  let remaining = 100 - result.reduce((sum, p) => sum + p, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    result[index]++;
+    remaining--;
+  }
+
+  return result;
+}
+
+/**
+ * حساب نسبة خطأ كل طرف وفق إصدار محدد من القواعد
+ */
+export function evaluateFault(
+  input: FaultInput,
+  version: string = CURRENT_FAULT_RULESET_VERSION
+): FaultResult {
+  const ruleset = FAULT_RULESETS[version];
+  if (!ruleset) {
+    throw new FaultAssessmentError(
+      "unknown_ruleset",
+      `Unknown fault ruleset version: ${version}`
+    );
+  }
+
+  // التعطل لا يترتب عليه خطأ على أي طرف
+  if (input.incidentType === "breakdown") {
+    return {
+      rulesetVersion: ruleset.version,
+      parties: input.parties.map(party => ({
+        partyId: party.partyId,
+        label: party.label,
+        faultPercentage: 0,
+        rules: [
+          {
+            ruleId: "no_fault_breakdown",
+            weight: 0,
+            description: "تعطل مركبة بدون تصادم",
+          },
+        ],
+      })),
+    };
+  }
+
+  const fired = input.parties.map(party => {
+    const ctx: FaultRuleContext = {
+      input,
+      party,
+      others: input.parties.filter(other => other !== party),
+    };
+    return ruleset.rules
+      .filter(rule => rule.applies(ctx))
+      .map(rule => ({
+        ruleId: rule.id,
+        weight: rule.weight(ctx),
+        description: rule.description,
+      }));
+  });
+
+  let points = fired.map(rules => rules.reduce((sum, r) => sum + r.weight, 0));
+
+  // لا توجد قرائن ضد أي طرف: توزيع متساوٍ
+  if (points.every(p => p === 0) && input.parties.length > 0) {
+    fired.forEach(rules =>
+      rules.push({
+        ruleId: "equal_split",
+        weight: 1,
+        description: "لا توجد قرائن كافية، توزيع متساوٍ",
+      })
+    );
+    points = points.map(() => 1);
+  }
+
+  const percentages = apportionPercentages(points);
+
+  return {
+    rulesetVersion: ruleset.version,
+    parties: input.parties.map((party, index) => ({
+      partyId: party.partyId,
+      label: party.label,
+      faultPercentage: percentages[index]!,
+      rules: fired[index]!,
+    })),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * دوال جغرافية مشتركة
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+
+export type Coordinates = { latitude: number; longitude: number };
+
+export type BoundingBox = {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * المسافة بالكيلومترات بين نقطتين (معادلة Haversine)
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * تحويل قيم الإحداثيات المخزنة كـ decimal (نصوص) إلى أرقام
+ */
+export function toCoordinates(
+  latitude: string | number,
+  longitude: string | number
+): Coordinates {
+  return { latitude: Number(latitude), longitude: Number(longitude) };
+}
+
+/**
+ * هل النقطة داخل الصندوق (الصندوق الذي يعبر خط 180 يكون غربه أكبر من شرقه)
+ */
+export function isWithinBounds(point: Coordinates, box: BoundingBox): boolean {
+  if (point.latitude < box.south || point.latitude > box.north) return false;
+  return box.west <= box.east
+    ? point.longitude >= box.west && point.longitude <= box.east
+    : point.longitude >= box.west || point.longitude <= box.east;
+}
+
+/**
+ * أصغر صندوق يحيط بدائرة حول نقطة، للتصفية المبدئية قبل حساب المسافة الفعلية
+ */
+export function boundingBoxAround(
+  center: Coordinates,
+  radiusKm: number
+): BoundingBox {
+  const latitudeDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const north = Math.min(90, center.latitude + latitudeDelta);
+  const south = Math.max(-90, center.latitude - latitudeDelta);
+
+  // قرب القطبين تغطي الدائرة جميع خطوط الطول
+  const cosLatitude = Math.cos(toRadians(center.latitude));
+  if (north >= 90 || south <= -90 || cosLatitude < 1e-6) {
+    return { north, south, east: 180, west: -180 };
+  }
+
+  const longitudeDelta = latitudeDelta / cosLatitude;
+  if (longitudeDelta >= 180) {
+    return { north, south, east: 180, west: -180 };
+  }
+
+  const wrap = (longitude: number) =>
+    ((((longitude + 180) % 360) + 360) % 360) - 180;
+  return {
+    north,
+    south,
+    east: wrap(center.longitude + longitudeDelta),
+    west: wrap(center.longitude - longitudeDelta),
+  };
+}
@@ -0,0 +1,121 @@
+import { generateKeyPairSync } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  buildHistoryExport,
+  hashHistoryEntry,
+  HISTORY_GENESIS_HASH,
+  signHistoryExport,
+  verifyHistoryChain,
+  verifyHistoryExportSignature,
+  type HistoryChainEntry,
+} from "./historyChain";
+
+const startedAt = new Date("2025-03-01T07:00:00Z");
+
+// سلسلة صحيحة كما يبنيها appendIncidentHistory
+const chain = (actions: string[]): HistoryChainEntry[] =>
+  actions.reduce<HistoryChainEntry[]>((entries, action, index) => {
+    const fields = {
+      incidentId: 5,
+      sequence: index + 1,
+      eventType: "incident.status_changed" as const,
+      action,
+      details: `${action} details`,
+      payload: { next: "resolved", previous: "in_progress" },
+      performedBy: 2,
+      createdAt: new Date(startedAt.getTime() + index * 60_000),
+      previousHash: entries.at(-1)?.hash ?? HISTORY_GENESIS_HASH,
+    };
+    return [
+      ...entries,
+      { ...fields, id: 100 + index, hash: hashHistoryEntry(fields) },
+    ];
+  }, []);
+
+describe("verifyHistoryChain", () => {
+  it("accepts an untouched chain and reports its head", () => {
+    const entries = chain([
+      "Incident created",
+      "Status updated",
+      "Party added",
+    ]);
+    expect(verifyHistoryChain(entries)).toEqual({
+      valid: true,
+      length: 3,
+      headHash: entries[2]!.hash,
+      breaks: [],
+    });
+  });
+
+  it("ignores JSON key order, as MySQL reorders payload keys", () => {
+    const [entry] = chain(["Status updated"]);
+    const reordered = {
+      ...entry!,
+      payload: { previous: "in_progress", next: "resolved" },
+    };
+    expect(verifyHistoryChain([reordered]).valid).toBe(true);
+  });
+
+  it("reports an edited entry", () => {
+    const entries = chain([
+      "Incident created",
+      "Fault percentage updated",
+      "Party added",
+    ]);
+    entries[1] = { ...entries[1]!, payload: { previous: 30, next: 70 } };
+
+    expect(verifyHistoryChain(entries).breaks).toEqual([
+      { entryId: 101, sequence: 2, reason: "hash_mismatch" },
+    ]);
+  });
+
+  it("reports a deleted entry where the chain breaks", () => {
+    const entries = chain([
+      "Incident created",
+      "Status updated",
+      "Party added",
+    ]);
+    const result = verifyHistoryChain([entries[0]!, entries[2]!]);
+
+    expect(result.valid).toBe(false);
+    expect(result.breaks).toEqual([
+      { entryId: 102, sequence: 3, reason: "sequence_gap" },
+      { entryId: 102, sequence: 3, reason: "previous_hash_mismatch" },
+    ]);
+  });
+});
+
+describe("signed history export", () => {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const privateKeyPem = privateKey
+    .export({ type: "pkcs8", format: "pem" })
+    .toString();
+
+  it("signs the chain so recipients can verify it with the attached key", () => {
+    const body = buildHistoryExport(
+      5,
+      chain(["Incident created", "Status updated"]),
+      2,
+      startedAt
+    );
+    const document = signHistoryExport(body, privateKeyPem);
+
+    expect(document.verification.valid).toBe(true);
+    expect(document.entries[0]!.createdAt).toBe("2025-03-01T07:00:00.000Z");
+    expect(verifyHistoryExportSignature(document)).toBe(true);
+
+    // يجب أن يبقى التوقيع صالحاً بعد نقل المستند كـ JSON
+    const received = JSON.parse(JSON.stringify(document));
+    expect(verifyHistoryExportSignature(received)).toBe(true);
+
+    received.entries[1].details = "Status changed to closed";
+    expect(verifyHistoryExportSignature(received)).toBe(false);
+  });
+
+  it("requires a signing key", () => {
+    const body = buildHistoryExport(5, [], 2, startedAt);
+    expect(() => signHistoryExport(body, null)).toThrow(
+      expect.objectContaining({ code: "signing_not_configured" })
+    );
+  });
+});
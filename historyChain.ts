@@ -0,0 +1,224 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+} from "node:crypto";
+import type { IncidentHistory } from "../drizzle/schema";
+
+/**
+ * السجل التاريخي المتسلسل بالبصمات
+ * كل سجل يحمل بصمة SHA-256 لمحتواه مع بصمة السجل السابق للحادث نفسه،
+ * فأي تعديل أو حذف لسجل يكسر السلسلة من موضعه
+ */
+
+// بصمة ما قبل السجل الأول لكل حادث
+export const HISTORY_GENESIS_HASH = "0".repeat(64);
+
+export const HISTORY_EXPORT_FORMAT = "inciq.incident-history.v1";
+
+export type HistoryChainFields = Pick<
+  IncidentHistory,
+  | "incidentId"
+  | "sequence"
+  | "eventType"
+  | "action"
+  | "details"
+  | "payload"
+  | "performedBy"
+  | "createdAt"
+  | "previousHash"
+>;
+
+export type HistoryChainEntry = HistoryChainFields &
+  Pick<IncidentHistory, "id" | "hash">;
+
+export type HistoryChainBreakReason =
+  "sequence_gap" | "previous_hash_mismatch" | "hash_mismatch";
+
+export type HistoryChainBreak = {
+  entryId: number;
+  sequence: number;
+  reason: HistoryChainBreakReason;
+};
+
+export type HistoryChainVerification = {
+  valid: boolean;
+  length: number;
+  headHash: string;
+  breaks: HistoryChainBreak[];
+};
+
+export type HistoryChainErrorCode = "signing_not_configured";
+
+/**
+ * خطأ في تصدير السجل الموقع
+ */
+export class HistoryChainError extends Error {
+  constructor(
+    public code: HistoryChainErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "HistoryChainError";
+  }
+}
+
+/**
+ * تحويل الحمولة إلى صيغتها بعد الحفظ كـ JSON (التواريخ نصوص، بلا undefined)
+ */
+export function normalizePayload(payload: unknown): unknown {
+  return payload === undefined ? null : JSON.parse(JSON.stringify(payload));
+}
+
+/**
+ * JSON بمفاتيح مرتبة، لأن MySQL لا يحفظ ترتيب مفاتيح أعمدة JSON
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashHistoryEntry(fields: HistoryChainFields): string {
+  const content = canonicalJson({
+    incidentId: fields.incidentId,
+    sequence: fields.sequence,
+    eventType: fields.eventType,
+    action: fields.action,
+    details: fields.details,
+    payload: normalizePayload(fields.payload),
+    performedBy: fields.performedBy,
+    createdAt: fields.createdAt.toISOString(),
+    previousHash: fields.previousHash,
+  });
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * التحقق من سلسلة سجلات حادث مرتبة حسب التسلسل
+ * كل كسر يُذكر مرة في موضعه، والسجلات بعده تُقارن بالبصمة المحفوظة لما قبلها
+ */
+export function verifyHistoryChain(
+  entries: HistoryChainEntry[]
+): HistoryChainVerification {
+  const breaks: HistoryChainBreak[] = [];
+  let previousHash = HISTORY_GENESIS_HASH;
+
+  entries.forEach((entry, index) => {
+    const at = (reason: HistoryChainBreakReason) =>
+      breaks.push({ entryId: entry.id, sequence: entry.sequence, reason });
+
+    if (entry.sequence !== index + 1) at("sequence_gap");
+    if (entry.previousHash !== previousHash) at("previous_hash_mismatch");
+    if (hashHistoryEntry(entry) !== entry.hash) at("hash_mismatch");
+    previousHash = entry.hash;
+  });
+
+  return {
+    valid: breaks.length === 0,
+    length: entries.length,
+    headHash: previousHash,
+    breaks,
+  };
+}
+
+export type HistoryExportBody = {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  incidentId: number;
+  exportedAt: string;
+  exportedBy: number | null;
+  verification: HistoryChainVerification;
+  entries: (Omit<HistoryChainEntry, "createdAt"> & { createdAt: string })[];
+};
+
+export type SignedHistoryExport = HistoryExportBody & {
+  signature: { algorithm: "ed25519"; publicKey: string; value: string };
+};
+
+/**
+ * محتوى التصدير كما يصل للمستلم: السلسلة كاملة مع نتيجة التحقق وقت التصدير
+ */
+export function buildHistoryExport(
+  incidentId: number,
+  entries: HistoryChainEntry[],
+  exportedBy: number | null,
+  exportedAt = new Date()
+): HistoryExportBody {
+  return {
+    format: HISTORY_EXPORT_FORMAT,
+    incidentId,
+    exportedAt: exportedAt.toISOString(),
+    exportedBy,
+    verification: verifyHistoryChain(entries),
+    entries: entries.map(entry => ({
+      id: entry.id,
+      incidentId: entry.incidentId,
+      sequence: entry.sequence,
+      eventType: entry.eventType,
+      action: entry.action,
+      details: entry.details,
+      payload: normalizePayload(entry.payload),
+      performedBy: entry.performedBy,
+      createdAt: entry.createdAt.toISOString(),
+      previousHash: entry.previousHash,
+      hash: entry.hash,
+    })),
+  };
+}
+
+// المفتاح الخاص Ed25519 بصيغة PEM (يمكن كتابة الأسطر كـ \n في ملف البيئة)
+function signingKeyFromEnv(): string | null {
+  const key = process.env.HISTORY_SIGNING_PRIVATE_KEY;
+  return key ? key.replace(/\\n/g, "\n") : null;
+}
+
+/**
+ * توقيع تصدير السجل ليتحقق منه الطرف المستلم (محكمة، شركة تأمين) بالمفتاح العام المرفق
+ */
+export function signHistoryExport(
+  body: HistoryExportBody,
+  privateKeyPem: string | null = signingKeyFromEnv()
+): SignedHistoryExport {
+  if (!privateKeyPem) {
+    throw new HistoryChainError(
+      "signing_not_configured",
+      "HISTORY_SIGNING_PRIVATE_KEY is not configured"
+    );
+  }
+
+  const privateKey = createPrivateKey(privateKeyPem);
+  const data = Buffer.from(canonicalJson(body));
+  return {
+    ...body,
+    signature: {
+      algorithm: "ed25519",
+      publicKey: createPublicKey(privateKey)
+        .export({ type: "spki", format: "pem" })
+        .toString(),
+      value: sign(null, data, privateKey).toString("base64"),
+    },
+  };
+}
+
+export function verifyHistoryExportSignature(
+  document: SignedHistoryExport
+): boolean {
+  const { signature, ...body } = document;
+  return verify(
+    null,
+    Buffer.from(canonicalJson(body)),
+    signature.publicKey,
+    Buffer.from(signature.value, "base64")
+  );
+}
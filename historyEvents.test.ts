@@ -0,0 +1,274 @@
+import { and } from "drizzle-orm";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { describe, expect, it } from "vitest";
+import { historyFilterConditions } from "./db";
+import {
+  HISTORY_EVENT_LABELS,
+  HISTORY_EVENT_TYPES,
+  historyRecord,
+  type HistoryEvent,
+  type HistoryEventPayloads,
+  type HistoryEventType,
+} from "./historyEvents";
+import { findResolutionTimeInHistory } from "./statistics";
+
+// حمولة نموذجية لكل نوع، والنوع يضمن أن الكتالوج مغطى بالكامل
+const EXAMPLE_PAYLOADS: { [K in HistoryEventType]: HistoryEventPayloads[K] } = {
+  "incident.created": {
+    previous: null,
+    next: { incidentType: "traffic", severity: "medium", location: "الرياض" },
+  },
+  "incident.status_changed": {
+    previous: "in_progress",
+    next: "resolved",
+    reason: "Cleared",
+    reopened: false,
+  },
+  "incident.duplicate_flagged": { previous: null, next: 4 },
+  "incident.duplicate_dismissed": { previous: 4, next: null },
+  "incident.merged": {
+    previous: null,
+    next: { mergedIncidentId: 9 },
+    moved: { parties: 2, media: 1, services: 0 },
+    mergedHistory: { length: 3, headHash: "a".repeat(64) },
+    reason: "Same crash",
+  },
+  "incident.merged_into": {
+    previous: "pending",
+    next: "closed",
+    survivorId: 4,
+    reason: "Same crash",
+  },
+  "incident.agency_assigned": { previous: null, next: "Red Crescent" },
+  "incident.agency_unassigned": { previous: "Red Crescent", next: null },
+  "analysis.accepted": {
+    previous: "medium",
+    next: "high",
+    analysisId: 2,
+    damageLevel: 70,
+    estimatedCost: 12000,
+  },
+  "party.added": { previous: null, next: { partyId: 1, partyName: "خالد" } },
+  "party.facts_updated": {
+    previous: null,
+    next: { speedKmh: 80 },
+    partyId: 1,
+  },
+  "fault.changed": {
+    previous: [{ partyId: 1, faultPercentage: 50 }],
+    next: [{ partyId: 1, faultPercentage: 100 }],
+  },
+  "fault.assessed": {
+    previous: [{ partyId: 1, faultPercentage: 0 }],
+    next: [{ partyId: 1, faultPercentage: 100 }],
+    faultAssessmentId: 5,
+    rulesetVersion: "1.0.0",
+  },
+  "dispatch.decided": {
+    previous: null,
+    next: {
+      services: [
+        { serviceType: "ambulance", priority: "immediate", rules: ["x"] },
+      ],
+      matchedRules: [{ id: null, name: "x", reasons: ["injuries"] }],
+    },
+  },
+  "service.requested": {
+    previous: null,
+    next: {
+      serviceId: 3,
+      serviceType: "ambulance",
+      priority: "immediate",
+      unitId: null,
+    },
+    reason: null,
+  },
+  "service.status_changed": {
+    previous: "en_route",
+    next: "arrived",
+    serviceId: 3,
+  },
+  "service.proximity_alert": {
+    previous: null,
+    next: "1km",
+    serviceId: 3,
+    distanceMeters: 900,
+  },
+  "service.sla_breached": {
+    previous: null,
+    next: { redispatchServiceId: 8, redispatchUnitId: 2 },
+    serviceId: 3,
+    breaches: [
+      {
+        id: 1,
+        milestone: "arrived",
+        targetMinutes: 10,
+        dueAt: new Date("2026-03-01T08:10:00Z"),
+      },
+    ],
+    supervisorNotified: ["ops"],
+  },
+  "media.added": {
+    previous: null,
+    next: { mediaId: 6, mediaType: "image", capturedAt: undefined },
+  },
+  "report.document_generated": {
+    previous: null,
+    next: { reportDocumentId: 1, version: 1, sha256: "b".repeat(64) },
+  },
+  "report.sent": {
+    previous: null,
+    next: { recipients: 2, reportDocumentId: 1 },
+  },
+  "report.delivered": {
+    previous: "pending",
+    next: "sent",
+    reportSendId: 1,
+    channels: ["email"],
+    attempt: 1,
+  },
+  "report.delivery_failed": {
+    previous: "pending",
+    next: "failed",
+    reportSendId: 1,
+    attempt: 3,
+    reason: "SMTP timeout",
+  },
+  "report.read": { previous: "sent", next: "read", reportSendId: 1 },
+  "job.failed": {
+    previous: "running",
+    next: "dead",
+    jobId: 1,
+    type: "dispatch",
+    attempt: 3,
+    error: "timeout",
+  },
+  "job.rerun": {
+    previous: "dead",
+    next: "queued",
+    jobId: 1,
+    type: "dispatch",
+    lastError: "timeout",
+  },
+};
+
+function event<T extends HistoryEventType>(
+  type: T,
+  details?: string
+): HistoryEvent {
+  return {
+    incidentId: 7,
+    type,
+    payload: EXAMPLE_PAYLOADS[type],
+    details,
+    performedBy: 2,
+  } as HistoryEvent;
+}
+
+describe("history event catalog", () => {
+  it("labels every event type once", () => {
+    expect(Object.keys(HISTORY_EVENT_LABELS).sort()).toEqual(
+      [...HISTORY_EVENT_TYPES].sort()
+    );
+    const labels = Object.values(HISTORY_EVENT_LABELS);
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+
+  it("keeps the status label the statistics roll-up reads", () => {
+    expect(HISTORY_EVENT_LABELS["incident.status_changed"]).toBe(
+      "Status updated"
+    );
+  });
+});
+
+describe("historyRecord", () => {
+  it("stores every event type with its label and previous/next payload", () => {
+    for (const type of HISTORY_EVENT_TYPES) {
+      const record = historyRecord(event(type));
+
+      expect(record.eventType).toBe(type);
+      expect(record.action).toBe(HISTORY_EVENT_LABELS[type]);
+      expect(record.payload).toHaveProperty("previous");
+      expect(record.payload).toHaveProperty("next");
+    }
+  });
+
+  it("stores the payload as it reads back from the JSON column", () => {
+    const record = historyRecord(event("service.sla_breached"));
+
+    expect(record.payload).toMatchObject({
+      breaches: [{ dueAt: "2026-03-01T08:10:00.000Z" }],
+    });
+    expect(historyRecord(event("media.added")).payload).toEqual({
+      previous: null,
+      next: { mediaId: 6, mediaType: "image" },
+    });
+  });
+
+  it("fills missing details and actor with null", () => {
+    const record = historyRecord({
+      incidentId: 7,
+      type: "report.read",
+      payload: EXAMPLE_PAYLOADS["report.read"],
+    });
+
+    expect(record.details).toBeNull();
+    expect(record.performedBy).toBeNull();
+  });
+
+  it("produces the rows the daily statistics count as resolutions", () => {
+    const at = (time: string) => new Date(`2026-03-01T${time}:00Z`);
+    const history = [
+      {
+        ...historyRecord(
+          event("service.status_changed", "Status changed to resolved")
+        ),
+        createdAt: at("09:00"),
+      },
+      {
+        ...historyRecord(
+          event("incident.status_changed", "Status changed to resolved")
+        ),
+        createdAt: at("10:00"),
+      },
+      {
+        ...historyRecord(
+          event("incident.status_changed", "Status changed to closed")
+        ),
+        createdAt: at("11:00"),
+      },
+    ];
+
+    expect(findResolutionTimeInHistory(history)).toEqual(at("10:00"));
+  });
+});
+
+describe("historyFilterConditions", () => {
+  const render = (filter: Parameters<typeof historyFilterConditions>[0]) => {
+    const condition = and(...historyFilterConditions(filter));
+    return condition ? new MySqlDialect().sqlToQuery(condition) : null;
+  };
+
+  it("adds no condition for an empty filter", () => {
+    expect(render({})).toBeNull();
+    expect(render({ eventTypes: [] })).toBeNull();
+  });
+
+  it("filters by event types, actor and a half-open time window", () => {
+    const query = render({
+      eventTypes: ["fault.changed", "fault.assessed"],
+      performedBy: 2,
+      from: new Date("2026-03-01T00:00:00Z"),
+      to: new Date("2026-03-02T00:00:00Z"),
+    });
+
+    expect(query?.sql).toBe(
+      "(`incidentHistory`.`eventType` in (?, ?) and `incidentHistory`.`performedBy` = ? and `incidentHistory`.`createdAt` >= ? and `incidentHistory`.`createdAt` < ?)"
+    );
+    expect(query?.params.slice(0, 3)).toEqual([
+      "fault.changed",
+      "fault.assessed",
+      2,
+    ]);
+  });
+});
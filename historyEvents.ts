@@ -0,0 +1,207 @@
+import type {
+  Incident,
+  IncidentHistory,
+  ReportSend,
+  Service,
+} from "../drizzle/schema";
+import type { DispatchDecision, DispatchPriority } from "./dispatchRules";
+import type { FaultShare } from "./faultApportionment";
+import type { Coordinates } from "./geo";
+import { normalizePayload } from "./historyChain";
+import type { ProximityAlert } from "./tracking";
+
+/**
+ * كتالوج أحداث السجل التاريخي
+ * كل حدث له نوع ثابت وحمولة بالقيمة السابقة (previous) والجديدة (next) وسياقه،
+ * ونص action يبقى كما كان ليعرضه السجل ويقرأه حساب الإحصائيات
+ */
+
+export type HistoryEventType = IncidentHistory["eventType"];
+
+export const HISTORY_EVENT_TYPES = [
+  "incident.created",
+  "incident.status_changed",
+  "incident.duplicate_flagged",
+  "incident.duplicate_dismissed",
+  "incident.merged",
+  "incident.merged_into",
+  "incident.agency_assigned",
+  "incident.agency_unassigned",
+  "analysis.accepted",
+  "party.added",
+  "party.facts_updated",
+  "fault.changed",
+  "fault.assessed",
+  "dispatch.decided",
+  "service.requested",
+  "service.status_changed",
+  "service.proximity_alert",
+  "service.sla_breached",
+  "media.added",
+  "report.document_generated",
+  "report.sent",
+  "report.delivered",
+  "report.delivery_failed",
+  "report.read",
+  "job.failed",
+  "job.rerun",
+] as const satisfies readonly HistoryEventType[];
+
+export const HISTORY_EVENT_LABELS: Record<HistoryEventType, string> = {
+  "incident.created": "Incident created",
+  "incident.status_changed": "Status updated",
+  "incident.duplicate_flagged": "Possible duplicate flagged",
+  "incident.duplicate_dismissed": "Duplicate flag dismissed",
+  "incident.merged": "Incident merged",
+  "incident.merged_into": "Merged into incident",
+  "incident.agency_assigned": "Agency assigned",
+  "incident.agency_unassigned": "Agency unassigned",
+  "analysis.accepted": "Image analysis accepted",
+  "party.added": "Party added",
+  "party.facts_updated": "Party facts updated",
+  "fault.changed": "Fault percentage updated",
+  "fault.assessed": "Fault assessed",
+  "dispatch.decided": "Dispatch decision",
+  "service.requested": "Service requested",
+  "service.status_changed": "Service status updated",
+  "service.proximity_alert": "Service proximity alert",
+  "service.sla_breached": "SLA breached",
+  "media.added": "Media added",
+  "report.document_generated": "Report document generated",
+  "report.sent": "Report sent",
+  "report.delivered": "Report delivered",
+  "report.delivery_failed": "Report delivery failed",
+  "report.read": "Report read",
+  "job.failed": "Background job failed",
+  "job.rerun": "Background job re-run",
+};
+
+// القيمة قبل الحدث وبعده (null لما لم يكن موجوداً أو أُزيل)
+type Change<T> = { previous: T | null; next: T | null };
+
+type ReportSendStatus = ReportSend["status"];
+type JobChange = Change<"queued" | "running" | "dead"> & {
+  jobId: number;
+  type: string;
+};
+
+export type HistoryEventPayloads = {
+  "incident.created": Change<
+    Pick<Incident, "incidentType" | "severity" | "location">
+  >;
+  "incident.status_changed": Change<Incident["status"]> & {
+    reason: string | null;
+    reopened: boolean;
+  };
+  // previous/next: رقم الحادث الذي يُرجّح أن البلاغ مكرر له
+  "incident.duplicate_flagged": Change<number>;
+  "incident.duplicate_dismissed": Change<number>;
+  "incident.merged": Change<{ mergedIncidentId: number }> & {
+    moved: { parties: number; media: number; services: number };
+    // ربط سلسلة سجل المدموج (historyChain.ts)
+    mergedHistory: { length: number; headHash: string };
+    reason: string;
+  };
+  "incident.merged_into": Change<Incident["status"]> & {
+    survivorId: number;
+    reason: string;
+  };
+  "incident.agency_assigned": Change<string>;
+  "incident.agency_unassigned": Change<string>;
+  "analysis.accepted": Change<Incident["severity"]> & {
+    analysisId: number;
+    damageLevel: number | null;
+    estimatedCost: number | null;
+  };
+  "party.added": Change<{ partyId: number; partyName: string }>;
+  "party.facts_updated": Change<unknown> & { partyId: number };
+  "fault.changed": Change<FaultShare[]>;
+  "fault.assessed": Change<FaultShare[]> & {
+    faultAssessmentId: number;
+    rulesetVersion: string;
+  };
+  "dispatch.decided": Change<DispatchDecision>;
+  "service.requested": Change<{
+    serviceId: number;
+    serviceType: Service["serviceType"];
+    priority: DispatchPriority;
+    unitId: number | null;
+  }> & { reason: string | null };
+  "service.status_changed": Change<Service["status"]> & { serviceId: number };
+  "service.proximity_alert": Change<ProximityAlert> & {
+    serviceId: number;
+    distanceMeters: number;
+  };
+  "service.sla_breached": Change<{
+    redispatchServiceId: number | null;
+    redispatchUnitId: number | null;
+  }> & {
+    serviceId: number;
+    breaches: {
+      id: number;
+      milestone: string;
+      targetMinutes: number;
+      dueAt: Date;
+    }[];
+    supervisorNotified: string[];
+  };
+  "media.added": Change<{
+    mediaId: number;
+    mediaType: "image" | "video";
+    // الرفع المباشر: بصمة الملف وبيانات EXIF
+    sha256?: string;
+    capturedAt?: Date | null;
+    captureLocation?: Coordinates | null;
+  }>;
+  // previous: آخر نسخة مؤرشفة قبلها
+  "report.document_generated": Change<{
+    reportDocumentId: number;
+    version: number;
+    sha256: string;
+  }>;
+  "report.sent": Change<{ recipients: number; reportDocumentId: number }>;
+  "report.delivered": Change<ReportSendStatus> & {
+    reportSendId: number;
+    channels: string[];
+    attempt: number;
+  };
+  "report.delivery_failed": Change<ReportSendStatus> & {
+    reportSendId: number;
+    attempt: number;
+    reason: string;
+  };
+  "report.read": Change<ReportSendStatus> & { reportSendId: number };
+  "job.failed": JobChange & { attempt: number; error: string };
+  "job.rerun": JobChange & { lastError: string | null };
+};
+
+export type HistoryEvent<T extends HistoryEventType = HistoryEventType> = {
+  [K in T]: {
+    incidentId: number;
+    type: K;
+    payload: HistoryEventPayloads[K];
+    // وصف مقروء للحدث في واجهة السجل
+    details?: string;
+    performedBy?: number;
+  };
+}[T];
+
+/**
+ * أعمدة السجل المشتقة من الحدث، قبل التسلسل والبصمة
+ * action هو تسمية النوع، فيبقى "Status updated" الذي يقرأه حساب الإحصائيات
+ */
+export function historyRecord(
+  event: HistoryEvent
+): Pick<
+  IncidentHistory,
+  "incidentId" | "eventType" | "action" | "details" | "payload" | "performedBy"
+> {
+  return {
+    incidentId: event.incidentId,
+    eventType: event.type,
+    action: HISTORY_EVENT_LABELS[event.type],
+    details: event.details ?? null,
+    payload: normalizePayload(event.payload),
+    performedBy: event.performedBy ?? null,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterPoints,
+  detectHotspots,
+  timeOfDay,
+  type HotspotPoint,
+} from "./hotspots";
+
+// نقاط متقاربة حول تقاطع في الرياض (فرق 0.001 درجة ≈ 100 م)
+function pointsAround(
+  latitude: number,
+  longitude: number,
+  count: number,
+  startId: number,
+  reportedAt = new Date("2025-03-01T19:30:00Z")
+): HotspotPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: startId + i,
+    latitude: latitude + (i % 3) * 0.001,
+    longitude: longitude + Math.floor(i / 3) * 0.001,
+    reportedAt,
+    severity: i % 2 === 0 ? "high" : "medium",
+    incidentType: "traffic",
+  }));
+}
+
+const options = { epsKm: 0.5, minPoints: 4, utcOffsetMinutes: 180 };
+
+describe("hotspots", () => {
+  it("groups dense points and drops isolated ones", () => {
+    const points = [
+      ...pointsAround(24.7136, 46.6753, 6, 1),
+      ...pointsAround(24.8, 46.7, 4, 100),
+      { latitude: 25.5, longitude: 47.5 },
+    ];
+    const clusters = clusterPoints(points, 0.5, 4);
+    expect(clusters.map(c => c.length)).toEqual([6, 4]);
+    expect(clusters.flat()).not.toContain(points.length - 1);
+  });
+
+  it("summarizes clusters with trend and dominant time of day", () => {
+    const current = pointsAround(24.7136, 46.6753, 6, 1);
+    const previous = pointsAround(24.7136, 46.6753, 3, 50);
+    const [hotspot] = detectHotspots(current, previous, options);
+
+    expect(hotspot!.count).toBe(6);
+    expect(hotspot!.severityCounts).toMatchObject({ high: 3, medium: 3 });
+    expect(hotspot!.radiusKm).toBeLessThan(0.5);
+    expect(hotspot!.dominantTimeOfDay).toBe("evening");
+    expect(hotspot!.trend).toEqual({
+      previousCount: 3,
+      change: 3,
+      changePercent: 100,
+      direction: "rising",
+    });
+  });
+
+  it("reports no previous baseline as a null percentage", () => {
+    const [hotspot] = detectHotspots(
+      pointsAround(24.7136, 46.6753, 5, 1),
+      [],
+      options
+    );
+    expect(hotspot!.trend.changePercent).toBeNull();
+  });
+
+  it("buckets time of day in local time", () => {
+    // 22:00 UTC = 01:00 بتوقيت الرياض
+    expect(timeOfDay(new Date("2025-03-01T22:00:00Z"), 180)).toBe("night");
+    expect(timeOfDay(new Date("2025-03-01T22:00:00Z"), 0)).toBe("evening");
+  });
+});
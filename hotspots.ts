@@ -0,0 +1,259 @@
+import type { Incident } from "../drizzle/schema";
+import { getIncidentLocations } from "./db";
+import { distanceKm, type Coordinates } from "./geo";
+
+/**
+ * اكتشاف النقاط الساخنة للحوادث
+ * تجميع مواقع الحوادث بخوارزمية DBSCAN: كل نقطة لها minPoints جيران على الأقل ضمن epsKm
+ * تبدأ تجمعاً أو توسعه، والنقاط المنعزلة تُهمل
+ */
+
+export type HotspotPoint = Coordinates & {
+  id: number;
+  reportedAt: Date;
+  severity: Incident["severity"];
+  incidentType: Incident["incidentType"];
+};
+
+export type TimeOfDay = "night" | "morning" | "afternoon" | "evening";
+
+export type HotspotTrend = {
+  previousCount: number;
+  change: number;
+  // null إذا لم تكن هناك حوادث في الفترة السابقة
+  changePercent: number | null;
+  direction: "rising" | "falling" | "stable";
+};
+
+export type Hotspot = {
+  centroid: Coordinates;
+  radiusKm: number;
+  count: number;
+  severityCounts: Record<Incident["severity"], number>;
+  typeCounts: Record<Incident["incidentType"], number>;
+  dominantTimeOfDay: TimeOfDay;
+  timeOfDayCounts: Record<TimeOfDay, number>;
+  trend: HotspotTrend;
+  incidentIds: number[];
+};
+
+export type HotspotOptions = {
+  epsKm: number;
+  minPoints: number;
+  // فرق التوقيت المحلي عن UTC بالدقائق لتحديد فترة اليوم (السعودية +3)
+  utcOffsetMinutes: number;
+};
+
+export const DEFAULT_HOTSPOT_OPTIONS: HotspotOptions = {
+  epsKm: 0.5,
+  minPoints: 5,
+  utcOffsetMinutes: 180,
+};
+
+// درجة عرض واحدة تقريباً 111 كم، تُستخدم لتقسيم النقاط إلى خلايا للبحث عن الجيران
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+/**
+ * تجميع النقاط (DBSCAN)
+ * @returns مجموعات من فهارس النقاط، مرتبة تنازلياً حسب الحجم
+ */
+export function clusterPoints(
+  points: Coordinates[],
+  epsKm: number,
+  minPoints: number
+): number[][] {
+  const latitudeCell = epsKm / KM_PER_DEGREE_LATITUDE;
+  // عرض الخلية بخطوط الطول يُحسب عند أبعد عرض عن خط الاستواء ليغطي epsKm في كل النقاط
+  const maxAbsLatitude = points.reduce(
+    (max, p) => Math.max(max, Math.abs(p.latitude)),
+    0
+  );
+  const longitudeCell =
+    latitudeCell / Math.max(Math.cos((maxAbsLatitude * Math.PI) / 180), 0.01);
+  const cellKey = (row: number, column: number) => `${row}:${column}`;
+  const cellOf = (point: Coordinates) => ({
+    row: Math.floor(point.latitude / latitudeCell),
+    column: Math.floor(point.longitude / longitudeCell),
+  });
+
+  const grid = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const { row, column } = cellOf(point);
+    const key = cellKey(row, column);
+    const cell = grid.get(key);
+    if (cell) cell.push(index);
+    else grid.set(key, [index]);
+  });
+
+  const neighbours = (index: number): number[] => {
+    const point = points[index]!;
+    const { row, column } = cellOf(point);
+    const result: number[] = [];
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        for (const other of grid.get(cellKey(row + dr, column + dc)) ?? []) {
+          if (distanceKm(point, points[other]!) <= epsKm) result.push(other);
+        }
+      }
+    }
+    return result;
+  };
+
+  const UNVISITED = -2;
+  const NOISE = -1;
+  const labels = new Array<number>(points.length).fill(UNVISITED);
+  const clusters: number[][] = [];
+
+  for (let index = 0; index < points.length; index++) {
+    if (labels[index] !== UNVISITED) continue;
+
+    const seeds = neighbours(index);
+    if (seeds.length < minPoints) {
+      labels[index] = NOISE;
+      continue;
+    }
+
+    const clusterId = clusters.length;
+    const members: number[] = [];
+    clusters.push(members);
+    labels[index] = clusterId;
+    members.push(index);
+
+    const queue = seeds.filter(seed => seed !== index);
+    for (let position = 0; position < queue.length; position++) {
+      const current = queue[position]!;
+      if (labels[current] === NOISE) {
+        // نقطة حدودية
+        labels[current] = clusterId;
+        members.push(current);
+        continue;
+      }
+      if (labels[current] !== UNVISITED) continue;
+
+      labels[current] = clusterId;
+      members.push(current);
+
+      const expansion = neighbours(current);
+      if (expansion.length >= minPoints) queue.push(...expansion);
+    }
+  }
+
+  return clusters.sort((a, b) => b.length - a.length);
+}
+
+export function timeOfDay(date: Date, utcOffsetMinutes: number): TimeOfDay {
+  const localMinutes =
+    (((date.getUTCHours() * 60 + date.getUTCMinutes() + utcOffsetMinutes) %
+      1440) +
+      1440) %
+    1440;
+  const hour = Math.floor(localMinutes / 60);
+  if (hour < 6) return "night";
+  if (hour < 12) return "morning";
+  if (hour < 18) return "afternoon";
+  return "evening";
+}
+
+function centroidOf(points: Coordinates[]): Coordinates {
+  return {
+    latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+    longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+  };
+}
+
+function trendOf(count: number, previousCount: number): HotspotTrend {
+  const change = count - previousCount;
+  return {
+    previousCount,
+    change,
+    changePercent:
+      previousCount > 0 ? Math.round((change / previousCount) * 100) : null,
+    direction: change > 0 ? "rising" : change < 0 ? "falling" : "stable",
+  };
+}
+
+/**
+ * اكتشاف النقاط الساخنة في الفترة الحالية ومقارنتها بالفترة السابقة
+ * حوادث الفترة السابقة تُحسب ضمن دائرة التجمع نفسها (أو epsKm إذا كانت أصغر)
+ */
+export function detectHotspots(
+  current: HotspotPoint[],
+  previous: HotspotPoint[],
+  options: HotspotOptions = DEFAULT_HOTSPOT_OPTIONS
+): Hotspot[] {
+  const clusters = clusterPoints(current, options.epsKm, options.minPoints);
+
+  return clusters.map(indexes => {
+    const members = indexes.map(index => current[index]!);
+    const centroid = centroidOf(members);
+    const radiusKm = members.reduce(
+      (max, member) => Math.max(max, distanceKm(centroid, member)),
+      0
+    );
+
+    const severityCounts = { low: 0, medium: 0, high: 0, critical: 0 };
+    const typeCounts = { injury: 0, breakdown: 0, traffic: 0 };
+    const timeOfDayCounts = { night: 0, morning: 0, afternoon: 0, evening: 0 };
+    for (const member of members) {
+      severityCounts[member.severity]++;
+      typeCounts[member.incidentType]++;
+      timeOfDayCounts[timeOfDay(member.reportedAt, options.utcOffsetMinutes)]++;
+    }
+
+    const dominantTimeOfDay = (
+      Object.keys(timeOfDayCounts) as TimeOfDay[]
+    ).reduce((best, slot) =>
+      timeOfDayCounts[slot] > timeOfDayCounts[best] ? slot : best
+    );
+
+    const catchmentKm = Math.max(radiusKm, options.epsKm);
+    const previousCount = previous.filter(
+      point => distanceKm(centroid, point) <= catchmentKm
+    ).length;
+
+    return {
+      centroid,
+      radiusKm: Math.round(radiusKm * 1000) / 1000,
+      count: members.length,
+      severityCounts,
+      typeCounts,
+      dominantTimeOfDay,
+      timeOfDayCounts,
+      trend: trendOf(members.length, previousCount),
+      incidentIds: members.map(member => member.id),
+    };
+  });
+}
+
+/**
+ * النقاط الساخنة لفترة زمنية مع المقارنة بالفترة السابقة بنفس الطول
+ */
+export async function findHotspots(
+  filters: {
+    from: Date;
+    to: Date;
+    incidentTypes?: Incident["incidentType"][];
+    severities?: Incident["severity"][];
+  },
+  options: Partial<HotspotOptions> = {}
+) {
+  const periodMs = filters.to.getTime() - filters.from.getTime();
+  const previousFrom = new Date(filters.from.getTime() - periodMs);
+
+  const [current, previous] = await Promise.all([
+    getIncidentLocations(filters),
+    getIncidentLocations({ ...filters, from: previousFrom, to: filters.from }),
+  ]);
+
+  return {
+    period: { from: filters.from, to: filters.to },
+    previousPeriod: { from: previousFrom, to: filters.from },
+    totalIncidents: current.length,
+    hotspots: detectHotspots(current, previous, {
+      epsKm: options.epsKm ?? DEFAULT_HOTSPOT_OPTIONS.epsKm,
+      minPoints: options.minPoints ?? DEFAULT_HOTSPOT_OPTIONS.minPoints,
+      utcOffsetMinutes:
+        options.utcOffsetMinutes ?? DEFAULT_HOTSPOT_OPTIONS.utcOffsetMinutes,
+    }),
+  };
+}
@@ -0,0 +1,79 @@
+import { addImageAnalysis, getIncidentById, getIncidentMedia } from "./db";
+import {
+  getIncidentAnalyzer,
+  type AnalyzerOutput,
+  type ImageDamageAnalysis,
+} from "./incidentAnalyzer";
+import { resolveMediaUrls } from "./mediaUpload";
+
+/**
+ * تحليل صور الحادث بالمزود المفعل (incidentAnalyzer.ts)
+ * كل تحليل يُحفظ مع المزود والنموذج وإصدار التعليمات والرد الخام، ولا يغير الحادث حتى يعتمده المشغل
+ */
+
+/**
+ * تحليل صور حادث وحفظ النتيجة
+ * الصور إما وسائط الحادث (mediaIds) أو روابط مباشرة، والفشل يُحفظ أيضاً مع سببه
+ */
+export async function analyzeIncidentImages(data: {
+  incidentId: number;
+  mediaIds?: number[];
+  imageUrls?: string[];
+  performedBy?: number;
+}) {
+  const incident = await getIncidentById(data.incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const imageUrls = [...(data.imageUrls ?? [])];
+  if (data.mediaIds?.length) {
+    const media = await getIncidentMedia(data.incidentId);
+    for (const mediaId of data.mediaIds) {
+      const item = media.find(m => m.id === mediaId);
+      if (!item || item.mediaType !== "image") {
+        throw new Error(`Media #${mediaId} is not an image of this incident`);
+      }
+      const { url } = await resolveMediaUrls(item);
+      if (url) imageUrls.push(url);
+    }
+  }
+  if (imageUrls.length === 0) throw new Error("No images to analyze");
+
+  const analyzer = getIncidentAnalyzer();
+  const record = {
+    incidentId: data.incidentId,
+    mediaIds: data.mediaIds ?? [],
+    imageUrls,
+    provider: analyzer.name,
+    createdBy: data.performedBy,
+  };
+
+  let output: AnalyzerOutput<ImageDamageAnalysis>;
+  try {
+    output = await analyzer.analyzeImages({
+      incidentType: incident.incidentType,
+      imageUrls,
+      videoUrls: [],
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    const { insertId } = await addImageAnalysis({
+      ...record,
+      model: "unknown",
+      promptVersion: "unknown",
+      status: "failed",
+      error: message,
+    });
+    console.error(`[ImageAnalysis] Analysis #${insertId} failed:`, error);
+    return { id: insertId, status: "failed" as const, error: message };
+  }
+
+  const { insertId } = await addImageAnalysis({
+    ...record,
+    model: output.model,
+    promptVersion: output.promptVersion,
+    status: "completed",
+    rawResponse: output.rawResponse,
+    ...output.result,
+  });
+  return { id: insertId, status: "completed" as const, ...output.result };
+}
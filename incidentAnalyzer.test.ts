@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFixtureAnalyzer,
+  parseImageAnalysis,
+  parseSceneAnalysis,
+} from "./incidentAnalyzer";
+
+describe("image analysis parsing", () => {
+  it("reads a well-formed model response", () => {
+    expect(
+      parseImageAnalysis(
+        JSON.stringify({
+          description: "اصطدام أمامي",
+          damageLevel: 65,
+          affectedParts: ["الصدام الأمامي", "الرفرف"],
+          severity: "high",
+          estimatedCost: 8500,
+          recommendations: ["سحب المركبة"],
+        })
+      )
+    ).toEqual({
+      description: "اصطدام أمامي",
+      damageLevel: 65,
+      affectedParts: ["الصدام الأمامي", "الرفرف"],
+      severity: "high",
+      estimatedCost: 8500,
+      recommendations: ["سحب المركبة"],
+    });
+  });
+
+  it("clamps numbers and drops unknown severities", () => {
+    const parsed = parseImageAnalysis(
+      JSON.stringify({
+        damageLevel: "140%",
+        severity: "Severe",
+        estimatedCost: -20,
+        affectedParts: "door",
+      })
+    );
+
+    expect(parsed.damageLevel).toBe(100);
+    expect(parsed.severity).toBeNull();
+    expect(parsed.estimatedCost).toBe(0);
+    expect(parsed.affectedParts).toEqual([]);
+  });
+
+  it("normalizes severity casing", () => {
+    expect(parseImageAnalysis('{"severity":"CRITICAL"}').severity).toBe(
+      "critical"
+    );
+  });
+
+  it("rejects responses that are not JSON", () => {
+    expect(() => parseImageAnalysis("not json")).toThrow();
+    expect(() => parseImageAnalysis("null")).toThrow();
+  });
+});
+
+describe("fixture analyzer", () => {
+  it("returns the same scene for the same incident type", async () => {
+    const analyzer = createFixtureAnalyzer();
+    const request = {
+      incidentType: "injury" as const,
+      imageUrls: [],
+      videoUrls: [],
+    };
+
+    const first = await analyzer.analyzeScene(request);
+    const second = await analyzer.analyzeScene(request);
+
+    expect(first).toEqual(second);
+    expect(first.model).toBe("fixture");
+    expect(first.result.vehicleCount).toBe(2);
+  });
+
+  it("parses scene responses from any provider", () => {
+    expect(
+      parseSceneAnalysis(
+        '{"vehicleCount":"2","impactPoint":"خلفي","estimatedSpeed":64.6}'
+      )
+    ).toEqual({
+      vehicleCount: 2,
+      impactPoint: "خلفي",
+      trajectoryAnalysis: "",
+      estimatedSpeed: 65,
+    });
+  });
+});
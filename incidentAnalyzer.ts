@@ -0,0 +1,479 @@
+import { readFileSync } from "node:fs";
+import type { Incident } from "../drizzle/schema";
+import type { InvokeParams } from "./_core/llm";
+
+/**
+ * مزودو تحليل الحوادث (الصور والمشهد)
+ * المزود الفعلي يُختار من متغير البيئة INCIDENT_ANALYZER:
+ * - llm: نموذج اللغة متعدد الوسائط عبر invokeLLM (الافتراضي)
+ * - yolo: خدمة YOLOv8 بلغة Python عبر HTTP (YOLO_SERVICE_URL، YOLO_SERVICE_API_KEY)
+ * - fixture: نتائج ثابتة من ملف (ANALYZER_FIXTURES_PATH) أو مدمجة، للتطوير والاختبارات
+ */
+
+export type AnalyzerName = "llm" | "yolo" | "fixture";
+
+export type AnalysisRequest = {
+  incidentType: Incident["incidentType"];
+  imageUrls: string[];
+  videoUrls: string[];
+};
+
+export type ImageDamageAnalysis = {
+  description: string;
+  damageLevel: number;
+  affectedParts: string[];
+  severity: Incident["severity"] | null;
+  estimatedCost: number;
+  recommendations: string[];
+};
+
+export type SceneAnalysis = {
+  vehicleCount: number;
+  impactPoint: string;
+  trajectoryAnalysis: string;
+  estimatedSpeed: number;
+};
+
+export type AnalyzerOutput<T> = {
+  model: string;
+  // إصدار التعليمات أو النموذج لإعادة إنتاج النتيجة
+  promptVersion: string;
+  rawResponse: string;
+  result: T;
+};
+
+export interface IncidentAnalyzer {
+  name: AnalyzerName;
+  analyzeImages(
+    request: AnalysisRequest
+  ): Promise<AnalyzerOutput<ImageDamageAnalysis>>;
+  analyzeScene(
+    request: AnalysisRequest
+  ): Promise<AnalyzerOutput<SceneAnalysis>>;
+}
+
+export type ImageAnalysisErrorCode = "not_found" | "not_acceptable";
+
+/**
+ * خطأ في اعتماد تحليل صور محفوظ
+ */
+export class ImageAnalysisError extends Error {
+  constructor(
+    public code: ImageAnalysisErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ImageAnalysisError";
+  }
+}
+
+const SEVERITIES: Incident["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "critical",
+];
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : 0;
+};
+
+const toStrings = (value: unknown) =>
+  Array.isArray(value) ? value.map(String).filter(Boolean) : [];
+
+function toObject(content: string): Record<string, unknown> {
+  const data = JSON.parse(content) as unknown;
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Analysis response is not a JSON object");
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * قراءة تحليل الأضرار بتسامح: القيم الخارجة عن النطاق تُقصّ، والخطورة غير المعروفة تصبح null
+ * يرمي خطأ إذا لم يكن الرد كائن JSON
+ */
+export function parseImageAnalysis(content: string): ImageDamageAnalysis {
+  const data = toObject(content);
+  const severity = String(data.severity ?? "").toLowerCase();
+
+  return {
+    description: typeof data.description === "string" ? data.description : "",
+    damageLevel: Math.round(
+      Math.min(100, Math.max(0, toNumber(data.damageLevel)))
+    ),
+    affectedParts: toStrings(data.affectedParts),
+    severity: SEVERITIES.includes(severity as Incident["severity"])
+      ? (severity as Incident["severity"])
+      : null,
+    estimatedCost: Math.max(0, Math.round(toNumber(data.estimatedCost))),
+    recommendations: toStrings(data.recommendations),
+  };
+}
+
+export function parseSceneAnalysis(content: string): SceneAnalysis {
+  const data = toObject(content);
+
+  return {
+    vehicleCount: Math.max(0, Math.round(toNumber(data.vehicleCount))),
+    impactPoint: typeof data.impactPoint === "string" ? data.impactPoint : "",
+    trajectoryAnalysis:
+      typeof data.trajectoryAnalysis === "string"
+        ? data.trajectoryAnalysis
+        : "",
+    estimatedSpeed: Math.max(0, Math.round(toNumber(data.estimatedSpeed))),
+  };
+}
+
+/**
+ * مشهد بلا وسائط: لا يُفترض عدد مركبات أو سرعة
+ */
+export function emptySceneAnalysis(): SceneAnalysis {
+  return {
+    vehicleCount: 0,
+    impactPoint: "غير محدد",
+    trajectoryAnalysis: "لا توجد وسائط كافية للتحليل",
+    estimatedSpeed: 0,
+  };
+}
+
+// المزودون الخارجيون لا يُستدعون بلا وسائط حتى لا يخمّنوا مشهداً لم يروه
+const hasMedia = (request: AnalysisRequest) =>
+  request.imageUrls.length > 0 || request.videoUrls.length > 0;
+
+const noMediaScene = (): AnalyzerOutput<SceneAnalysis> => ({
+  model: "none",
+  promptVersion: "none",
+  rawResponse: "",
+  result: emptySceneAnalysis(),
+});
+
+// ===== LLM =====
+
+// يُرفع عند أي تغيير في نص التعليمات أو صيغة الرد
+export const LLM_PROMPT_VERSION = "1";
+
+export function buildImageAnalysisRequest(
+  incidentType: Incident["incidentType"],
+  imageUrls: string[]
+): InvokeParams {
+  return {
+    messages: [
+      {
+        role: "system",
+        content: `أنت متخصص في تحليل حوادث المرور. قم بتحليل الصور واستخراج البيانات المهمة بصيغة JSON.`,
+      },
+      {
+        role: "user",
+        content: [
+          ...imageUrls.map(url => ({
+            type: "image_url" as const,
+            image_url: { url, detail: "high" as const },
+          })),
+          {
+            type: "text",
+            text: `النوع المبلغ عنه: ${incidentType}
+
+استخرج البيانات التالية بصيغة JSON:
+{
+  "description": "وصف مفصل للحادث",
+  "damageLevel": "نسبة الضرر من 0-100",
+  "affectedParts": ["الأجزاء المتضررة"],
+  "severity": "مستوى الخطورة: low/medium/high/critical",
+  "estimatedCost": "التكلفة المقدرة بالريال",
+  "recommendations": ["التوصيات"]
+}`,
+          },
+        ],
+      },
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "incident_analysis",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            description: { type: "string" },
+            damageLevel: { type: "number" },
+            affectedParts: { type: "array", items: { type: "string" } },
+            severity: { type: "string" },
+            estimatedCost: { type: "number" },
+            recommendations: { type: "array", items: { type: "string" } },
+          },
+          required: [
+            "description",
+            "damageLevel",
+            "affectedParts",
+            "severity",
+            "estimatedCost",
+            "recommendations",
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+  };
+}
+
+function buildSceneAnalysisRequest(request: AnalysisRequest): InvokeParams {
+  return {
+    messages: [
+      {
+        role: "system",
+        content: `أنت متخصص في إعادة بناء مشاهد حوادث المرور من الصور ومقاطع الفيديو. أجب بصيغة JSON فقط.`,
+      },
+      {
+        role: "user",
+        content: [
+          ...request.imageUrls.map(url => ({
+            type: "image_url" as const,
+            image_url: { url, detail: "high" as const },
+          })),
+          ...request.videoUrls.map(url => ({
+            type: "file_url" as const,
+            file_url: { url, mime_type: "video/mp4" as const },
+          })),
+          {
+            type: "text",
+            text: `النوع المبلغ عنه: ${request.incidentType}
+
+استخرج: عدد المركبات المتورطة، نقطة الاصطدام، وصف مسار المركبات، والسرعة التقديرية للمركبة الأسرع بالكيلومتر في الساعة (0 إذا كانت متوقفة).`,
+          },
+        ],
+      },
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "incident_scene",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            vehicleCount: { type: "number" },
+            impactPoint: { type: "string" },
+            trajectoryAnalysis: { type: "string" },
+            estimatedSpeed: { type: "number" },
+          },
+          required: [
+            "vehicleCount",
+            "impactPoint",
+            "trajectoryAnalysis",
+            "estimatedSpeed",
+          ],
+          additionalProperties: false,
+        },
+      },
+    },
+  };
+}
+
+export function createLlmAnalyzer(): IncidentAnalyzer {
+  const invoke = async <T>(
+    params: InvokeParams,
+    parse: (content: string) => T
+  ): Promise<AnalyzerOutput<T>> => {
+    const { invokeLLM } = await import("./_core/llm");
+    const response = await invokeLLM(params);
+    const content = response.choices[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("Analysis response has no text content");
+    }
+    return {
+      model: response.model,
+      promptVersion: LLM_PROMPT_VERSION,
+      rawResponse: content,
+      result: parse(content),
+    };
+  };
+
+  return {
+    name: "llm",
+    analyzeImages: request =>
+      invoke(
+        buildImageAnalysisRequest(request.incidentType, request.imageUrls),
+        parseImageAnalysis
+      ),
+    analyzeScene: async request =>
+      hasMedia(request)
+        ? invoke(buildSceneAnalysisRequest(request), parseSceneAnalysis)
+        : noMediaScene(),
+  };
+}
+
+// ===== YOLOv8 =====
+
+/**
+ * محوّل خدمة YOLOv8 (Python)
+ * POST {url}/analyze/images و {url}/analyze/scene بالجسم
+ * { incidentType, imageUrls, videoUrls }
+ * والرد JSON بحقول تحليل الأضرار أو المشهد نفسها، مع model و modelVersion
+ */
+export function createYoloAnalyzer(config: {
+  url: string;
+  apiKey?: string;
+}): IncidentAnalyzer {
+  const baseUrl = config.url.replace(/\/+$/, "");
+
+  const post = async <T>(
+    path: string,
+    request: AnalysisRequest,
+    parse: (content: string) => T
+  ): Promise<AnalyzerOutput<T>> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(request),
+    });
+
+    const content = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `YOLO service rejected request (${response.status}): ${content}`
+      );
+    }
+
+    const data = toObject(content);
+    return {
+      model: typeof data.model === "string" ? data.model : "yolov8",
+      promptVersion:
+        typeof data.modelVersion === "string" ? data.modelVersion : "unknown",
+      rawResponse: content,
+      result: parse(content),
+    };
+  };
+
+  return {
+    name: "yolo",
+    analyzeImages: request =>
+      post("/analyze/images", request, parseImageAnalysis),
+    analyzeScene: async request =>
+      hasMedia(request)
+        ? post("/analyze/scene", request, parseSceneAnalysis)
+        : noMediaScene(),
+  };
+}
+
+// ===== Fixtures =====
+
+export type AnalyzerFixtures = Record<
+  Incident["incidentType"],
+  { images: ImageDamageAnalysis; scene: SceneAnalysis }
+>;
+
+export const DEFAULT_ANALYZER_FIXTURES: AnalyzerFixtures = {
+  injury: {
+    images: {
+      description: "اصطدام أمامي بين مركبتين مع أضرار كبيرة في المقدمة",
+      damageLevel: 70,
+      affectedParts: ["الصدام الأمامي", "غطاء المحرك", "المصابيح الأمامية"],
+      severity: "high",
+      estimatedCost: 18000,
+      recommendations: ["توجيه الإسعاف", "سحب المركبتين"],
+    },
+    scene: {
+      vehicleCount: 2,
+      impactPoint: "نقطة الاصطدام الأمامية",
+      trajectoryAnalysis: "سيارة A كانت تسير بسرعة عالية",
+      estimatedSpeed: 85,
+    },
+  },
+  breakdown: {
+    images: {
+      description: "مركبة متوقفة على جانب الطريق بدون أضرار ظاهرة",
+      damageLevel: 5,
+      affectedParts: ["المحرك"],
+      severity: "low",
+      estimatedCost: 1500,
+      recommendations: ["توجيه السطحة"],
+    },
+    scene: {
+      vehicleCount: 1,
+      impactPoint: "محرك السيارة",
+      trajectoryAnalysis: "السيارة توقفت فجأة",
+      estimatedSpeed: 0,
+    },
+  },
+  traffic: {
+    images: {
+      description: "تصادم بسيط بين عدة مركبات",
+      damageLevel: 25,
+      affectedParts: ["الصدام الخلفي", "الصدام الأمامي"],
+      severity: "medium",
+      estimatedCost: 4500,
+      recommendations: ["تسيير الحركة", "تبادل بيانات التأمين"],
+    },
+    scene: {
+      vehicleCount: 3,
+      impactPoint: "حادث خفيف",
+      trajectoryAnalysis: "تصادم بسيط بين السيارات",
+      estimatedSpeed: 30,
+    },
+  },
+};
+
+/**
+ * مزود ثابت: نفس نوع الحادث يعطي دائماً نفس النتيجة، دون شبكة
+ */
+export function createFixtureAnalyzer(
+  fixtures: AnalyzerFixtures = DEFAULT_ANALYZER_FIXTURES
+): IncidentAnalyzer {
+  const output = <T>(result: T): AnalyzerOutput<T> => ({
+    model: "fixture",
+    promptVersion: "fixture-1",
+    rawResponse: JSON.stringify(result),
+    result,
+  });
+
+  return {
+    name: "fixture",
+    analyzeImages: async request =>
+      output(fixtures[request.incidentType].images),
+    analyzeScene: async request => output(fixtures[request.incidentType].scene),
+  };
+}
+
+let _analyzer: IncidentAnalyzer | null = null;
+
+/**
+ * المزود المفعل حسب إعدادات البيئة
+ */
+export function getIncidentAnalyzer(): IncidentAnalyzer {
+  if (_analyzer) return _analyzer;
+
+  const mode = process.env.INCIDENT_ANALYZER ?? "llm";
+
+  if (mode === "yolo") {
+    if (!process.env.YOLO_SERVICE_URL) {
+      throw new Error("INCIDENT_ANALYZER=yolo requires YOLO_SERVICE_URL");
+    }
+    _analyzer = createYoloAnalyzer({
+      url: process.env.YOLO_SERVICE_URL,
+      apiKey: process.env.YOLO_SERVICE_API_KEY,
+    });
+  } else if (mode === "fixture") {
+    const fixturesPath = process.env.ANALYZER_FIXTURES_PATH;
+    _analyzer = createFixtureAnalyzer(
+      fixturesPath
+        ? (JSON.parse(readFileSync(fixturesPath, "utf8")) as AnalyzerFixtures)
+        : DEFAULT_ANALYZER_FIXTURES
+    );
+  } else {
+    _analyzer = createLlmAnalyzer();
+  }
+
+  return _analyzer;
+}
+
+/**
+ * استبدال المزود (للاختبارات)
+ */
+export function setIncidentAnalyzer(analyzer: IncidentAnalyzer | null): void {
+  _analyzer = analyzer;
+}
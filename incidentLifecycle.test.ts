@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertIncidentTransition,
+  canTransitionIncident,
+  IncidentTransitionError,
+  isReopenTransition,
+} from "./incidentLifecycle";
+
+describe("incident lifecycle", () => {
+  it("allows the forward path", () => {
+    expect(canTransitionIncident("pending", "assigned")).toBe(true);
+    expect(canTransitionIncident("assigned", "in_progress")).toBe(true);
+    expect(canTransitionIncident("in_progress", "resolved")).toBe(true);
+    expect(canTransitionIncident("resolved", "closed")).toBe(true);
+  });
+
+  it("rejects skipping and moving backwards", () => {
+    expect(canTransitionIncident("pending", "resolved")).toBe(false);
+    expect(canTransitionIncident("closed", "pending")).toBe(false);
+    expect(canTransitionIncident("in_progress", "assigned")).toBe(false);
+  });
+
+  it("reopens resolved and closed incidents into in_progress", () => {
+    expect(isReopenTransition("resolved", "in_progress")).toBe(true);
+    expect(isReopenTransition("closed", "in_progress")).toBe(true);
+    expect(isReopenTransition("closed", "pending")).toBe(false);
+  });
+
+  it("throws a typed error for illegal transitions", () => {
+    try {
+      assertIncidentTransition("closed", "pending");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IncidentTransitionError);
+      expect(error).toMatchObject({
+        code: "illegal_transition",
+        from: "closed",
+        to: "pending",
+      });
+    }
+  });
+
+  it("requires a reason to resolve, close or reopen", () => {
+    expect(() => assertIncidentTransition("in_progress", "resolved")).toThrow(
+      IncidentTransitionError
+    );
+    expect(() => assertIncidentTransition("resolved", "closed", "  ")).toThrow(
+      /reason is required/
+    );
+    expect(() =>
+      assertIncidentTransition("closed", "in_progress", "New evidence")
+    ).not.toThrow();
+    expect(() => assertIncidentTransition("pending", "assigned")).not.toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import type { Incident } from "../drizzle/schema";
+
+/**
+ * دورة حياة الحادث
+ * pending → assigned → in_progress → resolved → closed
+ * مع إمكانية إعادة فتح الحادث المحلول أو المغلق (يعود إلى in_progress)
+ */
+
+export type IncidentStatus = Incident["status"];
+
+export const INCIDENT_LIFECYCLE: Record<
+  IncidentStatus,
+  readonly IncidentStatus[]
+> = {
+  pending: ["assigned"],
+  assigned: ["in_progress"],
+  in_progress: ["resolved"],
+  resolved: ["closed"],
+  closed: [],
+};
+
+/**
+ * قواعد إعادة الفتح: الحالة المصدر → الحالة التي يعود إليها الحادث
+ */
+export const INCIDENT_REOPEN_TRANSITIONS: Partial<
+  Record<IncidentStatus, IncidentStatus>
+> = {
+  resolved: "in_progress",
+  closed: "in_progress",
+};
+
+export type IncidentTransitionErrorCode =
+  "illegal_transition" | "reason_required" | "not_found";
+
+/**
+ * خطأ انتقال غير مسموح في دورة حياة الحادث
+ */
+export class IncidentTransitionError extends Error {
+  constructor(
+    public code: IncidentTransitionErrorCode,
+    // null إذا لم يوجد الحادث
+    public from: IncidentStatus | null,
+    public to: IncidentStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = "IncidentTransitionError";
+  }
+}
+
+export function isReopenTransition(
+  from: IncidentStatus,
+  to: IncidentStatus
+): boolean {
+  return INCIDENT_REOPEN_TRANSITIONS[from] === to;
+}
+
+export function canTransitionIncident(
+  from: IncidentStatus,
+  to: IncidentStatus
+): boolean {
+  return INCIDENT_LIFECYCLE[from].includes(to) || isReopenTransition(from, to);
+}
+
+/**
+ * الحل والإغلاق وإعادة الفتح تتطلب ذكر السبب
+ */
+export function transitionRequiresReason(
+  from: IncidentStatus,
+  to: IncidentStatus
+): boolean {
+  return to === "resolved" || to === "closed" || isReopenTransition(from, to);
+}
+
+/**
+ * التحقق من صحة الانتقال، يرمي IncidentTransitionError إذا لم يكن مسموحاً
+ */
+export function assertIncidentTransition(
+  from: IncidentStatus,
+  to: IncidentStatus,
+  reason?: string
+): void {
+  if (!canTransitionIncident(from, to)) {
+    throw new IncidentTransitionError(
+      "illegal_transition",
+      from,
+      to,
+      `Illegal incident status transition: ${from} → ${to}`
+    );
+  }
+
+  if (transitionRequiresReason(from, to) && !reason?.trim()) {
+    throw new IncidentTransitionError(
+      "reason_required",
+      from,
+      to,
+      `A reason is required to move an incident from ${from} to ${to}`
+    );
+  }
+}
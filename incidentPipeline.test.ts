@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  PIPELINE_STEPS,
+  pipelineStepKey,
+  summarizePipeline,
+} from "./incidentPipeline";
+
+const step = (
+  name: string,
+  status: "pending" | "running" | "completed" | "failed",
+  error: string | null = null
+) => ({ step: name, status, error });
+
+describe("pipelineStepKey", () => {
+  it("is stable per incident and step", () => {
+    expect(pipelineStepKey(42, "smart_report")).toBe(
+      "incident:42:smart_report"
+    );
+    expect(pipelineStepKey(42, "dispatch:ambulance")).toBe(
+      "incident:42:dispatch:ambulance"
+    );
+  });
+});
+
+describe("summarizePipeline", () => {
+  it("reports an incident that has not been processed", () => {
+    expect(summarizePipeline([])).toEqual({
+      state: "not_started",
+      failedStep: null,
+      error: null,
+    });
+  });
+
+  it("points at the failed step and its reason", () => {
+    expect(
+      summarizePipeline([
+        step("smart_report", "completed"),
+        step("route_services", "failed", "Database not available"),
+      ])
+    ).toEqual({
+      state: "failed",
+      failedStep: "route_services",
+      error: "Database not available",
+    });
+  });
+
+  it("stays running until every dispatch step completes", () => {
+    const main = PIPELINE_STEPS.map(name => step(name, "completed"));
+
+    expect(
+      summarizePipeline([...main, step("dispatch:ambulance", "running")]).state
+    ).toBe("running");
+    expect(
+      summarizePipeline([...main, step("dispatch:ambulance", "completed")])
+        .state
+    ).toBe("completed");
+  });
+
+  it("is running while main steps remain", () => {
+    expect(summarizePipeline([step("smart_report", "completed")]).state).toBe(
+      "running"
+    );
+  });
+});
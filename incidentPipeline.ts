@@ -0,0 +1,136 @@
+import type { IncidentPipelineStep } from "../drizzle/schema";
+import {
+  claimPipelineStep,
+  finishPipelineStep,
+  getIncidentPipelineSteps,
+} from "./db";
+
+/**
+ * نقاط الاستئناف للمعالجة التلقائية
+ * كل خطوة لها مفتاح ثابت لكل حادث (incident:{id}:{step})، وتُسجل حالتها وناتجها،
+ * فإعادة التشغيل تتخطى الخطوات المكتملة وتستخدم ناتجها، ولا تنفذ نسختان الخطوة نفسها معاً
+ */
+
+// خطوات processIncidentAutomatically بالترتيب، وخطوات dispatch:{serviceType} تضاف لكل خدمة
+export const PIPELINE_STEPS = [
+  "smart_report",
+  "route_services",
+  "alerts",
+  "status_update",
+  "report_delivery",
+] as const;
+
+export type PipelineStepName =
+  (typeof PIPELINE_STEPS)[number] | `dispatch:${string}`;
+
+// مدة حجز الخطوة، بعدها تُعتبر النسخة المنفذة متوقفة ويمكن استئنافها
+const STEP_LEASE_MS = 10 * 60 * 1000;
+
+export function pipelineStepKey(
+  incidentId: number,
+  step: PipelineStepName
+): string {
+  return `incident:${incidentId}:${step}`;
+}
+
+/**
+ * الخطوة قيد التنفيذ في نسخة أخرى
+ */
+export class PipelineStepBusyError extends Error {
+  constructor(public key: string) {
+    super(`Pipeline step ${key} is already running`);
+    this.name = "PipelineStepBusyError";
+  }
+}
+
+/**
+ * تنفيذ خطوة مرة واحدة
+ * @returns ناتج الخطوة، أو ناتجها المحفوظ إذا كانت مكتملة من قبل
+ */
+export async function runPipelineStep<T>(
+  incidentId: number,
+  step: PipelineStepName,
+  run: () => Promise<T>
+): Promise<T> {
+  const key = pipelineStepKey(incidentId, step);
+  const claim = await claimPipelineStep(
+    incidentId,
+    step,
+    key,
+    new Date(Date.now() + STEP_LEASE_MS)
+  );
+
+  if (!claim.claimed) {
+    if (claim.status === "completed") return claim.result as T;
+    throw new PipelineStepBusyError(key);
+  }
+
+  try {
+    const result = await run();
+    await finishPipelineStep(claim.id, claim.attempts, {
+      status: "completed",
+      result,
+    });
+    return result;
+  } catch (error) {
+    await finishPipelineStep(claim.id, claim.attempts, {
+      status: "failed",
+      error: (error as Error).message,
+    });
+    throw error;
+  }
+}
+
+export type PipelineState = {
+  state: "not_started" | "running" | "completed" | "failed";
+  failedStep: string | null;
+  error: string | null;
+};
+
+/**
+ * الحالة الإجمالية من حالات الخطوات
+ * مكتملة فقط إذا اكتملت كل الخطوات الرئيسية وكل خطوات التوجيه المضافة
+ */
+export function summarizePipeline(
+  steps: Pick<IncidentPipelineStep, "step" | "status" | "error">[]
+): PipelineState {
+  if (steps.length === 0) {
+    return { state: "not_started", failedStep: null, error: null };
+  }
+
+  const failed = steps.find(step => step.status === "failed");
+  if (failed) {
+    return { state: "failed", failedStep: failed.step, error: failed.error };
+  }
+
+  const completed = new Set(
+    steps.filter(step => step.status === "completed").map(step => step.step)
+  );
+  const done =
+    PIPELINE_STEPS.every(step => completed.has(step)) &&
+    completed.size === steps.length;
+
+  return {
+    state: done ? "completed" : "running",
+    failedStep: null,
+    error: null,
+  };
+}
+
+/**
+ * حالة المعالجة التلقائية للحادث مع تفاصيل خطواتها
+ */
+export async function getIncidentPipeline(incidentId: number) {
+  const steps = await getIncidentPipelineSteps(incidentId);
+  return {
+    ...summarizePipeline(steps),
+    steps: steps.map(step => ({
+      step: step.step,
+      status: step.status,
+      attempts: step.attempts,
+      error: step.error,
+      startedAt: step.startedAt,
+      completedAt: step.completedAt,
+    })),
+  };
+}
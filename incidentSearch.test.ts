@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { boundingBoxAround, distanceKm } from "./geo";
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  escapeLikePattern,
+  incidentSortValue,
+  InvalidSearchCursorError,
+} from "./incidentSearch";
+
+describe("incident search", () => {
+  const sort = { field: "createdAt", direction: "desc" } as const;
+
+  it("round-trips a cursor for the same sort", () => {
+    const cursor = { ...sort, value: 1_700_000_000_000, id: 42 };
+    expect(decodeSearchCursor(encodeSearchCursor(cursor), sort)).toEqual(
+      cursor
+    );
+  });
+
+  it("rejects cursors issued for another sort or tampered with", () => {
+    const encoded = encodeSearchCursor({ ...sort, value: 1, id: 1 });
+    expect(() =>
+      decodeSearchCursor(encoded, { field: "severity", direction: "desc" })
+    ).toThrow(InvalidSearchCursorError);
+    expect(() => decodeSearchCursor("not-a-cursor", sort)).toThrow(
+      InvalidSearchCursorError
+    );
+    expect(() =>
+      decodeSearchCursor(
+        Buffer.from(JSON.stringify({ ...sort, id: 1 })).toString("base64url"),
+        sort
+      )
+    ).toThrow(InvalidSearchCursorError);
+  });
+
+  it("ranks severity for sorting", () => {
+    const incident = {
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+      severity: "high" as const,
+    };
+    expect(incidentSortValue(incident, "severity")).toBeGreaterThan(
+      incidentSortValue({ ...incident, severity: "medium" }, "severity")
+    );
+  });
+
+  it("escapes LIKE wildcards in free text", () => {
+    expect(escapeLikePattern("100%_ok\\")).toBe("100\\%\\_ok\\\\");
+  });
+
+  it("builds a bounding box that contains the search radius", () => {
+    const center = { latitude: 24.7136, longitude: 46.6753 };
+    const box = boundingBoxAround(center, 10);
+    expect(
+      distanceKm(center, { latitude: box.north, longitude: center.longitude })
+    ).toBeCloseTo(10, 1);
+    expect(
+      distanceKm(center, { latitude: center.latitude, longitude: box.east })
+    ).toBeGreaterThanOrEqual(9.99);
+  });
+
+  it("wraps the bounding box across the antimeridian", () => {
+    const box = boundingBoxAround({ latitude: 0, longitude: 179.99 }, 50);
+    expect(box.west).toBeGreaterThan(box.east);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Incident } from "../drizzle/schema";
+import type { BoundingBox, Coordinates } from "./geo";
+
+/**
+ * البحث في الحوادث لشاشة مركز العمليات
+ * التصفية والترتيب والترقيم بمؤشر ثابت (keyset): كل صفحة تبدأ بعد آخر صف في الصفحة السابقة،
+ * فلا تتكرر الصفوف ولا تضيع عند إضافة حوادث جديدة أثناء التصفح
+ */
+
+export type IncidentSortField = "createdAt" | "updatedAt" | "severity";
+export type SortDirection = "asc" | "desc";
+
+export type IncidentSearchFilters = {
+  incidentTypes?: Incident["incidentType"][];
+  statuses?: Incident["status"][];
+  severities?: Incident["severity"][];
+  reporterId?: number;
+  createdFrom?: Date;
+  // نهاية الفترة غير مشمولة
+  createdTo?: Date;
+  // بحث نصي في الموقع والوصف
+  text?: string;
+  bounds?: BoundingBox;
+  near?: Coordinates & { radiusKm: number };
+  // حوادث الجهة فقط (لأدوار الجهات)
+  agency?: string;
+};
+
+export type IncidentSearchSort = {
+  field: IncidentSortField;
+  direction: SortDirection;
+};
+
+export type IncidentSearchCursor = {
+  field: IncidentSortField;
+  direction: SortDirection;
+  // قيمة الترتيب لآخر صف: وقت بالميلي ثانية، أو رتبة الخطورة
+  value: number;
+  id: number;
+};
+
+export type IncidentFacetCounts = {
+  incidentType: Record<Incident["incidentType"], number>;
+  status: Record<Incident["status"], number>;
+  severity: Record<Incident["severity"], number>;
+};
+
+export const INCIDENT_SEVERITY_RANK: Record<Incident["severity"], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+export class InvalidSearchCursorError extends Error {
+  constructor(message = "Invalid or expired search cursor") {
+    super(message);
+    this.name = "InvalidSearchCursorError";
+  }
+}
+
+/**
+ * قيمة الترتيب لحادث، بنفس صيغة المؤشر
+ */
+export function incidentSortValue(
+  incident: Pick<Incident, "createdAt" | "updatedAt" | "severity">,
+  field: IncidentSortField
+): number {
+  if (field === "severity") return INCIDENT_SEVERITY_RANK[incident.severity];
+  return incident[field].getTime();
+}
+
+export function encodeSearchCursor(cursor: IncidentSearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * فك المؤشر والتحقق من أنه صادر لنفس الترتيب المطلوب
+ */
+export function decodeSearchCursor(
+  encoded: string,
+  sort: IncidentSearchSort
+): IncidentSearchCursor {
+  let cursor: Partial<IncidentSearchCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidSearchCursorError();
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.value !== "number" ||
+    !Number.isFinite(cursor.value) ||
+    !Number.isInteger(cursor.id)
+  ) {
+    throw new InvalidSearchCursorError();
+  }
+  if (cursor.field !== sort.field || cursor.direction !== sort.direction) {
+    throw new InvalidSearchCursorError(
+      "Search cursor was issued for a different sort order"
+    );
+  }
+
+  return cursor as IncidentSearchCursor;
+}
+
+/**
+ * تهريب رموز LIKE حتى يُبحث عن النص حرفياً
+ */
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+export function emptyFacetCounts(): IncidentFacetCounts {
+  return {
+    incidentType: { injury: 0, breakdown: 0, traffic: 0 },
+    status: {
+      pending: 0,
+      assigned: 0,
+      in_progress: 0,
+      resolved: 0,
+      closed: 0,
+    },
+    severity: { low: 0, medium: 0, high: 0, critical: 0 },
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { jobRetryDelayMs, JobTimeoutError, withTimeout } from "./jobQueue";
+
+describe("jobRetryDelayMs", () => {
+  it("doubles from 30 seconds up to 30 minutes", () => {
+    expect(jobRetryDelayMs(1)).toBe(30 * 1000);
+    expect(jobRetryDelayMs(2)).toBe(60 * 1000);
+    expect(jobRetryDelayMs(4)).toBe(4 * 60 * 1000);
+    expect(jobRetryDelayMs(10)).toBe(30 * 60 * 1000);
+  });
+});
+
+describe("withTimeout", () => {
+  it("returns the result of work that finishes in time", async () => {
+    await expect(withTimeout(Promise.resolve("done"), 1000)).resolves.toBe(
+      "done"
+    );
+  });
+
+  it("rejects with JobTimeoutError when the work is too slow", async () => {
+    const slow = new Promise(resolve => setTimeout(resolve, 200, "late"));
+    await expect(withTimeout(slow, 10)).rejects.toBeInstanceOf(JobTimeoutError);
+  });
+
+  it("passes through the work's own failure", async () => {
+    await expect(
+      withTimeout(Promise.reject(new Error("LLM unavailable")), 1000)
+    ).rejects.toThrow("LLM unavailable");
+  });
+});
@@ -0,0 +1,332 @@
+import type { Job } from "../drizzle/schema";
+import {
+  addIncidentHistory,
+  claimJob,
+  createJob,
+  finishJobAttempt,
+  getDueJobs,
+  getJobById,
+  requeueDeadJob,
+} from "./db";
+import type { ServiceType } from "./dispatch";
+import type { DispatchPriority } from "./dispatchRules";
+import { mapWithConcurrency } from "./concurrency";
+
+/**
+ * طابور مهام الخلفية على قاعدة البيانات
+ * العمل البطيء أو المعتمد على خدمات خارجية (تحليل الصور، التقرير الذكي، التوجيه، الإشعارات)
+ * يُنفذ خارج الطلب مع مهلة لكل محاولة، وإعادة المحاولة بتأخير متزايد،
+ * والمهام التي تستنفد محاولاتها تبقى "ميتة" حتى يعيد المشغل تشغيلها
+ */
+
+export type JobPayloads = {
+  image_analysis: {
+    incidentId: number;
+    mediaIds?: number[];
+    imageUrls?: string[];
+    performedBy?: number;
+  };
+  smart_report: { incidentId: number };
+  dispatch: {
+    incidentId: number;
+    serviceType: ServiceType;
+    priority?: DispatchPriority;
+    performedBy?: number;
+    // سبب الطلب من قرار التوجيه، للسجل
+    reason?: string;
+  };
+  notification: { incidentId: number };
+};
+
+export type JobType = keyof JobPayloads;
+
+type JobDefinition<T extends JobType> = {
+  timeoutMs: number;
+  maxAttempts: number;
+  // القيمة المعادة تُحفظ نتيجةً للمهمة
+  run: (payload: JobPayloads[T]) => Promise<unknown>;
+};
+
+// المعالجات تُحمّل عند التنفيذ لأن وحداتها تضيف مهاماً بدورها
+const JOB_DEFINITIONS: { [T in JobType]: JobDefinition<T> } = {
+  image_analysis: {
+    timeoutMs: 2 * 60 * 1000,
+    maxAttempts: 3,
+    run: async payload => {
+      const { analyzeIncidentImages } = await import("./imageAnalysis");
+      const analysis = await analyzeIncidentImages(payload);
+      // التحليل الفاشل محفوظ بسببه، والمهمة تُعاد لتجرب من جديد
+      if (analysis.status === "failed") {
+        throw new Error(`Analysis #${analysis.id} failed: ${analysis.error}`);
+      }
+      return { analysisId: analysis.id };
+    },
+  },
+  smart_report: {
+    timeoutMs: 5 * 60 * 1000,
+    maxAttempts: 3,
+    run: async ({ incidentId }) => {
+      const { processIncidentAutomatically } =
+        await import("./automationEngine");
+      await processIncidentAutomatically(incidentId);
+    },
+  },
+  dispatch: {
+    timeoutMs: 30 * 1000,
+    maxAttempts: 5,
+    run: async payload => {
+      const { dispatchIncidentService } = await import("./automationEngine");
+      return await dispatchIncidentService(
+        payload.incidentId,
+        payload.serviceType,
+        {
+          priority: payload.priority,
+          performedBy: payload.performedBy,
+          reason: payload.reason,
+        }
+      );
+    },
+  },
+  notification: {
+    timeoutMs: 60 * 1000,
+    maxAttempts: 5,
+    run: async payload => {
+      const { sendSmartReportToParties } = await import("./smartReports");
+      await sendSmartReportToParties(payload);
+    },
+  },
+};
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+// هامش فوق مهلة المهمة قبل أن يعتبر الحجز منتهياً وتُلتقط المهمة من جديد
+const LEASE_MARGIN_MS = 60 * 1000;
+
+/**
+ * التأخير قبل المحاولة التالية: 30 ثانية ثم يتضاعف حتى 30 دقيقة كحد أقصى
+ */
+export function jobRetryDelayMs(attempt: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = "JobTimeoutError";
+  }
+}
+
+/**
+ * انتظار العمل بحد أقصى timeoutMs
+ * العمل نفسه لا يُلغى، لكن نتيجته بعد المهلة تُهمل (finishJobAttempt مشروط برقم المحاولة)
+ */
+export async function withTimeout<T>(
+  work: Promise<T>,
+  timeoutMs: number
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new JobTimeoutError(timeoutMs)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export type JobQueueErrorCode = "not_found" | "not_dead";
+
+/**
+ * خطأ في إدارة المهام
+ */
+export class JobQueueError extends Error {
+  constructor(
+    public code: JobQueueErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "JobQueueError";
+  }
+}
+
+/**
+ * إضافة مهمة للطابور وتشغيل العامل في الخلفية
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { createdBy?: number; runAt?: Date } = {}
+): Promise<{ id: number }> {
+  const definition = JOB_DEFINITIONS[type];
+  const { insertId } = await createJob({
+    type,
+    incidentId: payload.incidentId,
+    payload,
+    maxAttempts: definition.maxAttempts,
+    timeoutMs: definition.timeoutMs,
+    runAt: options.runAt ?? new Date(),
+    createdBy: options.createdBy,
+  });
+
+  if (!options.runAt) kickJobWorker();
+  return { id: insertId };
+}
+
+// تشغيل واحد للعامل في كل نسخة، والطلبات أثناءه تُجمع في تشغيل لاحق واحد
+let workerRun: Promise<void> | null = null;
+let workerRerun = false;
+
+function kickJobWorker() {
+  if (workerRun) {
+    workerRerun = true;
+    return;
+  }
+
+  workerRun = processDueJobs()
+    .then(() => undefined)
+    .catch(error => console.error("[Jobs] Worker run failed:", error))
+    .finally(() => {
+      workerRun = null;
+      if (workerRerun) {
+        workerRerun = false;
+        kickJobWorker();
+      }
+    });
+}
+
+function jobWorkerConcurrency(): number {
+  const value = Number(process.env.JOB_WORKER_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : 4;
+}
+
+async function runJobAttempt(job: Job, now: Date) {
+  const definition = JOB_DEFINITIONS[job.type] as JobDefinition<JobType>;
+
+  // توقف العامل أثناء المحاولة الأخيرة، فلا تُمنح محاولة إضافية
+  if (job.status === "running" && job.attempts >= job.maxAttempts) {
+    await finishJobAttempt(job.id, job.attempts, {
+      status: "dead",
+      error: job.lastError ?? "Worker stopped during the last attempt",
+    });
+    return "dead" as const;
+  }
+
+  const claimed = await claimJob(
+    job.id,
+    job.attempts,
+    new Date(now.getTime() + job.timeoutMs + LEASE_MARGIN_MS)
+  );
+  if (!claimed) return null;
+
+  const attempt = job.attempts + 1;
+  try {
+    const result = await withTimeout(
+      definition.run(job.payload as JobPayloads[JobType]),
+      job.timeoutMs
+    );
+    await finishJobAttempt(job.id, attempt, { status: "completed", result });
+    return "completed" as const;
+  } catch (error) {
+    const message = (error as Error).message;
+
+    if (attempt < job.maxAttempts) {
+      await finishJobAttempt(job.id, attempt, {
+        status: "queued",
+        runAt: new Date(Date.now() + jobRetryDelayMs(attempt)),
+        error: message,
+      });
+      return "retried" as const;
+    }
+
+    const recorded = await finishJobAttempt(job.id, attempt, {
+      status: "dead",
+      error: message,
+    });
+    if (recorded && job.incidentId) {
+      await addIncidentHistory({
+        incidentId: job.incidentId,
+        type: "job.failed",
+        details: `${job.type} job #${job.id} failed after ${attempt} attempts: ${message}`,
+        payload: {
+          previous: "running",
+          next: "dead",
+          jobId: job.id,
+          type: job.type,
+          attempt,
+          error: message,
+        },
+      });
+    }
+    console.error(`[Jobs] ${job.type} job #${job.id} is dead:`, error);
+    return "dead" as const;
+  }
+}
+
+/**
+ * تنفيذ المهام التي حان موعدها، بحد أقصى JOB_WORKER_CONCURRENCY مهمة معاً (4 افتراضياً)
+ */
+export async function processDueJobs(
+  limit = 20,
+  concurrency = jobWorkerConcurrency()
+): Promise<{ completed: number; retried: number; dead: number }> {
+  const now = new Date();
+  const due = await getDueJobs(now, limit);
+  const summary = { completed: 0, retried: 0, dead: 0 };
+
+  const outcomes = await mapWithConcurrency(due, concurrency, job =>
+    runJobAttempt(job, now)
+  );
+  for (const outcome of outcomes) {
+    if (outcome) summary[outcome]++;
+  }
+
+  return summary;
+}
+
+/**
+ * تشغيل العامل دورياً لالتقاط إعادة المحاولات والمهام المجدولة
+ * @returns دالة الإيقاف
+ */
+export function startJobWorker(intervalMs = 15 * 1000): () => void {
+  const timer = setInterval(kickJobWorker, intervalMs);
+  return () => clearInterval(timer);
+}
+
+/**
+ * إعادة تشغيل مهمة ميتة من البداية
+ */
+export async function retryDeadJob(jobId: number, performedBy?: number) {
+  const job = await getJobById(jobId);
+  if (!job) throw new JobQueueError("not_found", "Job not found");
+
+  if (!(await requeueDeadJob(jobId))) {
+    throw new JobQueueError(
+      "not_dead",
+      `Only dead jobs can be re-run (job is ${job.status})`
+    );
+  }
+
+  if (job.incidentId) {
+    await addIncidentHistory({
+      incidentId: job.incidentId,
+      type: "job.rerun",
+      details: `${job.type} job #${job.id} queued again after failing: ${job.lastError ?? "unknown error"}`,
+      payload: {
+        previous: "dead",
+        next: "queued",
+        jobId: job.id,
+        type: job.type,
+        lastError: job.lastError,
+      },
+      performedBy,
+    });
+  }
+
+  kickJobWorker();
+  return { id: jobId, status: "queued" as const };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseExifDateTime,
+  readExifMetadata,
+  sniffMimeType,
+} from "./mediaInspection";
+import { assertUploadAllowed, MediaUploadError } from "./mediaUpload";
+
+/**
+ * صورة JPEG صغيرة بمقطع EXIF (little-endian): وقت الالتقاط، GPS، وصورة مصغرة
+ */
+function jpegWithExif(): Uint8Array {
+  const tiff = new DataView(new ArrayBuffer(232));
+  const bytes = new Uint8Array(tiff.buffer);
+  const text = (offset: number, value: string) =>
+    value
+      .split("")
+      .forEach((c, i) => tiff.setUint8(offset + i, c.charCodeAt(0)));
+  const entry = (
+    offset: number,
+    tag: number,
+    type: number,
+    count: number,
+    value: number
+  ) => {
+    tiff.setUint16(offset, tag, true);
+    tiff.setUint16(offset + 2, type, true);
+    tiff.setUint32(offset + 4, count, true);
+    tiff.setUint32(offset + 8, value, true);
+  };
+  const rationals = (offset: number, values: [number, number][]) =>
+    values.forEach(([n, d], i) => {
+      tiff.setUint32(offset + i * 8, n, true);
+      tiff.setUint32(offset + i * 8 + 4, d, true);
+    });
+
+  text(0, "II");
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, 8, true);
+
+  // IFD0: مؤشرا EXIF و GPS ثم IFD1
+  tiff.setUint16(8, 2, true);
+  entry(10, 0x8769, 4, 1, 38);
+  entry(22, 0x8825, 4, 1, 68);
+  tiff.setUint32(34, 122, true);
+
+  // EXIF: وقت الالتقاط وفرق التوقيت
+  tiff.setUint16(38, 2, true);
+  entry(40, 0x9003, 2, 20, 152);
+  entry(52, 0x9011, 2, 7, 172);
+
+  // GPS
+  tiff.setUint16(68, 4, true);
+  entry(70, 1, 2, 2, 0);
+  text(78, "N");
+  entry(82, 2, 5, 3, 180);
+  entry(94, 3, 2, 2, 0);
+  text(102, "E");
+  entry(106, 4, 5, 3, 204);
+
+  // IFD1: الصورة المصغرة
+  tiff.setUint16(122, 2, true);
+  entry(124, 0x0201, 4, 1, 228);
+  entry(136, 0x0202, 4, 1, 4);
+
+  text(152, "2025:03:01 10:15:30");
+  text(172, "+03:00");
+  rationals(180, [
+    [24, 1],
+    [42, 1],
+    [3000, 100],
+  ]);
+  rationals(204, [
+    [46, 1],
+    [40, 1],
+    [3000, 100],
+  ]);
+  bytes.set([0xff, 0xd8, 0xff, 0xd9], 228);
+
+  const header = Array.from(Buffer.from("Exif\0\0", "binary"));
+  const length = 2 + header.length + bytes.length;
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe1,
+    length >> 8,
+    length & 0xff,
+    ...header,
+    ...Array.from(bytes),
+    0xff,
+    0xd9,
+  ]);
+}
+
+describe("media inspection", () => {
+  it("detects file types from their signature", () => {
+    expect(sniffMimeType(jpegWithExif())).toBe("image/jpeg");
+    expect(
+      sniffMimeType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 13, 10, 26, 10]))
+    ).toBe("image/png");
+    expect(
+      sniffMimeType(new Uint8Array(Buffer.from("\0\0\0\x18ftypisom", "binary")))
+    ).toBe("video/mp4");
+    expect(sniffMimeType(new Uint8Array(Buffer.from("MZ\x90\0")))).toBeNull();
+  });
+
+  it("reads capture time, GPS and the embedded thumbnail", () => {
+    const exif = readExifMetadata(jpegWithExif());
+
+    expect(exif.capturedAt?.toISOString()).toBe("2025-03-01T07:15:30.000Z");
+    expect(exif.location?.latitude).toBeCloseTo(24.708333, 5);
+    expect(exif.location?.longitude).toBeCloseTo(46.675, 5);
+    expect(Array.from(exif.thumbnail ?? [])).toEqual([0xff, 0xd8, 0xff, 0xd9]);
+  });
+
+  it("returns empty metadata for truncated EXIF", () => {
+    const truncated = jpegWithExif().slice(0, 60);
+    expect(readExifMetadata(truncated)).toEqual({
+      capturedAt: null,
+      location: null,
+      thumbnail: null,
+    });
+  });
+
+  it("falls back to the default UTC offset when EXIF has none", () => {
+    expect(
+      parseExifDateTime("2025:03:01 10:15:30", null, 180)?.toISOString()
+    ).toBe("2025-03-01T07:15:30.000Z");
+    expect(parseExifDateTime("0000:00:00 00:00:00", null, 180)).toBeNull();
+  });
+
+  it("enforces upload MIME types and size limits", () => {
+    expect(assertUploadAllowed("image/jpeg", 1024)).toBe("image");
+    expect(() => assertUploadAllowed("application/pdf", 1024)).toThrow(
+      MediaUploadError
+    );
+    expect(() => assertUploadAllowed("image/png", 50 * 1024 * 1024)).toThrow(
+      MediaUploadError
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import type { Coordinates } from "./geo";
+
+/**
+ * فحص ملفات الوسائط المرفوعة
+ * التحقق من النوع الفعلي من أول بايتات الملف (وليس من الامتداد أو ما يرسله العميل)،
+ * واستخراج وقت الالتقاط وموقع GPS والصورة المصغرة المضمنة من بيانات EXIF لصور JPEG
+ */
+
+export type MediaMimeType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/webp"
+  | "image/heic"
+  | "video/mp4"
+  | "video/quicktime"
+  | "video/webm";
+
+export type ExifMetadata = {
+  capturedAt: Date | null;
+  location: Coordinates | null;
+  // الصورة المصغرة JPEG التي تضمّنها الكاميرا في EXIF
+  thumbnail: Uint8Array | null;
+};
+
+const EMPTY_EXIF: ExifMetadata = {
+  capturedAt: null,
+  location: null,
+  thumbnail: null,
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  let text = "";
+  for (let i = start; i < Math.min(start + length, bytes.length); i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+/**
+ * تحديد نوع الملف من توقيعه، أو null إذا لم يكن من الأنواع المدعومة
+ */
+export function sniffMimeType(bytes: Uint8Array): MediaMimeType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    return "image/webp";
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+
+  // حاويات ISO BMFF: الحجم ثم "ftyp" ثم العلامة التجارية
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    const brand = ascii(bytes, 8, 4);
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+    if (brand === "qt  ") return "video/quicktime";
+    return "video/mp4";
+  }
+
+  return null;
+}
+
+/**
+ * قارئ بنية TIFF داخل مقطع EXIF
+ */
+class TiffReader {
+  constructor(
+    private view: DataView,
+    private littleEndian: boolean
+  ) {}
+
+  get length() {
+    return this.view.byteLength;
+  }
+
+  uint16(offset: number) {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number) {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  /**
+   * مدخلات IFD: الوسم ← موضع القيمة وعددها ونوعها
+   */
+  readIfd(offset: number) {
+    const entries = new Map<
+      number,
+      { type: number; count: number; valueOffset: number }
+    >();
+    if (offset <= 0 || offset + 2 > this.length) {
+      return { entries, next: 0 };
+    }
+
+    const count = this.uint16(offset);
+    if (offset + 2 + count * 12 + 4 > this.length) {
+      return { entries, next: 0 };
+    }
+
+    const typeSize: Record<number, number> = {
+      1: 1,
+      2: 1,
+      3: 2,
+      4: 4,
+      5: 8,
+      7: 1,
+      9: 4,
+      10: 8,
+    };
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = this.uint16(entry + 2);
+      const valueCount = this.uint32(entry + 4);
+      const size = (typeSize[type] ?? 1) * valueCount;
+      entries.set(this.uint16(entry), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entry + 8 : this.uint32(entry + 8),
+      });
+    }
+
+    return { entries, next: this.uint32(offset + 2 + count * 12) };
+  }
+
+  ascii(valueOffset: number, count: number): string | null {
+    if (valueOffset + count > this.length) return null;
+    let text = "";
+    for (let i = 0; i < count; i++) {
+      const code = this.view.getUint8(valueOffset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  rationals(valueOffset: number, count: number): number[] | null {
+    if (valueOffset + count * 8 > this.length) return null;
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const numerator = this.uint32(valueOffset + i * 8);
+      const denominator = this.uint32(valueOffset + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : numerator / denominator);
+    }
+    return values;
+  }
+}
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+/**
+ * تحويل وقت EXIF ("YYYY:MM:DD HH:MM:SS") إلى Date
+ * الوقت في EXIF محلي، ويُستخدم فرق التوقيت المسجل إن وجد وإلا utcOffsetMinutes
+ */
+export function parseExifDateTime(
+  value: string,
+  offset: string | null,
+  utcOffsetMinutes: number
+): Date | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  let offsetMinutes = utcOffsetMinutes;
+  const offsetMatch = offset ? /^([+-])(\d{2}):(\d{2})$/.exec(offset) : null;
+  if (offsetMatch) {
+    offsetMinutes =
+      (offsetMatch[1] === "-" ? -1 : 1) *
+      (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3]));
+  }
+
+  const utc =
+    Date.UTC(year!, month! - 1, day!, hour!, minute!, second!) -
+    offsetMinutes * 60000;
+  return Number.isNaN(utc) || year === 0 ? null : new Date(utc);
+}
+
+function findExifSegment(bytes: Uint8Array): Uint8Array | null {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]!;
+    // بداية بيانات الصورة، لا توجد مقاطع بيانات وصفية بعدها
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2]! << 8) | bytes[offset + 3]!;
+    if (
+      marker === 0xe1 &&
+      ascii(bytes, offset + 4, 6) === "Exif\0\0" &&
+      offset + 2 + length <= bytes.length
+    ) {
+      return bytes.subarray(offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * قراءة وقت الالتقاط والموقع والصورة المصغرة من صورة JPEG
+ * الملفات الأخرى أو بيانات EXIF التالفة تعيد قيماً فارغة بدلاً من رمي خطأ
+ */
+export function readExifMetadata(
+  bytes: Uint8Array,
+  utcOffsetMinutes = 180
+): ExifMetadata {
+  if (sniffMimeType(bytes) !== "image/jpeg") return EMPTY_EXIF;
+
+  const segment = findExifSegment(bytes);
+  if (!segment || segment.length < 8) return EMPTY_EXIF;
+
+  const byteOrder = ascii(segment, 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return EMPTY_EXIF;
+
+  try {
+    const tiff = new TiffReader(
+      new DataView(segment.buffer, segment.byteOffset, segment.byteLength),
+      byteOrder === "II"
+    );
+    if (tiff.uint16(2) !== 42) return EMPTY_EXIF;
+
+    const ifd0 = tiff.readIfd(tiff.uint32(4));
+
+    // وقت الالتقاط الأصلي، وإلا وقت آخر تعديل
+    let capturedAt: Date | null = null;
+    const exifPointer = ifd0.entries.get(TAG_EXIF_IFD);
+    const exifIfd = exifPointer
+      ? tiff.readIfd(tiff.uint32(exifPointer.valueOffset)).entries
+      : new Map();
+    const original =
+      exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.entries.get(TAG_DATE_TIME);
+    if (original) {
+      const value = tiff.ascii(original.valueOffset, original.count);
+      const offsetEntry = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+      const offset = offsetEntry
+        ? tiff.ascii(offsetEntry.valueOffset, offsetEntry.count)
+        : null;
+      capturedAt = value
+        ? parseExifDateTime(value, offset, utcOffsetMinutes)
+        : null;
+    }
+
+    let location: Coordinates | null = null;
+    const gpsPointer = ifd0.entries.get(TAG_GPS_IFD);
+    if (gpsPointer) {
+      const gps = tiff.readIfd(tiff.uint32(gpsPointer.valueOffset)).entries;
+      const coordinate = (refTag: number, valueTag: number) => {
+        const ref = gps.get(refTag);
+        const value = gps.get(valueTag);
+        if (!ref || !value || value.count < 3) return null;
+        const parts = tiff.rationals(value.valueOffset, 3);
+        if (!parts) return null;
+        const [degrees, minutes, seconds] = parts as [number, number, number];
+        const sign = ["S", "W"].includes(
+          tiff.ascii(ref.valueOffset, ref.count) ?? ""
+        )
+          ? -1
+          : 1;
+        return sign * (degrees + minutes / 60 + seconds / 3600);
+      };
+      const latitude = coordinate(1, 2);
+      const longitude = coordinate(3, 4);
+      if (
+        latitude !== null &&
+        longitude !== null &&
+        Math.abs(latitude) <= 90 &&
+        Math.abs(longitude) <= 180 &&
+        !(latitude === 0 && longitude === 0)
+      ) {
+        location = { latitude, longitude };
+      }
+    }
+
+    // IFD1 يحمل الصورة المصغرة
+    let thumbnail: Uint8Array | null = null;
+    if (ifd0.next > 0) {
+      const ifd1 = tiff.readIfd(ifd0.next).entries;
+      const start = ifd1.get(TAG_THUMBNAIL_OFFSET);
+      const length = ifd1.get(TAG_THUMBNAIL_LENGTH);
+      if (start && length) {
+        const from = tiff.uint32(start.valueOffset);
+        const size = tiff.uint32(length.valueOffset);
+        const candidate = segment.subarray(from, from + size);
+        if (
+          size > 0 &&
+          from + size <= segment.length &&
+          sniffMimeType(candidate) === "image/jpeg"
+        ) {
+          thumbnail = candidate.slice();
+        }
+      }
+    }
+
+    return { capturedAt, location, thumbnail };
+  } catch {
+    // DataView يرمي RangeError مع الإزاحات التالفة
+    return EMPTY_EXIF;
+  }
+}
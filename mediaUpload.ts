@@ -0,0 +1,373 @@
+import { createHash } from "node:crypto";
+import type { IncidentMedia, MediaUpload } from "../drizzle/schema";
+import {
+  addIncidentHistory,
+  addIncidentMedia,
+  createMediaUpload,
+  findIncidentMediaByHash,
+  finishMediaUpload,
+  getMediaUploadByToken,
+  recordMediaUploadChunk,
+} from "./db";
+import {
+  readExifMetadata,
+  sniffMimeType,
+  type MediaMimeType,
+} from "./mediaInspection";
+import { storageGet, storagePut } from "./storage";
+
+/**
+ * رفع الوسائط مباشرة من المواطنين والمشغلين
+ * 1. startMediaUpload: فتح جلسة بعد التحقق من النوع والحجم المعلنين
+ * 2. uploadMediaChunk: رفع الملف على أجزاء متتالية (كل جزء يُحفظ في التخزين مؤقتاً)
+ * 3. completeMediaUpload: تجميع الأجزاء، التحقق من النوع الفعلي والحجم والبصمة،
+ *    استخراج EXIF والصورة المصغرة، ثم حفظ الملف وإنشاء سجل وسائط غير محاكى
+ */
+
+export const MEDIA_UPLOAD_LIMITS: Record<
+  "image" | "video",
+  { mimeTypes: MediaMimeType[]; maxBytes: number }
+> = {
+  image: {
+    mimeTypes: ["image/jpeg", "image/png", "image/webp", "image/heic"],
+    maxBytes: 15 * 1024 * 1024,
+  },
+  video: {
+    mimeTypes: ["video/mp4", "video/quicktime", "video/webm"],
+    maxBytes: 100 * 1024 * 1024,
+  },
+};
+
+export const MEDIA_UPLOAD_CHUNK_BYTES = 1024 * 1024;
+
+const UPLOAD_SESSION_TTL_MS = 60 * 60 * 1000;
+
+const FILE_EXTENSIONS: Record<MediaMimeType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+export type MediaUploadErrorCode =
+  | "unsupported_type"
+  | "too_large"
+  | "not_found"
+  | "closed"
+  | "expired"
+  | "out_of_order"
+  | "size_mismatch"
+  | "content_mismatch"
+  | "hash_mismatch";
+
+/**
+ * خطأ في رفع الوسائط
+ */
+export class MediaUploadError extends Error {
+  constructor(
+    public code: MediaUploadErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "MediaUploadError";
+  }
+}
+
+export function mediaTypeForMime(mimeType: string): "image" | "video" | null {
+  for (const mediaType of ["image", "video"] as const) {
+    if (
+      (MEDIA_UPLOAD_LIMITS[mediaType].mimeTypes as string[]).includes(mimeType)
+    ) {
+      return mediaType;
+    }
+  }
+  return null;
+}
+
+/**
+ * التحقق من النوع والحجم، يرمي MediaUploadError إذا لم يكونا مسموحين
+ */
+export function assertUploadAllowed(
+  mimeType: string,
+  sizeBytes: number
+): "image" | "video" {
+  const mediaType = mediaTypeForMime(mimeType);
+  if (!mediaType) {
+    throw new MediaUploadError(
+      "unsupported_type",
+      `Unsupported media type ${mimeType}`
+    );
+  }
+
+  const { maxBytes } = MEDIA_UPLOAD_LIMITS[mediaType];
+  if (sizeBytes <= 0 || sizeBytes > maxBytes) {
+    throw new MediaUploadError(
+      "too_large",
+      `${mediaType} uploads must be between 1 byte and ${maxBytes / (1024 * 1024)} MB`
+    );
+  }
+
+  return mediaType;
+}
+
+const chunkKey = (token: string, index: number) =>
+  `uploads/${token}/part-${String(index).padStart(5, "0")}`;
+
+/**
+ * جلسة مفتوحة لنفس المستخدم، وإلا MediaUploadError
+ */
+async function getOpenUpload(
+  token: string,
+  userId: number
+): Promise<MediaUpload> {
+  const upload = await getMediaUploadByToken(token);
+  if (!upload || upload.uploadedBy !== userId) {
+    throw new MediaUploadError("not_found", "Upload session not found");
+  }
+  if (upload.status !== "open") {
+    throw new MediaUploadError("closed", `Upload session is ${upload.status}`);
+  }
+  if (upload.expiresAt < new Date()) {
+    throw new MediaUploadError("expired", "Upload session expired");
+  }
+  return upload;
+}
+
+export async function startMediaUpload(data: {
+  incidentId: number;
+  userId: number;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  description?: string;
+}) {
+  assertUploadAllowed(data.mimeType, data.sizeBytes);
+
+  const expiresAt = new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+  const { token } = await createMediaUpload({
+    incidentId: data.incidentId,
+    uploadedBy: data.userId,
+    fileName: data.fileName,
+    mimeType: data.mimeType,
+    declaredSize: data.sizeBytes,
+    description: data.description,
+    expiresAt,
+  });
+
+  return {
+    token,
+    chunkSize: MEDIA_UPLOAD_CHUNK_BYTES,
+    chunkCount: Math.ceil(data.sizeBytes / MEDIA_UPLOAD_CHUNK_BYTES),
+    expiresAt,
+  };
+}
+
+/**
+ * رفع جزء واحد، الأجزاء تُرفع بالترتيب بدءاً من 0
+ */
+export async function uploadMediaChunk(data: {
+  token: string;
+  userId: number;
+  index: number;
+  bytes: Uint8Array;
+}) {
+  const upload = await getOpenUpload(data.token, data.userId);
+
+  if (data.index !== upload.chunkCount) {
+    throw new MediaUploadError(
+      "out_of_order",
+      `Expected chunk ${upload.chunkCount}, got ${data.index}`
+    );
+  }
+  if (
+    data.bytes.byteLength === 0 ||
+    data.bytes.byteLength > MEDIA_UPLOAD_CHUNK_BYTES ||
+    upload.receivedBytes + data.bytes.byteLength > upload.declaredSize
+  ) {
+    throw new MediaUploadError(
+      "size_mismatch",
+      "Chunk size exceeds the chunk limit or the declared file size"
+    );
+  }
+
+  await storagePut(
+    chunkKey(upload.token, data.index),
+    data.bytes,
+    "application/octet-stream"
+  );
+  const recorded = await recordMediaUploadChunk(
+    upload.id,
+    data.index,
+    data.bytes.byteLength
+  );
+  if (!recorded) {
+    throw new MediaUploadError(
+      "out_of_order",
+      `Chunk ${data.index} was already received`
+    );
+  }
+
+  return { receivedBytes: upload.receivedBytes + data.bytes.byteLength };
+}
+
+async function readChunks(upload: MediaUpload): Promise<Uint8Array> {
+  const content = new Uint8Array(upload.receivedBytes);
+  let offset = 0;
+
+  for (let index = 0; index < upload.chunkCount; index++) {
+    const { url } = await storageGet(chunkKey(upload.token, index));
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to read upload chunk ${index} (${response.status})`
+      );
+    }
+    const chunk = new Uint8Array(await response.arrayBuffer());
+    if (offset + chunk.byteLength > content.byteLength) {
+      throw new MediaUploadError(
+        "size_mismatch",
+        "Stored chunks exceed the received size"
+      );
+    }
+    content.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  if (offset !== content.byteLength) {
+    throw new MediaUploadError(
+      "size_mismatch",
+      "Stored chunks are shorter than the received size"
+    );
+  }
+  return content;
+}
+
+/**
+ * إكمال الرفع وإنشاء سجل الوسائط
+ * @param sha256 بصمة الملف كما حسبها العميل (اختيارية) لاكتشاف التلف أثناء النقل
+ * @returns إذا كان الملف نفسه مرفوعاً مسبقاً للحادث يُعاد السجل الموجود
+ */
+export async function completeMediaUpload(data: {
+  token: string;
+  userId: number;
+  sha256?: string;
+}) {
+  const upload = await getOpenUpload(data.token, data.userId);
+
+  try {
+    if (upload.receivedBytes !== upload.declaredSize) {
+      throw new MediaUploadError(
+        "size_mismatch",
+        `Received ${upload.receivedBytes} of ${upload.declaredSize} bytes`
+      );
+    }
+
+    const content = await readChunks(upload);
+
+    // النوع الفعلي يجب أن يطابق المعلن، فلا يُقبل ملف تنفيذي باسم صورة
+    const detected = sniffMimeType(content);
+    if (detected !== upload.mimeType) {
+      throw new MediaUploadError(
+        "content_mismatch",
+        `File content is ${detected ?? "unrecognized"}, declared ${upload.mimeType}`
+      );
+    }
+
+    const sha256 = createHash("sha256").update(content).digest("hex");
+    if (data.sha256 && data.sha256.toLowerCase() !== sha256) {
+      throw new MediaUploadError(
+        "hash_mismatch",
+        "File hash does not match the uploaded content"
+      );
+    }
+
+    const existing = await findIncidentMediaByHash(upload.incidentId, sha256);
+    if (existing) {
+      await finishMediaUpload(upload.id, {
+        status: "completed",
+        mediaId: existing.id,
+      });
+      return { mediaId: existing.id, sha256, duplicate: true };
+    }
+
+    const mediaType = assertUploadAllowed(detected, content.byteLength);
+    const baseKey = `incidents/${upload.incidentId}/media/${sha256}`;
+    const { key } = await storagePut(
+      `${baseKey}.${FILE_EXTENSIONS[detected]}`,
+      content,
+      detected
+    );
+
+    const exif = readExifMetadata(content);
+    const thumbnailKey = exif.thumbnail
+      ? (await storagePut(`${baseKey}-thumb.jpg`, exif.thumbnail, "image/jpeg"))
+          .key
+      : undefined;
+
+    const { insertId } = await addIncidentMedia({
+      incidentId: upload.incidentId,
+      mediaType,
+      storageKey: key,
+      thumbnailKey,
+      mimeType: detected,
+      sizeBytes: content.byteLength,
+      sha256,
+      capturedAt: exif.capturedAt ?? undefined,
+      captureLatitude: exif.location?.latitude.toFixed(8),
+      captureLongitude: exif.location?.longitude.toFixed(8),
+      uploadedBy: upload.uploadedBy,
+      description: upload.description ?? undefined,
+      isSimulated: false,
+    });
+
+    await finishMediaUpload(upload.id, {
+      status: "completed",
+      mediaId: insertId,
+    });
+    await addIncidentHistory({
+      incidentId: upload.incidentId,
+      type: "media.added",
+      details: `${mediaType} uploaded (${upload.fileName}, ${content.byteLength} bytes)`,
+      payload: {
+        previous: null,
+        next: {
+          mediaId: insertId,
+          mediaType,
+          sha256,
+          capturedAt: exif.capturedAt,
+          captureLocation: exif.location,
+        },
+      },
+      performedBy: upload.uploadedBy,
+    });
+
+    return { mediaId: insertId, sha256, duplicate: false };
+  } catch (error) {
+    // أخطاء التحقق تغلق الجلسة، وأخطاء التخزين المؤقتة تسمح بإعادة المحاولة
+    if (error instanceof MediaUploadError) {
+      await finishMediaUpload(upload.id, {
+        status: "failed",
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * روابط العرض للوسائط: الرابط الخارجي للمحاكاة، أو رابط تحميل من التخزين للملفات المرفوعة
+ */
+export async function resolveMediaUrls(media: IncidentMedia) {
+  const [url, thumbnailUrl] = await Promise.all([
+    media.storageKey
+      ? storageGet(media.storageKey).then(result => result.url)
+      : media.mediaUrl,
+    media.thumbnailKey
+      ? storageGet(media.thumbnailKey).then(result => result.url)
+      : null,
+  ]);
+  return { ...media, url, thumbnailUrl };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  agencyScopeOf,
+  hasPermission,
+  isAgencyRole,
+  PERMISSIONS,
+} from "./permissions";
+
+describe("role permissions", () => {
+  it("gives operators and admins every permission and citizens none", () => {
+    for (const permission of PERMISSIONS) {
+      expect(hasPermission("operator", permission)).toBe(true);
+      expect(hasPermission("admin", permission)).toBe(true);
+      expect(hasPermission("user", permission)).toBe(false);
+    }
+  });
+
+  it("limits agency roles to their own work", () => {
+    expect(hasPermission("ambulance_dispatcher", "service:update-status")).toBe(
+      true
+    );
+    expect(hasPermission("ambulance_dispatcher", "party:update-facts")).toBe(
+      true
+    );
+    expect(hasPermission("tow_operator", "party:update-facts")).toBe(false);
+    expect(hasPermission("tow_operator", "service:dispatch")).toBe(false);
+    expect(hasPermission("insurer", "fault:assess")).toBe(true);
+    expect(hasPermission("insurer", "report:send")).toBe(false);
+    expect(hasPermission("insurer", "unit:update")).toBe(false);
+  });
+
+  it("keeps the unfiltered realtime stream to operators and admins", () => {
+    expect(hasPermission("operator", "realtime:monitor")).toBe(true);
+    expect(hasPermission("user", "realtime:monitor")).toBe(false);
+    expect(hasPermission("ambulance_dispatcher", "realtime:monitor")).toBe(
+      false
+    );
+    expect(hasPermission("insurer", "realtime:monitor")).toBe(false);
+  });
+});
+
+describe("agencyScopeOf", () => {
+  it("scopes only agency roles", () => {
+    expect(isAgencyRole("insurer")).toBe(true);
+    expect(isAgencyRole("operator")).toBe(false);
+    expect(agencyScopeOf({ role: "operator", agency: "الهلال الأحمر" })).toBe(
+      null
+    );
+    expect(
+      agencyScopeOf({ role: "ambulance_dispatcher", agency: "الهلال الأحمر" })
+    ).toBe("الهلال الأحمر");
+  });
+
+  it("gives agency roles without an agency an empty scope", () => {
+    expect(agencyScopeOf({ role: "tow_operator", agency: null })).toBe("");
+  });
+});
@@ -0,0 +1,103 @@
+import type { User } from "../drizzle/schema";
+
+/**
+ * نموذج الصلاحيات
+ * كل إجراء محمي له صلاحية باسم ثابت، وكل دور يمنح مجموعة منها.
+ * أدوار الجهات (مشغل الإسعاف، مشغل السطحات، شركة التأمين) مقيدة بحوادث جهتها وخدماتها ووحداتها
+ */
+
+export const USER_ROLES = [
+  "user",
+  "operator",
+  "admin",
+  "ambulance_dispatcher",
+  "tow_operator",
+  "insurer",
+] as const;
+
+export type UserRole = User["role"];
+
+export const PERMISSIONS = [
+  "incident:update-status",
+  "incident:merge",
+  "incident:assign-agency",
+  "analysis:accept",
+  "party:add",
+  "party:set-fault",
+  "party:update-facts",
+  // عرض الجوال ورقم اللوحة والبريد دون إخفاء
+  "party:view-personal-data",
+  "fault:assess",
+  "service:dispatch",
+  "service:update-status",
+  "unit:update",
+  "unit:report-position",
+  // إضافة وسائط لحوادث لم يبلغ عنها المستخدم
+  "media:add",
+  // مهام الطابور لكل المستخدمين وإعادة تشغيلها
+  "job:manage",
+  "sla:view",
+  "report:send",
+  "report:generate",
+  // تصدير السجل التاريخي الموقع لجهة خارجية (محكمة، شركة تأمين)
+  "history:export",
+  // البحث في أحداث السجل عبر كل الحوادث
+  "history:search",
+  // بث الأحداث المباشر لكل الحوادث أو لمنطقة، لا لحادث واحد
+  "realtime:monitor",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const AGENCY_ROLES = [
+  "ambulance_dispatcher",
+  "tow_operator",
+  "insurer",
+] as const satisfies readonly UserRole[];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  // المواطن يبلغ عن حوادثه ويرفع وسائطها فقط
+  user: [],
+  operator: PERMISSIONS,
+  admin: PERMISSIONS,
+  ambulance_dispatcher: [
+    "service:update-status",
+    "unit:update",
+    "unit:report-position",
+    "party:update-facts",
+    "party:view-personal-data",
+    "media:add",
+  ],
+  tow_operator: [
+    "service:update-status",
+    "unit:update",
+    "unit:report-position",
+    "party:view-personal-data",
+    "media:add",
+  ],
+  insurer: [
+    "party:view-personal-data",
+    "fault:assess",
+    "report:generate",
+    "history:export",
+  ],
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isAgencyRole(role: UserRole): boolean {
+  return (AGENCY_ROLES as readonly UserRole[]).includes(role);
+}
+
+/**
+ * الجهة التي تُقيد بها صلاحيات المستخدم
+ * @returns null لغير أدوار الجهات (بلا تقييد)، و"" لدور جهة بلا جهة محددة (لا يصل لشيء)
+ */
+export function agencyScopeOf(
+  user: Pick<User, "role" | "agency">
+): string | null {
+  if (!isAgencyRole(user.role)) return null;
+  return user.agency ?? "";
+}
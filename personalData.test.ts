@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  maskEmail,
+  maskHistoryEntry,
+  maskParty,
+  maskPhone,
+  maskPlate,
+  maskReportSend,
+  personalDataReplacements,
+} from "./personalData";
+
+describe("masking personal data", () => {
+  it("keeps only the tail of phones and plates", () => {
+    expect(maskPhone("+966501234567")).toBe("+*********567");
+    expect(maskPlate("ABC 1234")).toBe("*** **34");
+    expect(maskPlate("أ ب ج 1234")).toBe("* * * **34");
+  });
+
+  it("keeps the first letter and domain of emails", () => {
+    expect(maskEmail("ahmed@example.com")).toBe("a****@example.com");
+    expect(maskEmail("a@example.com")).toBe("a***@example.com");
+  });
+
+  it("masks party and recipient fields and leaves empty ones", () => {
+    expect(
+      maskParty({
+        partyName: "خالد",
+        phone: "0501234567",
+        vehicleNumber: null,
+      })
+    ).toEqual({ partyName: "خالد", phone: "*******567", vehicleNumber: null });
+    expect(
+      maskReportSend({
+        recipientEmail: "claims@insurer.sa",
+        recipientPhone: null,
+      })
+    ).toEqual({ recipientEmail: "c*****@insurer.sa", recipientPhone: null });
+  });
+});
+
+describe("maskHistoryEntry", () => {
+  it("masks the incident's known personal data inside details and payload", () => {
+    const replacements = personalDataReplacements(
+      [{ phone: "0501234567", vehicleNumber: "ABC 1234" }],
+      [{ recipientEmail: "claims@insurer.sa", recipientPhone: null }]
+    );
+
+    const entry = maskHistoryEntry(
+      {
+        details: "Report opened by claims@insurer.sa",
+        payload: { contact: "0501234567", plates: ["ABC 1234"], attempt: 2 },
+      },
+      replacements
+    );
+
+    expect(entry.details).toBe("Report opened by c*****@insurer.sa");
+    expect(entry.payload).toEqual({
+      contact: "*******567",
+      plates: ["*** **34"],
+      attempt: 2,
+    });
+  });
+
+  it("masks realtime history events that carry no details", () => {
+    const replacements = personalDataReplacements(
+      [],
+      [{ recipientEmail: null, recipientPhone: "0559876543" }]
+    );
+
+    expect(
+      maskHistoryEntry(
+        { type: "report.read", payload: { channel: "sms:0559876543" } },
+        replacements
+      )
+    ).toEqual({
+      type: "report.read",
+      details: undefined,
+      payload: { channel: "sms:*******543" },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type {
+  IncidentHistory,
+  IncidentParty,
+  ReportSend,
+} from "../drizzle/schema";
+
+/**
+ * إخفاء البيانات الشخصية (الجوال، رقم اللوحة، البريد) في الإجراءات العامة
+ * تظهر كاملة فقط لمن يملك صلاحية party:view-personal-data على الحادث أو لمقدم البلاغ
+ */
+
+const MASK = "*";
+
+// المسافات والرموز الشائعة في الأرقام تبقى كما هي، وما عداها حرف أو رقم يُخفى
+const SEPARATORS = /[\s+\-().,/_:]/g;
+const CHARACTERS = /[^\s+\-().,/_:]/g;
+
+// إخفاء الأحرف والأرقام مع إبقاء آخر visible منها والفواصل كما هي
+function maskCharacters(value: string, visible: number): string {
+  const total = value.replace(SEPARATORS, "").length;
+  let seen = 0;
+  return value.replace(CHARACTERS, char =>
+    ++seen > total - visible ? char : MASK
+  );
+}
+
+export function maskPhone(phone: string): string {
+  return maskCharacters(phone, 3);
+}
+
+export function maskPlate(plate: string): string {
+  return maskCharacters(plate, 2);
+}
+
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf("@");
+  if (at <= 0) return maskCharacters(email, 0);
+  return `${email[0]}${MASK.repeat(Math.max(at - 1, 3))}${email.slice(at)}`;
+}
+
+const maskOptional = <T extends string | null>(
+  value: T,
+  mask: (value: string) => string
+): T => (value ? (mask(value) as T) : value);
+
+export function maskParty<
+  T extends Pick<IncidentParty, "phone" | "vehicleNumber">,
+>(party: T): T {
+  return {
+    ...party,
+    phone: maskOptional(party.phone, maskPhone),
+    vehicleNumber: maskOptional(party.vehicleNumber, maskPlate),
+  };
+}
+
+export function maskReportSend<
+  T extends Pick<ReportSend, "recipientEmail" | "recipientPhone">,
+>(send: T): T {
+  return {
+    ...send,
+    recipientEmail: maskOptional(send.recipientEmail, maskEmail),
+    recipientPhone: maskOptional(send.recipientPhone, maskPhone),
+  };
+}
+
+/**
+ * البيانات الشخصية المعروفة للحادث وصيغها المخفية، لإخفائها داخل نصوص السجل التاريخي
+ */
+export function personalDataReplacements(
+  parties: Pick<IncidentParty, "phone" | "vehicleNumber">[],
+  sends: Pick<ReportSend, "recipientEmail" | "recipientPhone">[]
+): Map<string, string> {
+  const replacements = new Map<string, string>();
+  const add = (value: string | null, mask: (value: string) => string) => {
+    if (value) replacements.set(value, mask(value));
+  };
+
+  for (const party of parties) {
+    add(party.phone, maskPhone);
+    add(party.vehicleNumber, maskPlate);
+  }
+  for (const send of sends) {
+    add(send.recipientEmail, maskEmail);
+    add(send.recipientPhone, maskPhone);
+  }
+  return replacements;
+}
+
+function replaceKnownValues(
+  text: string,
+  replacements: Map<string, string>
+): string {
+  // الأطول أولاً حتى لا تُخفى قيمة جزئياً داخل قيمة أطول
+  const values = Array.from(replacements.keys()).sort(
+    (a, b) => b.length - a.length
+  );
+  return values.reduce(
+    (result, value) => result.split(value).join(replacements.get(value)!),
+    text
+  );
+}
+
+function maskPayload(
+  payload: unknown,
+  replacements: Map<string, string>
+): unknown {
+  if (typeof payload === "string") {
+    return replaceKnownValues(payload, replacements);
+  }
+  if (Array.isArray(payload)) {
+    return payload.map(item => maskPayload(item, replacements));
+  }
+  if (payload && typeof payload === "object") {
+    return Object.fromEntries(
+      Object.entries(payload).map(([key, value]) => [
+        key,
+        maskPayload(value, replacements),
+      ])
+    );
+  }
+  return payload;
+}
+
+export function maskHistoryEntry<
+  T extends { details?: IncidentHistory["details"]; payload?: unknown },
+>(entry: T, replacements: Map<string, string>): T {
+  if (replacements.size === 0) return entry;
+  return {
+    ...entry,
+    details: entry.details && replaceKnownValues(entry.details, replacements),
+    payload: maskPayload(entry.payload, replacements),
+  };
+}
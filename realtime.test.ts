@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchesRealtimeFilter,
+  publishRealtimeEvent,
+  subscribeRealtimeEvents,
+  type RealtimeEvent,
+} from "./realtime";
+
+function event(overrides: Partial<RealtimeEvent> = {}): RealtimeEvent {
+  return {
+    id: "evt",
+    type: "incident.created",
+    incidentId: 7,
+    latitude: 24.7136,
+    longitude: 46.6753,
+    data: {},
+    occurredAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("matchesRealtimeFilter", () => {
+  const riyadh = { north: 25, south: 24.5, east: 47, west: 46.5 };
+
+  it("passes every event through an empty filter", () => {
+    expect(matchesRealtimeFilter(event(), {})).toBe(true);
+  });
+
+  it("filters by incident id and event type", () => {
+    expect(matchesRealtimeFilter(event(), { incidentId: 7 })).toBe(true);
+    expect(matchesRealtimeFilter(event(), { incidentId: 8 })).toBe(false);
+    expect(matchesRealtimeFilter(event(), { types: ["service.created"] })).toBe(
+      false
+    );
+  });
+
+  it("filters by bounding box", () => {
+    expect(matchesRealtimeFilter(event(), { bounds: riyadh })).toBe(true);
+    expect(
+      matchesRealtimeFilter(event({ latitude: 21.4858, longitude: 39.1925 }), {
+        bounds: riyadh,
+      })
+    ).toBe(false);
+    expect(
+      matchesRealtimeFilter(event({ latitude: null, longitude: null }), {
+        bounds: riyadh,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("subscribeRealtimeEvents", () => {
+  it("streams matching events until aborted", async () => {
+    const controller = new AbortController();
+    const stream = subscribeRealtimeEvents(
+      { incidentId: 2 },
+      controller.signal
+    );
+    const next = stream.next();
+
+    await publishRealtimeEvent(
+      "media.added",
+      1,
+      {},
+      { latitude: 0, longitude: 0 }
+    );
+    await publishRealtimeEvent(
+      "service.created",
+      2,
+      { serviceId: 5 },
+      { latitude: "24.7", longitude: "46.6" }
+    );
+
+    const { value } = await next;
+    expect(value).toMatchObject({
+      type: "service.created",
+      incidentId: 2,
+      latitude: 24.7,
+      data: { serviceId: 5 },
+    });
+
+    controller.abort();
+    expect(await stream.next()).toEqual({ done: true, value: undefined });
+  });
+});
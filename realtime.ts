@@ -0,0 +1,126 @@
+import { EventEmitter, on } from "node:events";
+import { nanoid } from "nanoid";
+import type { BoundingBox } from "./geo";
+
+/**
+ * ناقل الأحداث المباشرة
+ * تنشر طبقة البيانات التغييرات هنا، وتبثها اشتراكات tRPC لشاشات مركز العمليات
+ */
+
+export type RealtimeEventType =
+  | "incident.created"
+  | "incident.status_changed"
+  | "service.created"
+  | "service.status_changed"
+  | "service.sla_breached"
+  | "media.added"
+  | "history.added";
+
+export type RealtimeEvent = {
+  id: string;
+  type: RealtimeEventType;
+  incidentId: number;
+  // موقع الحادث لتصفية المشتركين حسب المنطقة
+  latitude: number | null;
+  longitude: number | null;
+  data: Record<string, unknown>;
+  occurredAt: Date;
+};
+
+export type RealtimeFilter = {
+  incidentId?: number;
+  bounds?: BoundingBox;
+  types?: RealtimeEventType[];
+};
+
+const EVENT_NAME = "event";
+
+const emitter = new EventEmitter();
+// كل مشترك يضيف مستمعاً واحداً
+emitter.setMaxListeners(0);
+
+/**
+ * هل يقع الحدث ضمن تصفية المشترك
+ */
+export function matchesRealtimeFilter(
+  event: RealtimeEvent,
+  filter: RealtimeFilter
+): boolean {
+  if (
+    filter.incidentId !== undefined &&
+    event.incidentId !== filter.incidentId
+  ) {
+    return false;
+  }
+
+  if (filter.types && !filter.types.includes(event.type)) {
+    return false;
+  }
+
+  if (filter.bounds) {
+    if (event.latitude === null || event.longitude === null) return false;
+    const { north, south, east, west } = filter.bounds;
+    const withinLatitude = event.latitude <= north && event.latitude >= south;
+    // صندوق يعبر خط الطول 180
+    const withinLongitude =
+      west <= east
+        ? event.longitude >= west && event.longitude <= east
+        : event.longitude >= west || event.longitude <= east;
+    if (!withinLatitude || !withinLongitude) return false;
+  }
+
+  return true;
+}
+
+/**
+ * نشر حدث لجميع المشتركين
+ * لا يرمي أخطاء: فشل البث لا يجب أن يُفشل العملية التي سببت الحدث
+ */
+export async function publishRealtimeEvent(
+  type: RealtimeEventType,
+  incidentId: number,
+  data: Record<string, unknown> = {},
+  location?: { latitude: string | number; longitude: string | number }
+): Promise<void> {
+  try {
+    let coordinates = location;
+    if (!coordinates) {
+      const { getIncidentById } = await import("./db");
+      const incident = await getIncidentById(incidentId);
+      coordinates = incident ?? undefined;
+    }
+
+    const event: RealtimeEvent = {
+      id: nanoid(),
+      type,
+      incidentId,
+      latitude: coordinates ? Number(coordinates.latitude) : null,
+      longitude: coordinates ? Number(coordinates.longitude) : null,
+      data,
+      occurredAt: new Date(),
+    };
+
+    emitter.emit(EVENT_NAME, event);
+  } catch (error) {
+    console.error("[Realtime] Failed to publish event:", error);
+  }
+}
+
+/**
+ * بث الأحداث المطابقة للتصفية حتى يلغي المشترك الاتصال
+ */
+export async function* subscribeRealtimeEvents(
+  filter: RealtimeFilter,
+  signal?: AbortSignal
+): AsyncGenerator<RealtimeEvent> {
+  try {
+    for await (const [event] of on(emitter, EVENT_NAME, { signal })) {
+      if (matchesRealtimeFilter(event as RealtimeEvent, filter)) {
+        yield event as RealtimeEvent;
+      }
+    }
+  } catch (error) {
+    // إلغاء الاشتراك من العميل ينهي المولد بـ AbortError
+    if ((error as Error).name !== "AbortError") throw error;
+  }
+}
@@ -0,0 +1,288 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ReportSend } from "../drizzle/schema";
+import {
+  createMemoryChannel,
+  resolveDeliveryMode,
+  type DeliveryChannels,
+} from "./deliveryChannels";
+import {
+  deliverReportSend,
+  markReportRead,
+  MAX_DELIVERY_ATTEMPTS,
+  processPendingReportSends,
+  reportRetryDelayMs,
+  type ReportDeliveryStore,
+} from "./reportDelivery";
+
+const content = { subject: "تقرير الحادث #1", body: "ملخص التقرير" };
+
+describe("deliverReportSend", () => {
+  it("sends through every channel the recipient has", async () => {
+    const email = createMemoryChannel("email");
+    const sms = createMemoryChannel("sms");
+
+    const result = await deliverReportSend(
+      {
+        recipientEmail: "claims@insurer.example",
+        recipientPhone: "+966500000000",
+        trackingToken: "tok123",
+      },
+      content,
+      { email, sms }
+    );
+
+    expect(result).toEqual({ delivered: ["email", "sms"], errors: [] });
+    expect(email.sent[0]).toMatchObject({
+      to: "claims@insurer.example",
+      subject: content.subject,
+    });
+    expect(email.sent[0]?.trackingUrl).toMatch(/\/reports\/view\/tok123$/);
+    expect(sms.sent[0]?.to).toBe("+966500000000");
+  });
+
+  it("collects channel failures as reasons", async () => {
+    const email = createMemoryChannel("email");
+    email.failWith(new Error("SMTP timeout"));
+
+    const result = await deliverReportSend(
+      {
+        recipientEmail: "party@example.com",
+        recipientPhone: "+966511111111",
+        trackingToken: "tok456",
+      },
+      content,
+      { email }
+    );
+
+    expect(result.delivered).toEqual([]);
+    expect(result.errors).toEqual([
+      "email: SMTP timeout",
+      "sms: channel not configured",
+    ]);
+  });
+});
+
+describe("reportRetryDelayMs", () => {
+  it("doubles the delay per attempt up to one hour", () => {
+    expect(reportRetryDelayMs(1)).toBe(60_000);
+    expect(reportRetryDelayMs(2)).toBe(120_000);
+    expect(reportRetryDelayMs(3)).toBe(240_000);
+    expect(reportRetryDelayMs(10)).toBe(3_600_000);
+  });
+});
+
+function reportSend(overrides: Partial<ReportSend> = {}): ReportSend {
+  return {
+    id: 1,
+    incidentId: 7,
+    recipientType: "insurance",
+    recipientEmail: "claims@insurer.example",
+    recipientPhone: null,
+    recipientName: "Insurer",
+    status: "pending",
+    reportDocumentId: null,
+    trackingToken: "tok123",
+    attempts: 0,
+    nextAttemptAt: null,
+    sentAt: null,
+    readAt: null,
+    failureReason: null,
+    createdAt: new Date("2026-03-01T08:00:00Z"),
+    updatedAt: new Date("2026-03-01T08:00:00Z"),
+    ...overrides,
+  };
+}
+
+function memoryStore(
+  sends: ReportSend[],
+  channels: DeliveryChannels = { email: createMemoryChannel("email") }
+) {
+  return {
+    getDue: vi.fn(async () => sends),
+    claim: vi.fn(async () => true),
+    scheduleRetry: vi.fn(async () => undefined),
+    updateStatus: vi.fn(async () => undefined),
+    getByToken: vi.fn(
+      async (token: string) =>
+        sends.find(send => send.trackingToken === token) ?? null
+    ),
+    addHistory: vi.fn(async () => undefined),
+    getReportSummary: vi.fn(async () => "ملخص التقرير"),
+    getDocumentUrl: vi.fn(
+      async (id: number) => `https://storage/doc-${id}.pdf`
+    ),
+    channels: () => channels,
+  } satisfies ReportDeliveryStore;
+}
+
+describe("processPendingReportSends", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims each send with a lease before attempting it", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-01T09:00:00Z") });
+    const store = memoryStore([reportSend({ attempts: 2 })]);
+
+    await processPendingReportSends(50, store);
+
+    expect(store.getDue).toHaveBeenCalledWith(
+      new Date("2026-03-01T09:00:00Z"),
+      50
+    );
+    expect(store.claim).toHaveBeenCalledWith(
+      1,
+      2,
+      new Date("2026-03-01T09:05:00Z")
+    );
+  });
+
+  it("skips sends another worker claimed first", async () => {
+    const email = createMemoryChannel("email");
+    const store = memoryStore([reportSend()], { email });
+    store.claim.mockResolvedValue(false);
+
+    const summary = await processPendingReportSends(50, store);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 0 });
+    expect(email.sent).toEqual([]);
+    expect(store.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it("marks delivered sends as sent with the archived PDF attached", async () => {
+    const email = createMemoryChannel("email");
+    const store = memoryStore([reportSend({ reportDocumentId: 3 })], {
+      email,
+    });
+
+    const summary = await processPendingReportSends(50, store);
+
+    expect(summary).toEqual({ sent: 1, retried: 0, failed: 0 });
+    expect(email.sent[0]).toMatchObject({
+      subject: "تقرير الحادث #7",
+      body: "ملخص التقرير",
+      attachmentUrl: "https://storage/doc-3.pdf",
+    });
+    expect(store.updateStatus).toHaveBeenCalledWith(1, "sent");
+    expect(store.addHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "report.delivered",
+        payload: expect.objectContaining({ channels: ["email"], attempt: 1 }),
+      })
+    );
+  });
+
+  it("schedules a retry with backoff after a failed attempt", async () => {
+    vi.useFakeTimers({ now: new Date("2026-03-01T09:00:00Z") });
+    const email = createMemoryChannel("email");
+    email.failWith(new Error("SMTP timeout"));
+    const store = memoryStore([reportSend({ attempts: 1 })], { email });
+
+    const summary = await processPendingReportSends(50, store);
+
+    expect(summary).toEqual({ sent: 0, retried: 1, failed: 0 });
+    expect(store.scheduleRetry).toHaveBeenCalledWith(
+      1,
+      new Date(Date.now() + reportRetryDelayMs(2)),
+      "email: SMTP timeout"
+    );
+    expect(store.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it("fails the send on the last allowed attempt", async () => {
+    const email = createMemoryChannel("email");
+    email.failWith(new Error("SMTP timeout"));
+    const store = memoryStore(
+      [reportSend({ attempts: MAX_DELIVERY_ATTEMPTS - 1 })],
+      { email }
+    );
+
+    const summary = await processPendingReportSends(50, store);
+
+    expect(summary).toEqual({ sent: 0, retried: 0, failed: 1 });
+    expect(store.scheduleRetry).not.toHaveBeenCalled();
+    expect(store.updateStatus).toHaveBeenCalledWith(
+      1,
+      "failed",
+      "email: SMTP timeout"
+    );
+    expect(store.addHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "report.delivery_failed",
+        payload: expect.objectContaining({ attempt: MAX_DELIVERY_ATTEMPTS }),
+      })
+    );
+  });
+
+  it("retries when the report content cannot be generated", async () => {
+    const store = memoryStore([reportSend()]);
+    store.getReportSummary.mockRejectedValue(new Error("Incident not found"));
+
+    const summary = await processPendingReportSends(50, store);
+
+    expect(summary.retried).toBe(1);
+    expect(store.scheduleRetry).toHaveBeenCalledWith(
+      1,
+      expect.any(Date),
+      "Incident not found"
+    );
+  });
+});
+
+describe("markReportRead", () => {
+  it("records the first read of a sent report", async () => {
+    const store = memoryStore([reportSend({ status: "sent" })]);
+
+    const send = await markReportRead("tok123", store);
+
+    expect(send?.status).toBe("read");
+    expect(store.updateStatus).toHaveBeenCalledWith(1, "read");
+    expect(store.addHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "report.read",
+        payload: { previous: "sent", next: "read", reportSendId: 1 },
+      })
+    );
+  });
+
+  it("keeps the first read when the link is opened again", async () => {
+    const store = memoryStore([reportSend({ status: "read" })]);
+
+    const send = await markReportRead("tok123", store);
+
+    expect(send?.status).toBe("read");
+    expect(store.updateStatus).not.toHaveBeenCalled();
+    expect(store.addHistory).not.toHaveBeenCalled();
+  });
+
+  it("returns null for an unknown token", async () => {
+    const store = memoryStore([reportSend({ status: "sent" })]);
+
+    expect(await markReportRead("unknown", store)).toBeNull();
+    expect(store.updateStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveDeliveryMode", () => {
+  it("defaults to the outbox file in development only", () => {
+    expect(resolveDeliveryMode({ NODE_ENV: "development" })).toBe("file");
+    expect(() => resolveDeliveryMode({ NODE_ENV: "production" })).toThrow(
+      /REPORT_DELIVERY_CHANNEL is not set/
+    );
+    expect(() => resolveDeliveryMode({})).toThrow(
+      /REPORT_DELIVERY_CHANNEL is not set/
+    );
+  });
+
+  it("uses the configured channel and rejects unknown ones", () => {
+    expect(
+      resolveDeliveryMode({
+        NODE_ENV: "production",
+        REPORT_DELIVERY_CHANNEL: "http",
+      })
+    ).toBe("http");
+    expect(() =>
+      resolveDeliveryMode({ REPORT_DELIVERY_CHANNEL: "smtp" })
+    ).toThrow(/Unknown REPORT_DELIVERY_CHANNEL/);
+  });
+});
@@ -0,0 +1,265 @@
+import type { ReportSend } from "../drizzle/schema";
+import {
+  addIncidentHistory,
+  claimReportSendAttempt,
+  getDueReportSends,
+  getReportDocumentById,
+  getReportSendByToken,
+  scheduleReportSendRetry,
+  updateReportSendStatus,
+} from "./db";
+import {
+  getDeliveryChannels,
+  type DeliveryChannelName,
+  type DeliveryChannels,
+  type DeliveryMessage,
+} from "./deliveryChannels";
+import type { HistoryEvent } from "./historyEvents";
+import { generateSmartReport } from "./smartReports";
+import { storageGet } from "./storage";
+
+/**
+ * عامل إرسال التقارير
+ * يرسل الإرسالات المعلقة عبر قنوات البريد والرسائل مع إعادة المحاولة والتأخير المتزايد
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// مدة حجز الإرسال أثناء المحاولة حتى لا تلتقطه نسخة أخرى
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * التأخير قبل المحاولة التالية: دقيقة ثم يتضاعف حتى ساعة كحد أقصى
+ */
+export function reportRetryDelayMs(attempt: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1),
+    RETRY_MAX_DELAY_MS
+  );
+}
+
+/**
+ * رابط عرض التقرير، فتحه يسجل قراءة المستلم
+ */
+export function buildTrackingUrl(trackingToken: string): string {
+  const baseUrl = (process.env.PUBLIC_APP_URL ?? "").replace(/\/+$/, "");
+  return `${baseUrl}/reports/view/${trackingToken}`;
+}
+
+/**
+ * إرسال تقرير واحد عبر كل القنوات المتاحة للمستلم
+ * يُعتبر مرسلاً إذا نجحت قناة واحدة على الأقل
+ */
+export async function deliverReportSend(
+  send: Pick<ReportSend, "recipientEmail" | "recipientPhone" | "trackingToken">,
+  content: Pick<DeliveryMessage, "subject" | "body" | "attachmentUrl">,
+  channels: DeliveryChannels = getDeliveryChannels()
+): Promise<{ delivered: DeliveryChannelName[]; errors: string[] }> {
+  const targets: [DeliveryChannelName, string | null][] = [
+    ["email", send.recipientEmail],
+    ["sms", send.recipientPhone],
+  ];
+
+  const delivered: DeliveryChannelName[] = [];
+  const errors: string[] = [];
+
+  for (const [name, to] of targets) {
+    if (!to) continue;
+
+    const channel = channels[name];
+    if (!channel) {
+      errors.push(`${name}: channel not configured`);
+      continue;
+    }
+
+    try {
+      await channel.send({
+        to,
+        ...content,
+        trackingUrl: buildTrackingUrl(send.trackingToken),
+      });
+      delivered.push(name);
+    } catch (error) {
+      errors.push(`${name}: ${(error as Error).message}`);
+    }
+  }
+
+  return { delivered, errors };
+}
+
+/**
+ * مصادر بيانات العامل وقنواته، تُستبدل في الاختبارات
+ */
+export type ReportDeliveryStore = {
+  getDue: (now: Date, limit: number) => Promise<ReportSend[]>;
+  claim: (
+    reportSendId: number,
+    expectedAttempts: number,
+    leaseUntil: Date
+  ) => Promise<boolean>;
+  scheduleRetry: (
+    reportSendId: number,
+    nextAttemptAt: Date,
+    failureReason: string
+  ) => Promise<unknown>;
+  updateStatus: (
+    reportSendId: number,
+    status: ReportSend["status"],
+    failureReason?: string
+  ) => Promise<unknown>;
+  getByToken: (trackingToken: string) => Promise<ReportSend | null>;
+  addHistory: (event: HistoryEvent) => Promise<unknown>;
+  getReportSummary: (incidentId: number) => Promise<string>;
+  getDocumentUrl: (documentId: number) => Promise<string | undefined>;
+  channels: () => DeliveryChannels;
+};
+
+const defaultStore: ReportDeliveryStore = {
+  getDue: getDueReportSends,
+  claim: claimReportSendAttempt,
+  scheduleRetry: scheduleReportSendRetry,
+  updateStatus: updateReportSendStatus,
+  getByToken: getReportSendByToken,
+  addHistory: addIncidentHistory,
+  getReportSummary: async incidentId =>
+    (await generateSmartReport(incidentId)).reportSummary,
+  getDocumentUrl: async documentId => {
+    const document = await getReportDocumentById(documentId);
+    return document ? (await storageGet(document.storageKey)).url : undefined;
+  },
+  channels: getDeliveryChannels,
+};
+
+/**
+ * معالجة الإرسالات المعلقة التي حان موعدها
+ */
+export async function processPendingReportSends(
+  limit = 50,
+  store: ReportDeliveryStore = defaultStore
+): Promise<{ sent: number; retried: number; failed: number }> {
+  const now = new Date();
+  const due = await store.getDue(now, limit);
+  const summary = { sent: 0, retried: 0, failed: 0 };
+
+  // محتوى التقرير واحد لكل مستلمي الحادث
+  const contentByIncident = new Map<
+    number,
+    Pick<DeliveryMessage, "subject" | "body">
+  >();
+  // رابط تحميل نسخة PDF، كل المستلمين يحصلون على النسخة المؤرشفة نفسها
+  const attachmentUrls = new Map<number, string | undefined>();
+  const getAttachmentUrl = async (documentId: number | null) => {
+    if (!documentId) return undefined;
+    if (!attachmentUrls.has(documentId)) {
+      attachmentUrls.set(documentId, await store.getDocumentUrl(documentId));
+    }
+    return attachmentUrls.get(documentId);
+  };
+
+  for (const send of due) {
+    const claimed = await store.claim(
+      send.id,
+      send.attempts,
+      new Date(now.getTime() + ATTEMPT_LEASE_MS)
+    );
+    if (!claimed) continue;
+
+    const attempt = send.attempts + 1;
+    let result: { delivered: DeliveryChannelName[]; errors: string[] };
+
+    try {
+      let content = contentByIncident.get(send.incidentId);
+      if (!content) {
+        content = {
+          subject: `تقرير الحادث #${send.incidentId}`,
+          body: await store.getReportSummary(send.incidentId),
+        };
+        contentByIncident.set(send.incidentId, content);
+      }
+      result = await deliverReportSend(
+        send,
+        {
+          ...content,
+          attachmentUrl: await getAttachmentUrl(send.reportDocumentId),
+        },
+        store.channels()
+      );
+    } catch (error) {
+      result = { delivered: [], errors: [(error as Error).message] };
+    }
+
+    if (result.delivered.length > 0) {
+      await store.updateStatus(send.id, "sent");
+      await store.addHistory({
+        incidentId: send.incidentId,
+        type: "report.delivered",
+        details: `Report delivered to ${send.recipientName ?? send.recipientEmail ?? send.recipientPhone} via ${result.delivered.join(", ")}`,
+        payload: {
+          previous: send.status,
+          next: "sent",
+          reportSendId: send.id,
+          channels: result.delivered,
+          attempt,
+        },
+      });
+      summary.sent++;
+      continue;
+    }
+
+    const reason = result.errors.join("; ") || "No delivery channel available";
+
+    if (attempt >= MAX_DELIVERY_ATTEMPTS) {
+      await store.updateStatus(send.id, "failed", reason);
+      await store.addHistory({
+        incidentId: send.incidentId,
+        type: "report.delivery_failed",
+        details: `Report delivery to ${send.recipientName ?? send.recipientEmail ?? send.recipientPhone} failed after ${attempt} attempts: ${reason}`,
+        payload: {
+          previous: send.status,
+          next: "failed",
+          reportSendId: send.id,
+          attempt,
+          reason,
+        },
+      });
+      summary.failed++;
+    } else {
+      await store.scheduleRetry(
+        send.id,
+        new Date(Date.now() + reportRetryDelayMs(attempt)),
+        reason
+      );
+      summary.retried++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * تسجيل قراءة التقرير عبر رابط التتبع
+ * @returns الإرسال بعد التحديث، أو null إذا كان الرابط غير صالح
+ */
+export async function markReportRead(
+  trackingToken: string,
+  store: ReportDeliveryStore = defaultStore
+) {
+  const send = await store.getByToken(trackingToken);
+  if (!send) return null;
+
+  // فتح الرابط أكثر من مرة لا يغير وقت القراءة الأول
+  if (send.status === "sent") {
+    await store.updateStatus(send.id, "read");
+    await store.addHistory({
+      incidentId: send.incidentId,
+      type: "report.read",
+      details: `Report opened by ${send.recipientName ?? send.recipientEmail ?? send.recipientPhone}`,
+      payload: { previous: send.status, next: "read", reportSendId: send.id },
+    });
+    return { ...send, status: "read" as const };
+  }
+
+  return send;
+}
@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Incident, IncidentParty } from "../drizzle/schema";
+import {
+  detectImageFormat,
+  getOrCreateReportDocument,
+  renderSmartReportPdf,
+  thumbnailX,
+  THUMBNAILS_PER_ROW,
+  type PdfThumbnail,
+  type SmartReportPdfInput,
+} from "./reportPdf";
+
+// صورة PNG بحجم 1×1
+const PNG = Uint8Array.from(
+  Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+    "base64"
+  )
+);
+
+const incident: Incident = {
+  id: 7,
+  reporterId: 1,
+  incidentType: "traffic",
+  location: "طريق الملك فهد، الرياض",
+  latitude: "24.71360000",
+  longitude: "46.67530000",
+  description: "اصطدام خلفي عند الإشارة",
+  status: "in_progress",
+  severity: "medium",
+  reportedAt: new Date("2026-03-01T08:00:00Z"),
+  resolvedAt: null,
+  resolutionReason: null,
+  duplicateOfId: null,
+  mergedIntoId: null,
+  createdAt: new Date("2026-03-01T08:00:00Z"),
+  updatedAt: new Date("2026-03-01T08:00:00Z"),
+};
+
+function party(id: number): IncidentParty {
+  return {
+    id,
+    incidentId: incident.id,
+    partyName: `طرف ${id}`,
+    phone: null,
+    vehicleNumber: `ABC ${1000 + id}`,
+    faultPercentage: 50,
+    facts: null,
+    createdAt: new Date("2026-03-01T08:00:00Z"),
+  };
+}
+
+function pdfInput(
+  overrides: Partial<SmartReportPdfInput> = {}
+): SmartReportPdfInput {
+  const parties = overrides.parties ?? [party(1), party(2)];
+  return {
+    report: {
+      incidentId: incident.id,
+      location: incident.location,
+      incidentType: "traffic",
+      severity: "high",
+      estimatedSeverity: "medium",
+      faultBreakdown: parties.map(p => ({
+        partyId: p.id,
+        partyName: p.partyName,
+        faultPercentage: p.faultPercentage ?? 0,
+      })),
+      faultAssessment: { rulesetVersion: "1.0.0", parties: [] },
+      recommendedServices: [],
+      matchedDispatchRules: [],
+      analysisTime: 3000,
+      videoAnalysis: {
+        vehicleCount: 2,
+        impactPoint: "rear",
+        trajectoryAnalysis: "straight",
+        estimatedSpeed: 40,
+      },
+      analysisProvider: "fixture",
+      aiDecision: {
+        action: "none",
+        priority: "normal",
+        estimatedResponseTime: 5,
+      },
+      reportSummary: "لا توجد إصابات",
+    },
+    incident,
+    parties,
+    services: [],
+    thumbnails: [],
+    generatedAt: new Date("2026-03-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+const text = (pdf: Uint8Array) => Buffer.from(pdf).toString("latin1");
+// الأسطر التي فيها نص عربي تُكتب بترميز UTF-16BE
+const containsText = (pdf: Uint8Array, value: string) =>
+  text(pdf).includes(
+    Buffer.from(value, "utf16le").swap16().toString("latin1")
+  ) || text(pdf).includes(value);
+const pageCount = (pdf: Uint8Array) =>
+  text(pdf).match(/\/Type \/Page\b/g)?.length ?? 0;
+const imageCount = (pdf: Uint8Array) =>
+  text(pdf).match(/\/Subtype \/Image/g)?.length ?? 0;
+
+describe("renderSmartReportPdf", () => {
+  it("renders a single-page PDF for a short report", () => {
+    const pdf = renderSmartReportPdf(pdfInput(), null);
+
+    expect(text(pdf.subarray(0, 5))).toBe("%PDF-");
+    expect(pageCount(pdf)).toBe(1);
+  });
+
+  it("continues on new pages when the content is longer than a page", () => {
+    const parties = Array.from({ length: 60 }, (_, i) => party(i + 1));
+    const pdf = renderSmartReportPdf(pdfInput({ parties }), null);
+
+    expect(pageCount(pdf)).toBeGreaterThan(1);
+  });
+
+  it("embeds image thumbnails and lists other attachments as links", () => {
+    const thumbnails: PdfThumbnail[] = [
+      {
+        url: "https://cdn/1.png",
+        description: null,
+        image: PNG,
+        format: "PNG",
+      },
+      {
+        url: "https://cdn/2.png",
+        description: null,
+        image: PNG,
+        format: "PNG",
+      },
+      {
+        url: "https://cdn/clip.mp4",
+        description: "فيديو",
+        image: null,
+        format: null,
+      },
+    ];
+    const pdf = renderSmartReportPdf(pdfInput({ thumbnails }), null);
+
+    expect(imageCount(pdf)).toBeGreaterThanOrEqual(1);
+    expect(containsText(pdf, "https://cdn/clip.mp4")).toBe(true);
+    expect(containsText(pdf, "https://cdn/1.png")).toBe(false);
+  });
+
+  it("writes Arabic text shaped and in right-to-left visual order", () => {
+    const pdf = renderSmartReportPdf(
+      pdfInput({ incident: { ...incident, description: "فيديو" } }),
+      null
+    );
+
+    // "فيديو" بأشكال الحروف المتصلة من آخر حرف إلى أوله
+    expect(containsText(pdf, "\uFEEE\uFEF3\uFEAA\uFEF4\uFED3")).toBe(true);
+    expect(containsText(pdf, "فيديو")).toBe(false);
+  });
+});
+
+describe("thumbnailX", () => {
+  // عرض A4 مطروحاً منه الهامش
+  const right = 210 - 15;
+
+  it("places the first thumbnail against the right margin", () => {
+    expect(thumbnailX(right, 0)).toBe(right - 55);
+  });
+
+  it("lays out a row from right to left without overlap inside the page", () => {
+    const xs = Array.from({ length: THUMBNAILS_PER_ROW }, (_, column) =>
+      thumbnailX(right, column)
+    );
+
+    xs.slice(1).forEach((x, i) => expect(x + 55).toBeLessThan(xs[i]));
+    expect(xs[xs.length - 1]).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe("detectImageFormat", () => {
+  it("recognizes JPEG and PNG signatures only", () => {
+    expect(detectImageFormat(PNG)).toBe("PNG");
+    expect(detectImageFormat(Uint8Array.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+      "JPEG"
+    );
+    expect(detectImageFormat(Uint8Array.from([0x47, 0x49, 0x46, 0x38]))).toBe(
+      null
+    );
+  });
+});
+
+describe("getOrCreateReportDocument", () => {
+  const document = {
+    id: 3,
+    incidentId: incident.id,
+    version: 2,
+    storageKey: "incidents/7/reports/smart-report-v2-abc.pdf",
+    sha256: "abc",
+    sizeBytes: 1024,
+    generatedBy: null,
+    createdAt: new Date("2026-03-01T09:00:00Z"),
+  };
+
+  it("reuses the archived document instead of rendering a new one", async () => {
+    const archive = vi.fn();
+    const result = await getOrCreateReportDocument(incident.id, 1, {
+      getLatest: async () => document,
+      archive,
+    });
+
+    expect(result).toBe(document);
+    expect(archive).not.toHaveBeenCalled();
+  });
+
+  it("archives a first version when the incident has none", async () => {
+    const archived = { ...document, version: 1 };
+    const archive = vi.fn(async () => archived);
+    const result = await getOrCreateReportDocument(incident.id, 1, {
+      getLatest: async () => null,
+      archive,
+    });
+
+    expect(result).toBe(archived);
+    expect(archive).toHaveBeenCalledWith(incident.id, 1);
+  });
+});
@@ -0,0 +1,368 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { jsPDF } from "jspdf";
+import type {
+  Incident,
+  IncidentMedia,
+  IncidentParty,
+  ReportDocument,
+  Service,
+} from "../drizzle/schema";
+import {
+  addIncidentHistory,
+  addReportDocument,
+  getIncidentById,
+  getIncidentMedia,
+  getIncidentParties,
+  getIncidentServices,
+  getLatestReportDocument,
+} from "./db";
+import { generateSmartReport, type SmartReportData } from "./smartReports";
+import { resolveMediaUrls } from "./mediaUpload";
+import { storagePut } from "./storage";
+
+/**
+ * نسخة PDF الرسمية من التقرير الذكي
+ * تُنشأ على الخادم وتُحفظ في التخزين، وكل نسخة ثابتة لا تتغير بعد إنشائها
+ *
+ * الخط العربي يُحمّل من REPORT_PDF_FONT_PATH (ملف TTF يدعم العربية مثل Amiri)
+ */
+
+export type PdfThumbnail = {
+  url: string;
+  description: string | null;
+  image: Uint8Array | null;
+  format: "JPEG" | "PNG" | null;
+};
+
+export type SmartReportPdfInput = {
+  report: SmartReportData;
+  incident: Incident;
+  parties: IncidentParty[];
+  services: Service[];
+  thumbnails: PdfThumbnail[];
+  generatedAt: Date;
+};
+
+const MAX_THUMBNAILS = 6;
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 7;
+const THUMBNAIL_SIZE = 55;
+const THUMBNAIL_GAP = 3;
+export const THUMBNAILS_PER_ROW = 3;
+const FONT_NAME = "ReportArabic";
+
+const incidentTypeLabel: Record<Incident["incidentType"], string> = {
+  injury: "حادث إصابات",
+  breakdown: "تعطل سيارة",
+  traffic: "تسيير حركة",
+};
+
+const severityLabel: Record<Incident["severity"], string> = {
+  low: "منخفضة",
+  medium: "متوسطة",
+  high: "عالية",
+  critical: "حرجة",
+};
+
+const serviceTypeLabel: Record<Service["serviceType"], string> = {
+  ambulance: "إسعاف",
+  tow_truck: "سطحة",
+  traffic_control: "مرور",
+  police: "شرطة",
+  fire: "إطفاء",
+};
+
+let _fontBase64: string | null | undefined;
+
+function loadArabicFont(): string | null {
+  if (_fontBase64 !== undefined) return _fontBase64;
+
+  const fontPath = process.env.REPORT_PDF_FONT_PATH;
+  if (!fontPath) {
+    console.warn(
+      "[ReportPdf] REPORT_PDF_FONT_PATH not set, Arabic text will not render correctly"
+    );
+    _fontBase64 = null;
+  } else {
+    _fontBase64 = readFileSync(fontPath).toString("base64");
+  }
+  return _fontBase64;
+}
+
+/**
+ * الإحداثي الأفقي لصورة مصغرة في صفها: العمود الأول عند الهامش الأيمن والتالية إلى يساره
+ */
+export function thumbnailX(right: number, column: number): number {
+  return right - (column + 1) * THUMBNAIL_SIZE - column * THUMBNAIL_GAP;
+}
+
+/**
+ * رسم التقرير كملف PDF من اليمين إلى اليسار
+ */
+export function renderSmartReportPdf(
+  input: SmartReportPdfInput,
+  fontBase64: string | null = loadArabicFont()
+): Uint8Array {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+
+  if (fontBase64) {
+    doc.addFileToVFS(`${FONT_NAME}.ttf`, fontBase64);
+    doc.addFont(`${FONT_NAME}.ttf`, FONT_NAME, "normal");
+    doc.setFont(FONT_NAME, "normal");
+  }
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const right = pageWidth - PAGE_MARGIN;
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const write = (text: string, size = 11) => {
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, right, y, { align: "right" });
+      y += LINE_HEIGHT * (size / 11);
+    }
+  };
+
+  const section = (title: string) => {
+    y += 3;
+    ensureSpace(LINE_HEIGHT * 2);
+    write(title, 14);
+    doc.setDrawColor(0, 188, 212);
+    doc.line(PAGE_MARGIN, y - 4, right, y - 4);
+    y += 2;
+  };
+
+  const { report, incident, parties, services, thumbnails } = input;
+
+  // الترويسة
+  write("INCIQ - تقرير الحادث الذكي", 18);
+  write(`رقم البلاغ: ${incident.id}`);
+  write(`تاريخ الإصدار: ${input.generatedAt.toISOString()}`);
+
+  section("تفاصيل الحادث");
+  write(`نوع الحادث: ${incidentTypeLabel[incident.incidentType]}`);
+  write(`الخطورة: ${severityLabel[report.severity]}`);
+  write(`الموقع: ${incident.location}`);
+  write(`الإحداثيات: ${incident.latitude}, ${incident.longitude}`);
+  write(`وقت البلاغ: ${incident.reportedAt.toISOString()}`);
+  if (incident.description) write(`الوصف: ${incident.description}`);
+
+  section("الأطراف ونسب الخطأ");
+  if (parties.length === 0) write("لا توجد أطراف مسجلة");
+  for (const share of report.faultBreakdown) {
+    const party = parties.find(p => p.id === share.partyId);
+    write(
+      `${share.partyName}${party?.vehicleNumber ? ` - لوحة ${party.vehicleNumber}` : ""} - نسبة الخطأ: ${share.faultPercentage}%`
+    );
+  }
+
+  write(`إصدار قواعد نسبة الخطأ: ${report.faultAssessment.rulesetVersion}`, 9);
+  for (const party of report.faultAssessment.parties) {
+    write(
+      `${party.label}: ${party.rules.map(rule => `${rule.description} (${rule.weight})`).join("، ")}`,
+      9
+    );
+  }
+
+  section("الخدمات المطلوبة");
+  if (services.length === 0) write("لا توجد خدمات مطلوبة");
+  for (const service of services) {
+    write(
+      `${serviceTypeLabel[service.serviceType]} - ${service.status}${service.assignedTo ? ` (${service.assignedTo})` : ""}`
+    );
+  }
+
+  section("تحليل الفيديو");
+  write(`عدد المركبات: ${report.videoAnalysis.vehicleCount}`);
+  write(`نقطة الاصطدام: ${report.videoAnalysis.impactPoint}`);
+  write(`تحليل المسار: ${report.videoAnalysis.trajectoryAnalysis}`);
+  write(`السرعة المقدرة: ${report.videoAnalysis.estimatedSpeed} كم/س`);
+
+  section("القرار الذكي");
+  write(report.reportSummary);
+
+  if (thumbnails.length > 0) {
+    section("الصور والمرفقات");
+    let column = 0;
+    for (const thumbnail of thumbnails) {
+      if (!thumbnail.image || !thumbnail.format) {
+        write(`${thumbnail.description ?? "مرفق"}: ${thumbnail.url}`, 9);
+        continue;
+      }
+
+      if (column === 0) ensureSpace(THUMBNAIL_SIZE + LINE_HEIGHT);
+      doc.addImage(
+        thumbnail.image,
+        thumbnail.format,
+        thumbnailX(right, column),
+        y,
+        THUMBNAIL_SIZE,
+        THUMBNAIL_SIZE * 0.75
+      );
+      column = (column + 1) % THUMBNAILS_PER_ROW;
+      if (column === 0) y += THUMBNAIL_SIZE * 0.75 + 4;
+    }
+    if (column !== 0) y += THUMBNAIL_SIZE * 0.75 + 4;
+  }
+
+  return new Uint8Array(doc.output("arraybuffer"));
+}
+
+export function detectImageFormat(bytes: Uint8Array): PdfThumbnail["format"] {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "JPEG";
+  if (
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47
+  ) {
+    return "PNG";
+  }
+  return null;
+}
+
+/**
+ * تحميل الصور المصغرة للتقرير (الفيديو يظهر كرابط فقط)
+ */
+async function loadThumbnails(media: IncidentMedia[]): Promise<PdfThumbnail[]> {
+  const thumbnails: PdfThumbnail[] = [];
+
+  for (const item of media.slice(0, MAX_THUMBNAILS)) {
+    const resolved = await resolveMediaUrls(item);
+    if (!resolved.url) continue;
+
+    const thumbnail: PdfThumbnail = {
+      url: resolved.url,
+      description: item.description,
+      image: null,
+      format: null,
+    };
+
+    if (item.mediaType === "image") {
+      try {
+        // الصورة المصغرة من EXIF إن وجدت بدلاً من الصورة الكاملة
+        const response = await fetch(resolved.thumbnailUrl ?? resolved.url);
+        if (response.ok) {
+          const bytes = new Uint8Array(await response.arrayBuffer());
+          thumbnail.format = detectImageFormat(bytes);
+          thumbnail.image = thumbnail.format ? bytes : null;
+        }
+      } catch (error) {
+        console.warn(
+          `[ReportPdf] Failed to load image ${resolved.url}:`,
+          error
+        );
+      }
+    }
+
+    thumbnails.push(thumbnail);
+  }
+
+  return thumbnails;
+}
+
+/**
+ * إنشاء نسخة PDF جديدة من التقرير وأرشفتها تحت مفتاح خاص بالحادث
+ */
+export async function archiveSmartReportPdf(
+  incidentId: number,
+  generatedBy?: number
+) {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const [report, parties, services, media, latest] = await Promise.all([
+    generateSmartReport(incidentId),
+    getIncidentParties(incidentId),
+    getIncidentServices(incidentId),
+    getIncidentMedia(incidentId),
+    getLatestReportDocument(incidentId),
+  ]);
+
+  const pdf = renderSmartReportPdf({
+    report,
+    incident,
+    parties,
+    services,
+    thumbnails: await loadThumbnails(media),
+    generatedAt: new Date(),
+  });
+
+  const version = (latest?.version ?? 0) + 1;
+  const sha256 = createHash("sha256").update(pdf).digest("hex");
+  const { key } = await storagePut(
+    `incidents/${incidentId}/reports/smart-report-v${version}-${sha256.slice(0, 12)}.pdf`,
+    pdf,
+    "application/pdf"
+  );
+
+  const result = await addReportDocument({
+    incidentId,
+    version,
+    storageKey: key,
+    sha256,
+    sizeBytes: pdf.byteLength,
+    generatedBy,
+  });
+
+  await addIncidentHistory({
+    incidentId,
+    type: "report.document_generated",
+    details: `Smart report PDF version ${version} archived`,
+    payload: {
+      previous: latest
+        ? {
+            reportDocumentId: latest.id,
+            version: latest.version,
+            sha256: latest.sha256,
+          }
+        : null,
+      next: { reportDocumentId: result.insertId, version, sha256 },
+    },
+    performedBy: generatedBy,
+  });
+
+  return {
+    id: result.insertId,
+    incidentId,
+    version,
+    storageKey: key,
+    sha256,
+    sizeBytes: pdf.byteLength,
+  };
+}
+
+export type ReportDocumentStore = {
+  getLatest: (incidentId: number) => Promise<ReportDocument | null>;
+  archive: typeof archiveSmartReportPdf;
+};
+
+/**
+ * أحدث نسخة مؤرشفة، أو إنشاء نسخة أولى إذا لم توجد
+ * فكل الإرسالات للحادث تشير إلى الملف نفسه حتى يُطلب إصدار جديد
+ */
+export async function getOrCreateReportDocument(
+  incidentId: number,
+  generatedBy?: number,
+  store: ReportDocumentStore = {
+    getLatest: getLatestReportDocument,
+    archive: archiveSmartReportPdf,
+  }
+) {
+  return (
+    (await store.getLatest(incidentId)) ??
+    (await store.archive(incidentId, generatedBy))
+  );
+}
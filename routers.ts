@@ -1,26 +1,304 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router, protectedProcedure } from "./_core/trpc";
+import { publicProcedure, router, protectedProcedure, adminProcedure } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import type { Incident, IncidentParty, User } from "../drizzle/schema";
 import {
   createIncident,
   getIncidentById,
   getAllIncidents,
-  updateIncidentStatus,
+  getImageAnalyses,
+  acceptImageAnalysis,
+  getOpenIncidentsNear,
+  mergeIncidents,
+  setIncidentDuplicateOf,
+  searchIncidents,
+  transitionIncidentStatus,
+  assignIncidentAgency,
+  unassignIncidentAgency,
+  getIncidentAgencies,
   addIncidentParty,
   getIncidentParties,
-  updatePartyFaultPercentage,
-  createService,
+  setIncidentFaultSplit,
   getIncidentServices,
+  getServiceById,
   updateServiceStatus,
+  createServiceUnit,
+  getServiceUnits,
+  updateServiceUnit,
+  getServiceTrack,
+  getReportDocuments,
+  updatePartyFacts,
+  getFaultAssessmentById,
+  getFaultAssessments,
+  getLinkedIncidentHistory,
+  getMergedIncidentIds,
   addIncidentMedia,
   getIncidentMedia,
   addIncidentHistory,
   getIncidentHistory,
+  searchIncidentHistory,
   getTodayStatistics,
+  getStatisticsRange,
+  rebuildStatistics,
+  getJobById,
+  getJobs,
+  getSchedulerRuns,
+  getDispatchRules,
+  getDispatchRuleById,
+  createDispatchRule,
+  updateDispatchRule,
+  deleteDispatchRule,
+  replaceDispatchRules,
+  getSlaTargets,
+  upsertSlaTarget,
+  deleteSlaTargets,
+  getSlaBreaches,
+  getReportSends,
+  recordPersonalDataAccess,
+  getPersonalDataAccessLog,
+  getUserById,
+  searchUsers,
+  getUserActivity,
+  getUserAuditLog,
+  changeUserRole,
+  setUserActive,
 } from "./db";
 import { eq } from "drizzle-orm";
+import { IncidentTransitionError } from "./incidentLifecycle";
+import { ServiceTransitionError } from "./serviceLifecycle";
+import { FaultSplitError, type FaultShare } from "./faultApportionment";
+import { FaultAssessmentError } from "./faultEngine";
+import { ImageAnalysisError } from "./incidentAnalyzer";
+import { InvalidSearchCursorError } from "./incidentSearch";
+import { findHotspots } from "./hotspots";
+import {
+  findDuplicateMatches,
+  getDuplicateDetectionOptions,
+  IncidentMergeError,
+} from "./duplicateDetection";
+import { screenIncidentForDuplicates } from "./automationEngine";
+import { toCoordinates } from "./geo";
+import { enqueueJob, JobQueueError, retryDeadJob } from "./jobQueue";
+import { getIncidentPipeline } from "./incidentPipeline";
+import { getSchedulerStatus, SCHEDULED_TASK_NAMES } from "./scheduler";
+import { DEFAULT_DISPATCH_RULES } from "./dispatchRules";
+import { getIncidentSla, getSlaComplianceReport, resolveSlaTargets } from "./sla";
+import {
+  completeMediaUpload,
+  MediaUploadError,
+  resolveMediaUrls,
+  startMediaUpload,
+  uploadMediaChunk,
+} from "./mediaUpload";
+import { describeDispatch, dispatchService } from "./dispatch";
+import { ingestServicePosition } from "./tracking";
+import { subscribeRealtimeEvents } from "./realtime";
+import { markReportRead, processPendingReportSends } from "./reportDelivery";
+import { archiveSmartReportPdf, getOrCreateReportDocument } from "./reportPdf";
+import { storageGet } from "./storage";
+import { UserManagementError } from "./userManagement";
+import {
+  assertIncidentAccess,
+  assertPermission,
+  assertRealtimeAccess,
+  canViewPersonalData,
+  incidentScope,
+  permissionProcedure,
+  serviceScope,
+  unitScope,
+} from "./authorization";
+import { agencyScopeOf, hasPermission, USER_ROLES } from "./permissions";
+import {
+  maskHistoryEntry,
+  maskParty,
+  maskReportSend,
+  personalDataReplacements,
+} from "./personalData";
+import { assessIncidentFault, rederiveFaultAssessment } from "./smartReports";
+import {
+  buildHistoryExport,
+  HistoryChainError,
+  signHistoryExport,
+  verifyHistoryChain,
+} from "./historyChain";
+import { HISTORY_EVENT_TYPES } from "./historyEvents";
+
+const MAX_REBUILD_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+const dispatchRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().optional(),
+  sortOrder: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  // الشروط الفارغة تطابق كل حادث
+  conditions: z
+    .object({
+      incidentTypes: z.array(z.enum(["injury", "breakdown", "traffic"])).optional(),
+      severities: z.array(z.enum(["low", "medium", "high", "critical"])).optional(),
+      minVehicles: z.number().int().min(0).optional(),
+      maxVehicles: z.number().int().min(0).optional(),
+      injuries: z.boolean().optional(),
+      timesOfDay: z.array(z.enum(["night", "morning", "afternoon", "evening"])).optional(),
+      zone: z
+        .object({
+          name: z.string().min(1),
+          north: z.number().min(-90).max(90),
+          south: z.number().min(-90).max(90),
+          east: z.number().min(-180).max(180),
+          west: z.number().min(-180).max(180),
+        })
+        .refine((zone) => zone.north >= zone.south, "Zone north must be at or above south")
+        .optional(),
+    })
+    .refine(
+      (conditions) =>
+        conditions.minVehicles === undefined ||
+        conditions.maxVehicles === undefined ||
+        conditions.minVehicles <= conditions.maxVehicles,
+      "minVehicles must not exceed maxVehicles"
+    ),
+  services: z
+    .array(
+      z.object({
+        serviceType: z.enum(["ambulance", "tow_truck", "traffic_control", "police", "fire"]),
+        priority: z.enum(["immediate", "urgent", "normal"]),
+      })
+    )
+    .min(1)
+    .refine(
+      (services) => new Set(services.map((service) => service.serviceType)).size === services.length,
+      "Each service type may appear once per rule"
+    ),
+});
+
+const historyFilterSchema = z.object({
+  eventTypes: z.array(z.enum(HISTORY_EVENT_TYPES)).optional(),
+  performedBy: z.number().optional(),
+  from: z.date().optional(),
+  to: z.date().optional(),
+});
+
+async function applyFaultSplit(
+  incidentId: number,
+  split: FaultShare[],
+  performedBy: number
+) {
+  try {
+    return await setIncidentFaultSplit(incidentId, split, performedBy);
+  } catch (error) {
+    if (error instanceof FaultSplitError) {
+      throw new TRPCError({
+        code: error.code === "incident_not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+async function withFaultAssessmentErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof FaultAssessmentError) {
+      throw new TRPCError({
+        code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+async function withIncidentMergeErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof IncidentMergeError) {
+      throw new TRPCError({
+        code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+async function withMediaUploadErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof MediaUploadError) {
+      throw new TRPCError({
+        code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * أطراف الحادث كما يراها المستخدم: مخفية البيانات الشخصية لغير المخول،
+ * وعرضها كاملة يُسجل في سجل الاطلاع
+ */
+async function partiesForViewer(
+  user: User | null,
+  incident: Incident,
+  parties: IncidentParty[],
+  source: string
+) {
+  if (!user || !(await canViewPersonalData(user, incident))) {
+    return parties.map(maskParty);
+  }
+
+  await recordPersonalDataAccess(user.id, incident.id, parties.map((party) => party.id), source);
+  return parties;
+}
+
+/**
+ * البيانات الشخصية المعروفة للحادث وصيغها المخفية لإخفائها من السجل التاريخي،
+ * أو null إذا كان المستخدم مخولاً بعرضها كاملة
+ */
+async function historyReplacementsForViewer(
+  user: User | null,
+  incidentId: number,
+  mergedIncidentIds: number[] = []
+): Promise<Map<string, string> | null> {
+  const incident = await getIncidentById(incidentId);
+  if (!incident || (user && (await canViewPersonalData(user, incident)))) {
+    return null;
+  }
+
+  // أطراف المدموج نُقلت إلى الحادث الباقي، وإرسالات تقاريره بقيت عليه
+  const [parties, sends] = await Promise.all([
+    getIncidentParties(incidentId),
+    Promise.all([incidentId, ...mergedIncidentIds].map(getReportSends)),
+  ]);
+  return personalDataReplacements(parties, sends.flat());
+}
+
+async function withUserManagementErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof UserManagementError) {
+      throw new TRPCError({
+        code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+        message: error.message,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -35,6 +313,101 @@ export const appRouter = router({
     }),
   }),
 
+  // ===== User Management (admins only) =====
+  users: router({
+    // البحث في المستخدمين (الأحدث تسجيلاً أولاً)
+    list: adminProcedure
+      .input(
+        z.object({
+          text: z.string().optional(),
+          role: z.enum(USER_ROLES).optional(),
+          status: z.enum(["active", "deactivated"]).optional(),
+          limit: z.number().int().min(1).max(100).default(25),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ input }) => {
+        return await searchUsers(input);
+      }),
+
+    get: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(async ({ input }) => {
+        const user = await getUserById(input.userId);
+        if (!user) throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+        return user;
+      }),
+
+    // البلاغات المقدمة والإجراءات المنفذة وسجل تعديلات الحساب
+    activity: adminProcedure
+      .input(
+        z.object({
+          userId: z.number(),
+          limit: z.number().int().min(1).max(100).default(20),
+        })
+      )
+      .query(async ({ input }) => {
+        const user = await getUserById(input.userId);
+        if (!user) throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+
+        const [activity, auditTrail] = await Promise.all([
+          getUserActivity(input.userId, input.limit),
+          getUserAuditLog({ userId: input.userId, limit: input.limit }),
+        ]);
+        return { user, ...activity, auditTrail };
+      }),
+
+    setRole: adminProcedure
+      .input(
+        z.object({
+          userId: z.number(),
+          role: z.enum(USER_ROLES),
+          // مطلوبة لأدوار الجهات
+          agency: z.string().trim().min(1).optional(),
+          reason: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        return await withUserManagementErrors(() =>
+          changeUserRole(input.userId, input.role, {
+            performedBy: ctx.user.id,
+            reason: input.reason,
+            agency: input.agency,
+          })
+        );
+      }),
+
+    // الحساب المعطل لا يجتاز المصادقة حتى يعاد تفعيله
+    deactivate: adminProcedure
+      .input(z.object({ userId: z.number(), reason: z.string().optional() }))
+      .mutation(async ({ input, ctx }) => {
+        return await withUserManagementErrors(() =>
+          setUserActive(input.userId, false, { performedBy: ctx.user.id, reason: input.reason })
+        );
+      }),
+
+    reactivate: adminProcedure
+      .input(z.object({ userId: z.number(), reason: z.string().optional() }))
+      .mutation(async ({ input, ctx }) => {
+        return await withUserManagementErrors(() =>
+          setUserActive(input.userId, true, { performedBy: ctx.user.id, reason: input.reason })
+        );
+      }),
+
+    // سجل التدقيق: تعديلات حساب معين أو التعديلات التي نفذها مدير (الأحدث أولاً)
+    auditLog: adminProcedure
+      .input(
+        z.object({
+          userId: z.number().optional(),
+          performedBy: z.number().optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+      )
+      .query(async ({ input }) => {
+        return await getUserAuditLog(input);
+      }),
+  }),
+
   // ===== Incident Management Procedures =====
   incidents: router({
     // إنشاء بلاغ حادث جديد
@@ -63,119 +436,169 @@ export const appRouter = router({
         // تسجيل الحادث في السجل التاريخي
         await addIncidentHistory({
           incidentId: result.insertId as number,
-          action: "Incident created",
+          type: "incident.created",
           details: `Incident of type ${input.incidentType} reported at ${input.location}`,
+          payload: {
+            previous: null,
+            next: {
+              incidentType: input.incidentType,
+              severity: input.severity ?? "medium",
+              location: input.location,
+            },
+          },
           performedBy: ctx.user.id,
         });
 
-        return { id: result.insertId };
+        // البلاغات المكررة تُدمج أو تُعلّم قبل أن تبدأ معالجتها
+        const duplicate = await screenIncidentForDuplicates(result.insertId as number);
+
+        // المعالجة التلقائية تبدأ في الخلفية، وحالتها تظهر في jobs.listByIncident
+        if (duplicate.outcome === "unique") {
+          await enqueueJob(
+            "smart_report",
+            { incidentId: result.insertId as number },
+            { createdBy: ctx.user.id }
+          );
+        }
+
+        return {
+          id: result.insertId,
+          duplicate: {
+            outcome: duplicate.outcome,
+            incidentId: duplicate.match?.incidentId ?? null,
+          },
+        };
+      }),
+
+    // الحوادث المفتوحة التي قد يكون البلاغ مكرراً لها
+    duplicateCandidates: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .use(incidentScope((input) => input.id))
+      .query(async ({ input }) => {
+        const incident = await getIncidentById(input.id);
+        if (!incident) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+        }
+
+        const options = getDuplicateDetectionOptions();
+        const candidates = await getOpenIncidentsNear(
+          toCoordinates(incident.latitude, incident.longitude),
+          options.radiusKm,
+          new Date(incident.reportedAt.getTime() - options.windowMinutes * 60000)
+        );
+        return findDuplicateMatches(incident, candidates, options);
+      }),
+
+    // دمج بلاغ مكرر في الحادث الباقي
+    merge: permissionProcedure("incident:merge")
+      .input(
+        z.object({
+          survivorId: z.number(),
+          mergedId: z.number(),
+          reason: z.string().optional(),
+        })
+      )
+      .use(incidentScope((input) => input.survivorId))
+      .use(incidentScope((input) => input.mergedId))
+      .mutation(async ({ input, ctx }) => {
+        return await withIncidentMergeErrors(() =>
+          mergeIncidents(input.survivorId, input.mergedId, {
+            performedBy: ctx.user.id,
+            reason: input.reason,
+          })
+        );
+      }),
+
+    // تأكيد أن البلاغ المعلّم كمكرر حادث مستقل، ليعود إلى المعالجة التلقائية
+    dismissDuplicate: permissionProcedure("incident:merge")
+      .input(z.object({ id: z.number() }))
+      .use(incidentScope((input) => input.id))
+      .mutation(async ({ input, ctx }) => {
+        await withIncidentMergeErrors(() =>
+          setIncidentDuplicateOf(input.id, null, ctx.user.id)
+        );
+        return { success: true };
       }),
 
      // الحصول على بيانات الحادث
     getById: publicProcedure
       .input(z.object({ id: z.number() }))
+      .use(incidentScope((input) => input.id))
       .query(async ({ input }) => {
         return await getIncidentById(input.id);
       }),
 
+    // حالة المعالجة التلقائية: الخطوات المكتملة والخطوة الفاشلة وسببها
+    getPipeline: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .use(incidentScope((input) => input.id))
+      .query(async ({ input }) => {
+        return await getIncidentPipeline(input.id);
+      }),
+
     // تحليل الصور باستخدام AI
     analyzeImages: protectedProcedure
       .input(
-        z.object({
-          images: z.array(z.string()),
-          incidentType: z.enum(["injury", "breakdown", "traffic"]),
-        })
+        z
+          .object({
+            incidentId: z.number(),
+            // صور الحادث المرفوعة، أو روابط صور مباشرة
+            mediaIds: z.array(z.number()).optional(),
+            images: z.array(z.string()).optional(),
+          })
+          .refine(
+            (input) => input.mediaIds?.length || input.images?.length,
+            "Provide mediaIds or images"
+          )
       )
-      .mutation(async ({ input }) => {
-        try {
-          const { invokeLLM } = await import("./_core/llm");
-
-          // بناء رسالة للنموذج
-          const imageContents = input.images.map((image) => ({
-            type: "image_url" as const,
-            image_url: {
-              url: image,
-              detail: "high" as const,
-            },
-          }));
-
-          const response = await invokeLLM({
-            messages: [
-              {
-                role: "system",
-                content: `أنت متخصص في تحليل حوادث المرور. قم بتحليل الصور واستخراج البيانات المهمة بصيغة JSON.`,
-              },
-              {
-                role: "user",
-                content: [
-                  ...imageContents,
-                  {
-                    type: "text",
-                    text: `النوع المبلغ عنه: ${input.incidentType}
-
-استخرج البيانات التالية بصيغة JSON:
-{
-  "description": "وصف مفصل للحادث",
-  "damageLevel": "نسبة الضرر من 0-100",
-  "affectedParts": ["الأجزاء المتضررة"],
-  "severity": "مستوى الخطورة: low/medium/high/critical",
-  "estimatedCost": "التكلفة المقدرة بالريال",
-  "recommendations": ["التوصيات"]
-}`,
-                  },
-                ],
-              },
-            ],
-            response_format: {
-              type: "json_schema",
-              json_schema: {
-                name: "incident_analysis",
-                strict: true,
-                schema: {
-                  type: "object",
-                  properties: {
-                    description: { type: "string" },
-                    damageLevel: { type: "number" },
-                    affectedParts: { type: "array", items: { type: "string" } },
-                    severity: { type: "string" },
-                    estimatedCost: { type: "number" },
-                    recommendations: { type: "array", items: { type: "string" } },
-                  },
-                  required: [
-                    "description",
-                    "damageLevel",
-                    "affectedParts",
-                    "severity",
-                    "estimatedCost",
-                    "recommendations",
-                  ],
-                  additionalProperties: false,
-                },
-              },
-            },
-          });
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        // التحليل يعمل في الخلفية، ونتيجته في jobs.getStatus ثم getImageAnalyses
+        const job = await enqueueJob(
+          "image_analysis",
+          {
+            incidentId: input.incidentId,
+            mediaIds: input.mediaIds,
+            imageUrls: input.images,
+            performedBy: ctx.user.id,
+          },
+          { createdBy: ctx.user.id }
+        );
 
-          // استخراج البيانات
-          const content = response.choices[0]?.message?.content;
-          const extractedData = typeof content === 'string' ? JSON.parse(content) : null;
+        return { jobId: job.id, status: "queued" as const };
+      }),
 
-          return {
-            success: true,
-            extractedData,
-          };
+    // تحليلات الصور المحفوظة للحادث (الأحدث أولاً)
+    getImageAnalyses: publicProcedure
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input }) => {
+        return await getImageAnalyses(input.incidentId);
+      }),
+
+    // اعتماد تحليل كمرجع: يحدّث خطورة الحادث ويسجل ذلك في السجل التاريخي
+    acceptImageAnalysis: permissionProcedure("analysis:accept")
+      .input(z.object({ analysisId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          return await acceptImageAnalysis(input.analysisId, ctx.user.id);
         } catch (error) {
-          console.error("Error analyzing images:", error);
-          return {
-            success: false,
-            extractedData: null,
-          };
+          if (error instanceof ImageAnalysisError) {
+            throw new TRPCError({
+              code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+              message: error.message,
+              cause: error,
+            });
+          }
+          throw error;
         }
       }),
 
     // الحصول على بيانات الحادث الكاملة مع التفاصيل (الخدمات، الأطراف، الصور)
     getFullDetails: publicProcedure
       .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
+      .use(incidentScope((input) => input.id))
+      .query(async ({ input, ctx }) => {
         const incident = await getIncidentById(input.id);
         if (!incident) return null;
 
@@ -186,12 +609,12 @@ export const appRouter = router({
         return {
           incident,
           services,
-          parties,
+          parties: await partiesForViewer(ctx.user, incident, parties, "incidents.getFullDetails"),
           media,
         };
       }),
 
-    // الحصول على جميع الحوادث
+    // الحصول على جميع الحوادث (أدوار الجهات ترى حوادث جهتها فقط)
     list: publicProcedure
       .input(
         z.object({
@@ -199,31 +622,142 @@ export const appRouter = router({
           offset: z.number().default(0),
         })
       )
-      .query(async ({ input }) => {
-        return await getAllIncidents(input.limit, input.offset);
+      .query(async ({ input, ctx }) => {
+        const agency = ctx.user ? agencyScopeOf(ctx.user) : null;
+        return await getAllIncidents(input.limit, input.offset, agency ?? undefined);
+      }),
+
+    // البحث في الحوادث مع التصفية والترتيب والترقيم بمؤشر وأعداد التصنيفات
+    search: publicProcedure
+      .input(
+        z.object({
+          incidentTypes: z.array(z.enum(["injury", "breakdown", "traffic"])).optional(),
+          statuses: z
+            .array(z.enum(["pending", "assigned", "in_progress", "resolved", "closed"]))
+            .optional(),
+          severities: z.array(z.enum(["low", "medium", "high", "critical"])).optional(),
+          reporterId: z.number().optional(),
+          createdFrom: z.date().optional(),
+          createdTo: z.date().optional(),
+          text: z.string().max(200).optional(),
+          bounds: z
+            .object({
+              north: z.number().min(-90).max(90),
+              south: z.number().min(-90).max(90),
+              east: z.number().min(-180).max(180),
+              west: z.number().min(-180).max(180),
+            })
+            .optional(),
+          near: z
+            .object({
+              latitude: z.number().min(-90).max(90),
+              longitude: z.number().min(-180).max(180),
+              radiusKm: z.number().positive().max(500),
+            })
+            .optional(),
+          sort: z
+            .object({
+              field: z.enum(["createdAt", "updatedAt", "severity"]),
+              direction: z.enum(["asc", "desc"]),
+            })
+            .default({ field: "createdAt", direction: "desc" }),
+          cursor: z.string().optional(),
+          limit: z.number().min(1).max(100).default(25),
+        })
+      )
+      .query(async ({ input, ctx }) => {
+        const { sort, cursor, limit, ...filters } = input;
+        const agency = ctx.user ? agencyScopeOf(ctx.user) : null;
+        try {
+          return await searchIncidents({
+            filters: { ...filters, agency: agency ?? undefined },
+            sort,
+            cursor,
+            limit,
+          });
+        } catch (error) {
+          if (error instanceof InvalidSearchCursorError) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: error.message, cause: error });
+          }
+          throw error;
+        }
       }),
 
     // تحديث حالة الحادث
-    updateStatus: protectedProcedure
+    updateStatus: permissionProcedure("incident:update-status")
       .input(
         z.object({
           id: z.number(),
           status: z.enum(["pending", "assigned", "in_progress", "resolved", "closed"]),
+          // مطلوب عند الحل أو الإغلاق أو إعادة الفتح
+          reason: z.string().optional(),
         })
       )
+      .use(incidentScope((input) => input.id))
       .mutation(async ({ input, ctx }) => {
-        // التحقق من الصلاحيات (يجب أن يكون operator أو admin)
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized: Only operators and admins can update incident status");
+        // الانتقال والتسجيل في السجل التاريخي يتمان معاً وفق دورة حياة الحادث
+        try {
+          const transition = await transitionIncidentStatus(input.id, input.status, {
+            performedBy: ctx.user.id,
+            reason: input.reason,
+          });
+          return { success: true, ...transition };
+        } catch (error) {
+          if (error instanceof IncidentTransitionError) {
+            throw new TRPCError({
+              code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+              message: error.message,
+              cause: error,
+            });
+          }
+          throw error;
         }
+      }),
 
-        await updateIncidentStatus(input.id, input.status);
+    // الجهات المسندة للحادث والجهات الموجهة وحداتها إليه
+    getAgencies: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .use(incidentScope((input) => input.id))
+      .query(async ({ input }) => {
+        return await getIncidentAgencies(input.id);
+      }),
+
+    // إسناد الحادث لجهة لتراه أدوارها
+    assignAgency: permissionProcedure("incident:assign-agency")
+      .input(z.object({ id: z.number(), agency: z.string().trim().min(1) }))
+      .mutation(async ({ input, ctx }) => {
+        const incident = await getIncidentById(input.id);
+        if (!incident) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+        }
+
+        const assigned = await assignIncidentAgency(input.id, input.agency, ctx.user.id);
+        if (assigned) {
+          await addIncidentHistory({
+            incidentId: input.id,
+            type: "incident.agency_assigned",
+            details: `Incident assigned to ${input.agency}`,
+            payload: { previous: null, next: input.agency },
+            performedBy: ctx.user.id,
+          });
+        }
+
+        return { success: true, assigned };
+      }),
+
+    unassignAgency: permissionProcedure("incident:assign-agency")
+      .input(z.object({ id: z.number(), agency: z.string().trim().min(1) }))
+      .mutation(async ({ input, ctx }) => {
+        const removed = await unassignIncidentAgency(input.id, input.agency);
+        if (!removed) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Agency is not assigned to this incident" });
+        }
 
-        // تسجيل الإجراء في السجل التاريخي
         await addIncidentHistory({
           incidentId: input.id,
-          action: "Status updated",
-          details: `Status changed to ${input.status}`,
+          type: "incident.agency_unassigned",
+          details: `Incident no longer assigned to ${input.agency}`,
+          payload: { previous: input.agency, next: null },
           performedBy: ctx.user.id,
         });
 
@@ -234,7 +768,7 @@ export const appRouter = router({
   // ===== Incident Parties Management =====
   parties: router({
     // إضافة طرف متورط في الحادث
-    add: protectedProcedure
+    add: permissionProcedure("party:add")
       .input(
         z.object({
           incidentId: z.number(),
@@ -243,11 +777,8 @@ export const appRouter = router({
           vehicleNumber: z.string().optional(),
         })
       )
+      .use(incidentScope((input) => input.incidentId))
       .mutation(async ({ input, ctx }) => {
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized");
-        }
-
         const result = await addIncidentParty({
           incidentId: input.incidentId,
           partyName: input.partyName,
@@ -257,23 +788,48 @@ export const appRouter = router({
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Party added",
+          type: "party.added",
           details: `Party ${input.partyName} added to incident`,
+          payload: {
+            previous: null,
+            next: { partyId: result.insertId as number, partyName: input.partyName },
+          },
           performedBy: ctx.user.id,
         });
 
         return { id: result.insertId };
       }),
 
-    // الحصول على الأطراف المتورطة في حادث
+    // الحصول على الأطراف المتورطة في حادث (الجوال واللوحة مخفيان لغير المخول)
     getByIncident: publicProcedure
       .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input, ctx }) => {
+        const incident = await getIncidentById(input.incidentId);
+        if (!incident) return [];
+
+        const parties = await getIncidentParties(input.incidentId);
+        return await partiesForViewer(ctx.user, incident, parties, "parties.getByIncident");
+      }),
+
+    // سجل الاطلاع على البيانات الشخصية للأطراف (الأحدث أولاً)
+    accessLog: adminProcedure
+      .input(
+        z.object({
+          incidentId: z.number().optional(),
+          partyId: z.number().optional(),
+          userId: z.number().optional(),
+          from: z.date().optional(),
+          to: z.date().optional(),
+          limit: z.number().int().min(1).max(500).default(100),
+        })
+      )
       .query(async ({ input }) => {
-        return await getIncidentParties(input.incidentId);
+        return await getPersonalDataAccessLog(input);
       }),
 
-    // تحديث نسبة الخطأ
-    updateFaultPercentage: protectedProcedure
+    // تحديث نسبة خطأ طرف واحد (يجب أن يبقى مجموع نسب الأطراف صحيحاً)
+    updateFaultPercentage: permissionProcedure("party:set-fault")
       .input(
         z.object({
           partyId: z.number(),
@@ -281,65 +837,181 @@ export const appRouter = router({
           faultPercentage: z.number().min(0).max(100),
         })
       )
+      .use(incidentScope((input) => input.incidentId))
       .mutation(async ({ input, ctx }) => {
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized");
+        const parties = await getIncidentParties(input.incidentId);
+        const split = parties.map((party) => ({
+          partyId: party.id,
+          faultPercentage:
+            party.id === input.partyId
+              ? input.faultPercentage
+              : party.faultPercentage ?? 0,
+        }));
+
+        await applyFaultSplit(input.incidentId, split, ctx.user.id);
+        return { success: true };
+      }),
+
+    // تعيين نسب الخطأ لجميع الأطراف دفعة واحدة (المجموع 100%، أو 0% للتعطل)
+    setFaultSplit: permissionProcedure("party:set-fault")
+      .input(
+        z.object({
+          incidentId: z.number(),
+          split: z
+            .array(
+              z.object({
+                partyId: z.number(),
+                faultPercentage: z.number().int().min(0).max(100),
+              })
+            )
+            .min(1),
+        })
+      )
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        return await applyFaultSplit(
+          input.incidentId,
+          input.split,
+          ctx.user.id
+        );
+      }),
+  }),
+
+  // ===== Fault Assessment =====
+  faults: router({
+    // تسجيل إفادات الطرف المستخدمة في حساب نسبة الخطأ
+    updatePartyFacts: permissionProcedure("party:update-facts")
+      .input(
+        z.object({
+          partyId: z.number(),
+          incidentId: z.number(),
+          facts: z.object({
+            speedKmh: z.number().min(0).optional(),
+            speedLimitKmh: z.number().min(0).optional(),
+            hadRightOfWay: z.boolean().optional(),
+            impactPoint: z.enum(["front", "rear", "side", "none"]).optional(),
+            ranRedLight: z.boolean().optional(),
+            wasStationary: z.boolean().optional(),
+            wasReversing: z.boolean().optional(),
+            changedLane: z.boolean().optional(),
+            usingPhone: z.boolean().optional(),
+            // يُستخدم في قواعد التوجيه (شرط الإصابات)
+            injured: z.boolean().optional(),
+          }),
+        })
+      )
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        // الطرف يجب أن يكون من الحادث الذي تم التحقق من نطاقه
+        const party = (await getIncidentParties(input.incidentId)).find((p) => p.id === input.partyId);
+        if (!party) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Party not found in this incident" });
         }
 
-        await updatePartyFaultPercentage(input.partyId, input.faultPercentage);
+        await updatePartyFacts(input.partyId, input.facts);
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Fault percentage updated",
-          details: `Fault percentage set to ${input.faultPercentage}%`,
+          type: "party.facts_updated",
+          details: `Facts recorded for party #${input.partyId}`,
+          payload: { previous: party.facts ?? null, next: input.facts, partyId: input.partyId },
           performedBy: ctx.user.id,
         });
 
         return { success: true };
       }),
+
+    // حساب نسبة الخطأ وحفظ التقييم مع إصدار القواعد
+    assess: permissionProcedure("fault:assess")
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        return await withFaultAssessmentErrors(() =>
+          assessIncidentFault(input.incidentId, ctx.user.id)
+        );
+      }),
+
+    // التقييمات المحفوظة للحادث
+    getByIncident: protectedProcedure
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input }) => {
+        return await getFaultAssessments(input.incidentId);
+      }),
+
+    // إعادة اشتقاق تقييم محفوظ للتحقق منه
+    rederive: permissionProcedure("fault:assess")
+      .input(z.object({ assessmentId: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const assessment = await getFaultAssessmentById(input.assessmentId);
+        if (!assessment) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Fault assessment not found" });
+        }
+        await assertIncidentAccess(ctx.user, assessment.incidentId);
+
+        return await withFaultAssessmentErrors(() =>
+          rederiveFaultAssessment(input.assessmentId)
+        );
+      }),
   }),
 
   // ===== Services Management =====
   services: router({
     // إنشاء طلب خدمة
-    create: protectedProcedure
+    create: permissionProcedure("service:dispatch")
       .input(
         z.object({
           incidentId: z.number(),
           serviceType: z.enum(["ambulance", "tow_truck", "traffic_control", "police", "fire"]),
           assignedTo: z.string().optional(),
+          // وحدة محددة بدلاً من أقرب وحدة متاحة
+          unitId: z.number().optional(),
+          // تحدد هدف SLA للخدمة
+          priority: z.enum(["immediate", "urgent", "normal"]).optional(),
         })
       )
+      .use(incidentScope((input) => input.incidentId))
       .mutation(async ({ input, ctx }) => {
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized");
-        }
-
-        const result = await createService({
-          incidentId: input.incidentId,
-          serviceType: input.serviceType,
+        const result = await dispatchService(input.incidentId, input.serviceType, {
           assignedTo: input.assignedTo,
+          unitId: input.unitId,
+          priority: input.priority,
         });
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Service requested",
-          details: `${input.serviceType} service requested`,
+          type: "service.requested",
+          details: describeDispatch(input.serviceType, result),
+          payload: {
+            previous: null,
+            next: {
+              serviceId: result.serviceId,
+              serviceType: input.serviceType,
+              priority: input.priority ?? "normal",
+              unitId: result.unit?.id ?? null,
+            },
+            reason: null,
+          },
           performedBy: ctx.user.id,
         });
 
-        return { id: result.insertId };
+        return {
+          id: result.serviceId,
+          unitId: result.unit?.id ?? null,
+          distanceKm: result.distanceKm,
+        };
       }),
 
     // الحصول على الخدمات المطلوبة لحادث
     getByIncident: publicProcedure
       .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
       .query(async ({ input }) => {
         return await getIncidentServices(input.incidentId);
       }),
 
     // تحديث حالة الخدمة
-    updateStatus: protectedProcedure
+    updateStatus: permissionProcedure("service:update-status")
       .input(
         z.object({
           id: z.number(),
@@ -347,17 +1019,31 @@ export const appRouter = router({
           status: z.enum(["pending", "assigned", "en_route", "arrived", "completed", "cancelled"]),
         })
       )
+      .use(serviceScope((input) => input.id))
       .mutation(async ({ input, ctx }) => {
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized");
+        const service = await getServiceById(input.id);
+        if (!service || service.incidentId !== input.incidentId) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Service not found in this incident" });
         }
 
-        await updateServiceStatus(input.id, input.status);
+        try {
+          await updateServiceStatus(input.id, input.status);
+        } catch (error) {
+          if (error instanceof ServiceTransitionError) {
+            throw new TRPCError({
+              code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+              message: error.message,
+              cause: error,
+            });
+          }
+          throw error;
+        }
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Service status updated",
+          type: "service.status_changed",
           details: `Service status changed to ${input.status}`,
+          payload: { previous: service.status, next: input.status, serviceId: input.id },
           performedBy: ctx.user.id,
         });
 
@@ -365,10 +1051,141 @@ export const appRouter = router({
       }),
   }),
 
+  // ===== Service Units Registry =====
+  units: router({
+    // الحصول على الوحدات مع التصفية حسب النوع والحالة والجهة
+    list: protectedProcedure
+      .input(
+        z
+          .object({
+            unitType: z.enum(["ambulance", "tow_truck", "traffic_control", "police", "fire"]).optional(),
+            status: z.enum(["available", "busy", "offline"]).optional(),
+            agency: z.string().optional(),
+          })
+          .default({})
+      )
+      .query(async ({ input, ctx }) => {
+        // أدوار الجهات ترى وحدات جهتها فقط
+        return await getServiceUnits({ ...input, agency: agencyScopeOf(ctx.user) ?? input.agency });
+      }),
+
+    // تسجيل وحدة جديدة
+    create: adminProcedure
+      .input(
+        z.object({
+          callSign: z.string().min(1),
+          unitType: z.enum(["ambulance", "tow_truck", "traffic_control", "police", "fire"]),
+          agency: z.string().min(1),
+          homeBase: z.string().optional(),
+          homeLatitude: z.string().optional(),
+          homeLongitude: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input }) => {
+        const result = await createServiceUnit(input);
+        return { id: result.insertId };
+      }),
+
+    // تحديث موقع الوحدة أو إتاحتها
+    update: permissionProcedure("unit:update")
+      .input(
+        z.object({
+          id: z.number(),
+          currentLatitude: z.string().optional(),
+          currentLongitude: z.string().optional(),
+          status: z.enum(["available", "offline"]).optional(),
+        })
+      )
+      .use(unitScope((input) => input.id))
+      .mutation(async ({ input }) => {
+        const { id, ...data } = input;
+        await updateServiceUnit(id, data);
+        return { success: true };
+      }),
+  }),
+
+  // ===== Live Service Tracking =====
+  tracking: router({
+    // استقبال موقع GPS من الوحدة الميدانية
+    pushPosition: permissionProcedure("unit:report-position")
+      .input(
+        z.object({
+          serviceId: z.number(),
+          latitude: z.string(),
+          longitude: z.string(),
+          recordedAt: z.date().optional(),
+        })
+      )
+      .use(serviceScope((input) => input.serviceId))
+      .mutation(async ({ input, ctx }) => {
+        return await ingestServicePosition({ ...input, performedBy: ctx.user.id });
+      }),
+
+    // الحصول على مسار الخدمة لعرضه على الخريطة
+    getTrack: publicProcedure
+      .input(z.object({ serviceId: z.number() }))
+      .use(serviceScope((input) => input.serviceId))
+      .query(async ({ input }) => {
+        return await getServiceTrack(input.serviceId);
+      }),
+  }),
+
+  // ===== Real-time Updates =====
+  realtime: router({
+    // بث أحداث الحوادث والخدمات والوسائط والسجل (SSE)
+    // التصفية: حادث محدد، أو منطقة جغرافية، أو جميع الأحداث
+    onEvent: protectedProcedure
+      .input(
+        z
+          .object({
+            incidentId: z.number().optional(),
+            bounds: z
+              .object({
+                north: z.number().min(-90).max(90),
+                south: z.number().min(-90).max(90),
+                east: z.number().min(-180).max(180),
+                west: z.number().min(-180).max(180),
+              })
+              .optional(),
+            types: z
+              .array(
+                z.enum([
+                  "incident.created",
+                  "incident.status_changed",
+                  "service.created",
+                  "service.status_changed",
+                  "service.sla_breached",
+                  "media.added",
+                  "history.added",
+                ])
+              )
+              .optional(),
+          })
+          .default({})
+      )
+      // البث الكامل للمشغلين، وغيرهم يشترك في حادث واحد من حوادث جهته أو بلاغاته
+      .use(async ({ ctx, input, next }) => {
+        await assertRealtimeAccess(ctx.user, input.incidentId);
+        return next();
+      })
+      .subscription(async function* ({ ctx, input, signal }) {
+        for await (const event of subscribeRealtimeEvents(input, signal)) {
+          // سجلات history.added تحمل نصوص السجل كما هي، فتُخفى لكل مشترك كما في history.getByIncident
+          const replacements =
+            event.type === "history.added"
+              ? await historyReplacementsForViewer(ctx.user, event.incidentId)
+              : null;
+          yield replacements
+            ? { ...event, data: maskHistoryEntry(event.data, replacements) }
+            : event;
+        }
+      }),
+  }),
+
   // ===== Incident Media Management =====
   media: router({
     // إضافة صورة أو فيديو محاكاة
-    add: protectedProcedure
+    add: permissionProcedure("media:add")
       .input(
         z.object({
           incidentId: z.number(),
@@ -378,11 +1195,8 @@ export const appRouter = router({
           isSimulated: z.boolean().optional(),
         })
       )
+      .use(incidentScope((input) => input.incidentId))
       .mutation(async ({ input, ctx }) => {
-        if (ctx.user.role === "user") {
-          throw new Error("Unauthorized");
-        }
-
         const result = await addIncidentMedia({
           incidentId: input.incidentId,
           mediaType: input.mediaType,
@@ -393,29 +1207,360 @@ export const appRouter = router({
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Media added",
+          type: "media.added",
           details: `${input.mediaType} media added to incident`,
+          payload: {
+            previous: null,
+            next: { mediaId: result.insertId as number, mediaType: input.mediaType },
+          },
           performedBy: ctx.user.id,
         });
 
         return { id: result.insertId };
       }),
 
+    // بدء جلسة رفع ملف (المواطن يرفع لبلاغاته فقط)
+    startUpload: protectedProcedure
+      .input(
+        z.object({
+          incidentId: z.number(),
+          fileName: z.string().min(1).max(255),
+          mimeType: z.string(),
+          sizeBytes: z.number().int().positive(),
+          description: z.string().optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        const incident = await getIncidentById(input.incidentId);
+        if (!incident) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+        }
+        if (incident.reporterId !== ctx.user.id) {
+          assertPermission(ctx.user, "media:add");
+          await assertIncidentAccess(ctx.user, input.incidentId);
+        }
+
+        return await withMediaUploadErrors(() =>
+          startMediaUpload({ ...input, userId: ctx.user.id })
+        );
+      }),
+
+    // رفع جزء من الملف (base64)
+    uploadChunk: protectedProcedure
+      .input(
+        z.object({
+          token: z.string(),
+          index: z.number().int().min(0),
+          data: z.string().min(1),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        return await withMediaUploadErrors(() =>
+          uploadMediaChunk({
+            token: input.token,
+            userId: ctx.user.id,
+            index: input.index,
+            bytes: new Uint8Array(Buffer.from(input.data, "base64")),
+          })
+        );
+      }),
+
+    // إكمال الرفع وإنشاء سجل الوسائط
+    completeUpload: protectedProcedure
+      .input(
+        z.object({
+          token: z.string(),
+          sha256: z.string().regex(/^[a-fA-F0-9]{64}$/).optional(),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        return await withMediaUploadErrors(() =>
+          completeMediaUpload({ ...input, userId: ctx.user.id })
+        );
+      }),
+
     // الحصول على الوسائط لحادث
     getByIncident: publicProcedure
       .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
       .query(async ({ input }) => {
-        return await getIncidentMedia(input.incidentId);
+        const media = await getIncidentMedia(input.incidentId);
+        return await Promise.all(media.map(resolveMediaUrls));
       }),
   }),
 
   // ===== Incident History =====
   history: router({
-    // الحصول على السجل التاريخي لحادث
+    // الحصول على السجل التاريخي لحادث (البيانات الشخصية في النصوص مخفية لغير المخول)
     getByIncident: publicProcedure
+      .input(
+        historyFilterSchema.extend({
+          incidentId: z.number(),
+          // سجلات البلاغات المدموجة في الحادث، كل منها بحادثه الأصلي في incidentId
+          includeMerged: z.boolean().default(true),
+        })
+      )
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input, ctx }) => {
+        const { incidentId: _incidentId, includeMerged, ...filter } = input;
+        const mergedIds = includeMerged ? await getMergedIncidentIds(input.incidentId) : [];
+        const history = await getLinkedIncidentHistory([input.incidentId, ...mergedIds], filter);
+        const replacements = await historyReplacementsForViewer(
+          ctx.user,
+          input.incidentId,
+          mergedIds
+        );
+        return replacements
+          ? history.map((entry) => maskHistoryEntry(entry, replacements))
+          : history;
+      }),
+
+    // أحداث السجل عبر الحوادث حسب النوع والمنفذ والفترة، مثل كل تغييرات نسب الخطأ لمشغل محدد
+    search: permissionProcedure("history:search")
+      .input(
+        historyFilterSchema.extend({
+          incidentId: z.number().optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ input }) => {
+        return await searchIncidentHistory(input);
+      }),
+
+    // التحقق من سلسلة البصمات: كل سجل عُدّل أو حُذف أو أُدرج يظهر كسراً في موضعه
+    verify: protectedProcedure
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input }) => {
+        return verifyHistoryChain(await getIncidentHistory(input.incidentId));
+      }),
+
+    // تصدير السلسلة كاملة موقعة بمفتاح الخادم (Ed25519) مع المفتاح العام للتحقق
+    export: permissionProcedure("history:export")
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        const incident = await getIncidentById(input.incidentId);
+        if (!incident) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+        }
+
+        const history = await getIncidentHistory(input.incidentId);
+        try {
+          return signHistoryExport(buildHistoryExport(input.incidentId, history, ctx.user.id));
+        } catch (error) {
+          if (error instanceof HistoryChainError) {
+            throw new TRPCError({ code: "PRECONDITION_FAILED", message: error.message, cause: error });
+          }
+          throw error;
+        }
+      }),
+  }),
+
+  // ===== Background Jobs =====
+  jobs: router({
+    // حالة مهمة واحدة (بلا صلاحية job:manage يرى المستخدم مهامه فقط)
+    getStatus: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const job = await getJobById(input.id);
+        if (!job || (!hasPermission(ctx.user.role, "job:manage") && job.createdBy !== ctx.user.id)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+        }
+        return job;
+      }),
+
+    // مهام الحادث، لعرض "التحليل قيد التنفيذ" في تطبيق المواطن
+    listByIncident: protectedProcedure
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input, ctx }) => {
+        return await getJobs({
+          incidentId: input.incidentId,
+          createdBy: hasPermission(ctx.user.role, "job:manage") ? undefined : ctx.user.id,
+        });
+      }),
+
+    // مهام الطابور للمشغلين، مثلاً المهام الميتة
+    list: permissionProcedure("job:manage")
+      .input(
+        z.object({
+          type: z.enum(["image_analysis", "smart_report", "dispatch", "notification"]).optional(),
+          status: z.enum(["queued", "running", "completed", "dead"]).optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+      )
+      .query(async ({ input }) => {
+        return await getJobs(input);
+      }),
+
+    // إعادة تشغيل مهمة ميتة
+    retry: permissionProcedure("job:manage")
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          return await retryDeadJob(input.id, ctx.user.id);
+        } catch (error) {
+          if (error instanceof JobQueueError) {
+            throw new TRPCError({
+              code: error.code === "not_found" ? "NOT_FOUND" : "BAD_REQUEST",
+              message: error.message,
+              cause: error,
+            });
+          }
+          throw error;
+        }
+      }),
+  }),
+
+  // ===== Dispatch Rules =====
+  dispatchRules: router({
+    // القواعد المحفوظة بترتيب التقييم، أو الافتراضية إذا لم تُحفظ قواعد
+    list: adminProcedure.query(async () => {
+      const rows = await getDispatchRules();
+      return {
+        usingDefaults: rows.length === 0,
+        rules: rows.length > 0 ? rows : DEFAULT_DISPATCH_RULES,
+      };
+    }),
+
+    create: adminProcedure
+      .input(dispatchRuleSchema)
+      .mutation(async ({ input, ctx }) => {
+        const result = await createDispatchRule({
+          ...input,
+          createdBy: ctx.user.id,
+          updatedBy: ctx.user.id,
+        });
+        return { id: result.insertId };
+      }),
+
+    update: adminProcedure
+      .input(z.object({ id: z.number() }).extend({ rule: dispatchRuleSchema }))
+      .mutation(async ({ input, ctx }) => {
+        if (!(await getDispatchRuleById(input.id))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Dispatch rule not found" });
+        }
+
+        await updateDispatchRule(input.id, { ...input.rule, updatedBy: ctx.user.id });
+        return { success: true };
+      }),
+
+    remove: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        await deleteDispatchRule(input.id);
+        return { success: true };
+      }),
+
+    // استبدال القواعد المحفوظة بالقواعد الافتراضية لتعديلها
+    resetToDefaults: adminProcedure.mutation(async ({ ctx }) => {
+      return await replaceDispatchRules(
+        DEFAULT_DISPATCH_RULES.map((rule, index) => ({
+          name: rule.name,
+          sortOrder: index * 10,
+          enabled: rule.enabled,
+          conditions: rule.conditions,
+          services: rule.services,
+          createdBy: ctx.user.id,
+          updatedBy: ctx.user.id,
+        }))
+      );
+    }),
+  }),
+
+  // ===== Scheduler =====
+  scheduler: router({
+    // المهام الدورية وفتراتها والنسخة القائدة لكل منها وآخر تشغيل
+    tasks: adminProcedure.query(async () => {
+      return await getSchedulerStatus();
+    }),
+
+    // سجل التشغيل (الأحدث أولاً)
+    runs: adminProcedure
+      .input(
+        z.object({
+          task: z.enum(SCHEDULED_TASK_NAMES).optional(),
+          status: z.enum(["running", "completed", "failed"]).optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+      )
+      .query(async ({ input }) => {
+        return await getSchedulerRuns(input);
+      }),
+  }),
+
+  // ===== Response SLA =====
+  sla: router({
+    // الأهداف الفعلية لكل نوع خدمة وأولوية (custom للمحفوظة)
+    targets: protectedProcedure.query(async () => {
+      return resolveSlaTargets(await getSlaTargets());
+    }),
+
+    // تعديل هدف نوع خدمة وأولوية
+    setTarget: adminProcedure
+      .input(
+        z
+          .object({
+            serviceType: z.enum(["ambulance", "tow_truck", "traffic_control", "police", "fire"]),
+            priority: z.enum(["immediate", "urgent", "normal"]),
+            assignedMinutes: z.number().int().min(1),
+            enRouteMinutes: z.number().int().min(1),
+            arrivedMinutes: z.number().int().min(1),
+          })
+          .refine((target) => target.assignedMinutes <= target.enRouteMinutes && target.enRouteMinutes <= target.arrivedMinutes, {
+            message: "Targets must not decrease from assigned to en_route to arrived",
+          })
+      )
+      .mutation(async ({ input, ctx }) => {
+        await upsertSlaTarget({ ...input, updatedBy: ctx.user.id });
+        return resolveSlaTargets(await getSlaTargets());
+      }),
+
+    // حذف كل الأهداف المحفوظة والعودة للأهداف الافتراضية
+    resetTargets: adminProcedure.mutation(async () => {
+      await deleteSlaTargets();
+      return resolveSlaTargets([]);
+    }),
+
+    // حالة مراحل كل خدمة للحادث مقابل أهدافها
+    forIncident: protectedProcedure
       .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
       .query(async ({ input }) => {
-        return await getIncidentHistory(input.incidentId);
+        return await getIncidentSla(await getIncidentServices(input.incidentId));
+      }),
+
+    // تقرير الالتزام لكل جهة خلال فترة
+    compliance: permissionProcedure("sla:view")
+      .input(
+        z.object({
+          from: z.date(),
+          to: z.date(),
+          agency: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        if (input.from >= input.to) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "from must be before to" });
+        }
+
+        return await getSlaComplianceReport(input);
+      }),
+
+    // التجاوزات المسجلة وإجراءات تصعيدها (الأحدث أولاً)
+    breaches: permissionProcedure("sla:view")
+      .input(
+        z.object({
+          incidentId: z.number().optional(),
+          from: z.date().optional(),
+          to: z.date().optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+        })
+      )
+      .query(async ({ input }) => {
+        return await getSlaBreaches(input);
       }),
   }),
 
@@ -425,28 +1570,89 @@ export const appRouter = router({
     today: publicProcedure.query(async () => {
       return await getTodayStatistics();
     }),
+
+    // الحصول على الإحصائيات اليومية لفترة محددة
+    range: publicProcedure
+      .input(
+        z.object({
+          from: z.date(),
+          to: z.date(),
+        })
+      )
+      .query(async ({ input }) => {
+        return await getStatisticsRange(input.from, input.to);
+      }),
+
+    // إعادة حساب الإحصائيات اليومية لفترة (تعبئة رجعية)
+    rebuild: adminProcedure
+      .input(
+        z
+          .object({
+            from: z.date(),
+            to: z.date(),
+          })
+          .refine((range) => range.from <= range.to, "from must be before to")
+          .refine(
+            (range) => range.to.getTime() - range.from.getTime() <= MAX_REBUILD_RANGE_MS,
+            "Range must not exceed 366 days"
+          )
+      )
+      .mutation(async ({ input }) => {
+        return await rebuildStatistics(input.from, input.to);
+      }),
+
+    // النقاط الساخنة للحوادث في فترة مع المقارنة بالفترة السابقة
+    hotspots: protectedProcedure
+      .input(
+        z
+          .object({
+            from: z.date(),
+            to: z.date(),
+            incidentTypes: z.array(z.enum(["injury", "breakdown", "traffic"])).optional(),
+            severities: z.array(z.enum(["low", "medium", "high", "critical"])).optional(),
+            // نصف قطر الجوار بالكيلومتر وأقل عدد حوادث لتكوين نقطة ساخنة
+            epsKm: z.number().min(0.05).max(10).optional(),
+            minPoints: z.number().int().min(2).max(100).optional(),
+          })
+          .refine((range) => range.from < range.to, "from must be before to")
+          .refine(
+            (range) => range.to.getTime() - range.from.getTime() <= MAX_REBUILD_RANGE_MS,
+            "Range must not exceed 366 days"
+          )
+      )
+      .query(async ({ input }) => {
+        const { epsKm, minPoints, ...filters } = input;
+        return await findHotspots(filters, { epsKm, minPoints });
+      }),
   }),
 
   // ===== Report Sends =====
   reports: router({
     // إرسال التقرير إلى الطرفين والتأمين
-    send: protectedProcedure
+    send: permissionProcedure("report:send")
       .input(
         z.object({
           incidentId: z.number(),
           recipients: z.array(
             z.object({
               type: z.enum(["party", "insurance", "najm", "operator"]),
-              email: z.string().email(),
+              email: z.string().email().optional(),
               phone: z.string().optional(),
               name: z.string().optional(),
             })
+            .refine((r) => r.email || r.phone, "Recipient needs an email or a phone number")
           ),
         })
       )
+      .use(incidentScope((input) => input.incidentId))
       .mutation(async ({ input, ctx }) => {
         const { createReportSend } = await import("./db");
         
+        // جميع المستلمين يحصلون على نسخة PDF نفسها
+        const document = await withFaultAssessmentErrors(() =>
+          getOrCreateReportDocument(input.incidentId, ctx.user.id)
+        );
+
         const results = [];
         for (const recipient of input.recipients) {
           const result = await createReportSend({
@@ -455,26 +1661,100 @@ export const appRouter = router({
             recipientEmail: recipient.email,
             recipientPhone: recipient.phone,
             recipientName: recipient.name,
+            reportDocumentId: document.id,
           });
           results.push(result);
         }
 
         await addIncidentHistory({
           incidentId: input.incidentId,
-          action: "Report sent",
+          type: "report.sent",
           details: `Report sent to ${input.recipients.length} recipients`,
+          payload: {
+            previous: null,
+            next: { recipients: input.recipients.length, reportDocumentId: document.id },
+          },
           performedBy: ctx.user.id,
         });
 
+        // الإرسال الفعلي في الخلفية، والمحاولات الفاشلة تُعاد لاحقاً
+        void processPendingReportSends().catch((error) =>
+          console.error("[Reports] Delivery run failed:", error)
+        );
+
         return { success: true, count: results.length };
       }),
 
+    // إنشاء نسخة PDF جديدة من التقرير الذكي وأرشفتها
+    generatePdf: permissionProcedure("report:generate")
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .mutation(async ({ input, ctx }) => {
+        return await withFaultAssessmentErrors(() =>
+          archiveSmartReportPdf(input.incidentId, ctx.user.id)
+        );
+      }),
+
+    // نسخ PDF المؤرشفة للحادث مع روابط التحميل
+    // الملف يطبع أرقام لوحات الأطراف كاملة، فيُقصر على المخولين بالبيانات الشخصية ويُسجل الاطلاع
+    getDocuments: protectedProcedure
+      .input(z.object({ incidentId: z.number() }))
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input, ctx }) => {
+        const incident = await getIncidentById(input.incidentId);
+        if (!incident) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Incident not found" });
+        }
+        if (!(await canViewPersonalData(ctx.user, incident))) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Report documents include personal data of the incident's parties",
+          });
+        }
+
+        const documents = await getReportDocuments(input.incidentId);
+        if (documents.length > 0) {
+          const parties = await getIncidentParties(input.incidentId);
+          await recordPersonalDataAccess(
+            ctx.user.id,
+            incident.id,
+            parties.map((party) => party.id),
+            "reports.getDocuments"
+          );
+        }
+        return await Promise.all(
+          documents.map(async (document) => ({
+            ...document,
+            url: (await storageGet(document.storageKey)).url,
+          }))
+        );
+      }),
+
+    // تأكيد قراءة التقرير من رابط التتبع المرسل للمستلم
+    confirmRead: publicProcedure
+      .input(z.object({ token: z.string().min(1) }))
+      .mutation(async ({ input }) => {
+        const send = await markReportRead(input.token);
+        if (!send) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Report link not found" });
+        }
+        return { incidentId: send.incidentId, status: send.status };
+      }),
+
     // الحصول على حالة الإرسالات
-    getStatus: publicProcedure
+    // رمز التتبع لا يُعاد أبداً: هو وحده ما يطلبه confirmRead لتسجيل القراءة
+    getStatus: protectedProcedure
       .input(z.object({ incidentId: z.number() }))
-      .query(async ({ input }) => {
-        const { getReportSends } = await import("./db");
-        return await getReportSends(input.incidentId);
+      .use(incidentScope((input) => input.incidentId))
+      .query(async ({ input, ctx }) => {
+        const sends = (await getReportSends(input.incidentId)).map(
+          ({ trackingToken: _trackingToken, ...send }) => send
+        );
+        const incident = await getIncidentById(input.incidentId);
+        if (incident && (await canViewPersonalData(ctx.user, incident))) {
+          return sends;
+        }
+        return sends.map(maskReportSend);
       }),
   }),
 });
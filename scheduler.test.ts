@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { startBackgroundProcessing } from "./bootstrap";
+import { setDeliveryChannels } from "./deliveryChannels";
+import { getSchedulerOptions } from "./scheduler";
+
+describe("getSchedulerOptions", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the default intervals and concurrency", () => {
+    expect(getSchedulerOptions()).toEqual({
+      enabled: true,
+      concurrency: 2,
+      intervalsMs: {
+        pending_monitor: 60 * 1000,
+        statistics_rollup: 15 * 60 * 1000,
+        report_send_retries: 60 * 1000,
+        sla_monitor: 60 * 1000,
+      },
+    });
+  });
+
+  it("reads intervals in seconds from the environment", () => {
+    vi.stubEnv("SCHEDULER_PENDING_MONITOR_SECONDS", "30");
+    vi.stubEnv("SCHEDULER_CONCURRENCY", "4");
+    vi.stubEnv("SCHEDULER_ENABLED", "false");
+
+    const options = getSchedulerOptions();
+    expect(options.intervalsMs.pending_monitor).toBe(30 * 1000);
+    expect(options.concurrency).toBe(4);
+    expect(options.enabled).toBe(false);
+  });
+
+  it("ignores invalid values", () => {
+    vi.stubEnv("SCHEDULER_REPORT_RETRIES_SECONDS", "soon");
+    vi.stubEnv("SCHEDULER_CONCURRENCY", "0");
+
+    const options = getSchedulerOptions();
+    expect(options.intervalsMs.report_send_retries).toBe(60 * 1000);
+    expect(options.concurrency).toBe(2);
+  });
+});
+
+describe("startBackgroundProcessing", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    setDeliveryChannels(null);
+  });
+
+  it("starts the background processing once per instance", () => {
+    vi.useFakeTimers();
+    vi.stubEnv("SCHEDULER_ENABLED", "false");
+    vi.stubEnv("REPORT_DELIVERY_CHANNEL", "memory");
+
+    const stop = startBackgroundProcessing();
+    expect(startBackgroundProcessing()).toBe(stop);
+    expect(vi.getTimerCount()).toBe(1);
+
+    stop();
+    expect(vi.getTimerCount()).toBe(0);
+    const restarted = startBackgroundProcessing();
+    expect(restarted).not.toBe(stop);
+    restarted();
+  });
+
+  it("refuses to start without a report delivery channel outside development", () => {
+    vi.useFakeTimers();
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("REPORT_DELIVERY_CHANNEL", "");
+
+    expect(() => startBackgroundProcessing()).toThrow(
+      /REPORT_DELIVERY_CHANNEL is not set/
+    );
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,205 @@
+import { hostname } from "node:os";
+import { nanoid } from "nanoid";
+import {
+  acquireSchedulerLock,
+  finishSchedulerRun,
+  getSchedulerLocks,
+  getSchedulerRuns,
+  startSchedulerRun,
+} from "./db";
+import { createConcurrencyPool } from "./concurrency";
+import { startJobWorker } from "./jobQueue";
+
+/**
+ * مجدول المهام الدورية
+ * كل مهمة تعمل على فترة قابلة للضبط، وقفل في قاعدة البيانات يضمن أن نسخة خادم واحدة تنفذها،
+ * وعدد المهام المتزامنة في النسخة محدود، وكل تشغيل يُسجل في schedulerRuns
+ */
+
+export const SCHEDULED_TASK_NAMES = [
+  "pending_monitor",
+  "statistics_rollup",
+  "report_send_retries",
+  "sla_monitor",
+] as const;
+
+export type ScheduledTaskName = (typeof SCHEDULED_TASK_NAMES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEDULED_TASKS: Record<
+  ScheduledTaskName,
+  {
+    // متغير البيئة لفترة التشغيل بالثواني
+    intervalEnv: string;
+    defaultIntervalMs: number;
+    run: () => Promise<unknown>;
+  }
+> = {
+  pending_monitor: {
+    intervalEnv: "SCHEDULER_PENDING_MONITOR_SECONDS",
+    defaultIntervalMs: 60 * 1000,
+    run: async () => {
+      const { monitorIncidentsAutomatically } =
+        await import("./automationEngine");
+      return await monitorIncidentsAutomatically();
+    },
+  },
+  statistics_rollup: {
+    intervalEnv: "SCHEDULER_STATISTICS_ROLLUP_SECONDS",
+    defaultIntervalMs: 15 * 60 * 1000,
+    // الأمس أيضاً، حتى تكتمل أرقامه بعد منتصف الليل
+    run: async () => {
+      const { updateStatistics } = await import("./db");
+      const now = new Date();
+      await updateStatistics(new Date(now.getTime() - DAY_MS));
+      await updateStatistics(now);
+      return { days: 2 };
+    },
+  },
+  report_send_retries: {
+    intervalEnv: "SCHEDULER_REPORT_RETRIES_SECONDS",
+    defaultIntervalMs: 60 * 1000,
+    run: async () => {
+      const { processPendingReportSends } = await import("./reportDelivery");
+      return await processPendingReportSends();
+    },
+  },
+  sla_monitor: {
+    intervalEnv: "SCHEDULER_SLA_MONITOR_SECONDS",
+    defaultIntervalMs: 60 * 1000,
+    run: async () => {
+      const { monitorServiceSla } = await import("./sla");
+      return await monitorServiceSla();
+    },
+  },
+};
+
+export type SchedulerOptions = {
+  enabled: boolean;
+  // أقصى عدد من المهام تعمل معاً في هذه النسخة
+  concurrency: number;
+  intervalsMs: Record<ScheduledTaskName, number>;
+};
+
+export function getSchedulerOptions(): SchedulerOptions {
+  const readPositive = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined &&
+      Number.isFinite(value) &&
+      value > 0
+      ? value
+      : fallback;
+  };
+
+  const intervalsMs = {} as Record<ScheduledTaskName, number>;
+  for (const name of SCHEDULED_TASK_NAMES) {
+    const task = SCHEDULED_TASKS[name];
+    intervalsMs[name] =
+      readPositive(task.intervalEnv, task.defaultIntervalMs / 1000) * 1000;
+  }
+
+  return {
+    enabled: process.env.SCHEDULER_ENABLED !== "false",
+    concurrency: Math.floor(readPositive("SCHEDULER_CONCURRENCY", 2)),
+    intervalsMs,
+  };
+}
+
+/**
+ * تشغيل مهمة واحدة إذا كان قفلها لهذه النسخة
+ * القفل يمتد لفترتين، فتبقى النسخة القائدة ما دامت تعمل، وتتولاه أخرى إذا توقفت
+ * @returns رقم التشغيل، أو null إذا كانت المهمة لنسخة أخرى
+ */
+export async function runScheduledTask(
+  task: ScheduledTaskName,
+  instanceId: string,
+  intervalMs: number
+): Promise<number | null> {
+  const lease = () => new Date(Date.now() + intervalMs * 2);
+  if (!(await acquireSchedulerLock(task, instanceId, lease()))) return null;
+
+  const startedAt = Date.now();
+  const { insertId } = await startSchedulerRun(task, instanceId);
+  try {
+    const result = await SCHEDULED_TASKS[task].run();
+    await finishSchedulerRun(
+      insertId,
+      { status: "completed", result },
+      Date.now() - startedAt
+    );
+  } catch (error) {
+    console.error(`[Scheduler] ${task} failed:`, error);
+    await finishSchedulerRun(
+      insertId,
+      { status: "failed", error: (error as Error).message },
+      Date.now() - startedAt
+    );
+  }
+
+  // التجديد بعد التشغيل، فالمهمة الطويلة لا تفقد قفلها قبل الدورة التالية
+  await acquireSchedulerLock(task, instanceId, lease());
+  return insertId;
+}
+
+/**
+ * بدء المجدول وعامل مهام الخلفية في هذه النسخة من الخادم، يُستدعى عند بدء الخادم عبر bootstrap.ts
+ * (عامل المهام يعمل في كل النسخ، فحجز المهام يمنع تنفيذها مرتين)
+ * @returns دالة الإيقاف
+ */
+export function startScheduler(
+  options: SchedulerOptions = getSchedulerOptions()
+): () => void {
+  const stopJobWorker = startJobWorker();
+  if (!options.enabled) {
+    console.log("[Scheduler] Disabled (SCHEDULER_ENABLED=false)");
+    return stopJobWorker;
+  }
+
+  const instanceId = `${hostname()}-${process.pid}-${nanoid(6)}`;
+  const pool = createConcurrencyPool(options.concurrency);
+  const running = new Set<ScheduledTaskName>();
+
+  const tick = (task: ScheduledTaskName) => {
+    // الدورة التي يصادف موعدها تشغيلاً جارياً للمهمة نفسها تُتخطى
+    if (running.has(task)) return;
+    running.add(task);
+    void pool
+      .run(() => runScheduledTask(task, instanceId, options.intervalsMs[task]))
+      .catch(error => console.error(`[Scheduler] ${task} run failed:`, error))
+      .finally(() => running.delete(task));
+  };
+
+  const timers = SCHEDULED_TASK_NAMES.map(task => {
+    tick(task);
+    return setInterval(() => tick(task), options.intervalsMs[task]);
+  });
+  console.log(`[Scheduler] Started as ${instanceId}`);
+
+  return () => {
+    timers.forEach(timer => clearInterval(timer));
+    stopJobWorker();
+  };
+}
+
+/**
+ * المهام وفتراتها في هذه النسخة، مع النسخة التي تملك قفل كل منها وآخر تشغيل
+ */
+export async function getSchedulerStatus() {
+  const options = getSchedulerOptions();
+  const locks = await getSchedulerLocks();
+
+  return await Promise.all(
+    SCHEDULED_TASK_NAMES.map(async task => {
+      const lock = locks.find(item => item.task === task);
+      const [lastRun] = await getSchedulerRuns({ task, limit: 1 });
+      return {
+        task,
+        intervalMs: options.intervalsMs[task],
+        leader: lock && lock.lockedUntil > new Date() ? lock.owner : null,
+        lockedUntil: lock?.lockedUntil ?? null,
+        lastRun: lastRun ?? null,
+      };
+    })
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertServiceTransition,
+  isTerminalServiceStatus,
+  ServiceTransitionError,
+} from "./serviceLifecycle";
+
+describe("service lifecycle", () => {
+  it("treats completed and cancelled services as terminal", () => {
+    expect(isTerminalServiceStatus("completed")).toBe(true);
+    expect(isTerminalServiceStatus("cancelled")).toBe(true);
+    expect(isTerminalServiceStatus("arrived")).toBe(false);
+  });
+
+  it("allows any change while the service is still active", () => {
+    expect(() => assertServiceTransition("pending", "arrived")).not.toThrow();
+    expect(() => assertServiceTransition("arrived", "en_route")).not.toThrow();
+    expect(() =>
+      assertServiceTransition("en_route", "cancelled")
+    ).not.toThrow();
+  });
+
+  it("rejects moving a finished service to another status", () => {
+    try {
+      assertServiceTransition("completed", "en_route");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ServiceTransitionError);
+      expect(error).toMatchObject({
+        code: "terminal_status",
+        from: "completed",
+        to: "en_route",
+      });
+    }
+    expect(() => assertServiceTransition("cancelled", "completed")).toThrow(
+      ServiceTransitionError
+    );
+  });
+
+  it("keeps repeating the terminal status idempotent", () => {
+    expect(() =>
+      assertServiceTransition("completed", "completed")
+    ).not.toThrow();
+  });
+});
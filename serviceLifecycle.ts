@@ -0,0 +1,52 @@
+import type { Service } from "../drizzle/schema";
+
+/**
+ * دورة حياة الخدمة
+ * الخدمة المكتملة أو الملغاة منتهية: لا تعود إلى حالة أخرى لأن وحدتها حُررت عند انتهائها
+ */
+
+export type ServiceStatus = Service["status"];
+
+export const TERMINAL_SERVICE_STATUSES: readonly ServiceStatus[] = [
+  "completed",
+  "cancelled",
+];
+
+export type ServiceTransitionErrorCode = "not_found" | "terminal_status";
+
+/**
+ * خطأ تغيير حالة خدمة غير موجودة أو منتهية
+ */
+export class ServiceTransitionError extends Error {
+  constructor(
+    public code: ServiceTransitionErrorCode,
+    // null إذا لم توجد الخدمة
+    public from: ServiceStatus | null,
+    public to: ServiceStatus,
+    message: string
+  ) {
+    super(message);
+    this.name = "ServiceTransitionError";
+  }
+}
+
+export function isTerminalServiceStatus(status: ServiceStatus): boolean {
+  return TERMINAL_SERVICE_STATUSES.includes(status);
+}
+
+/**
+ * التحقق من صحة الانتقال، يرمي ServiceTransitionError عند الخروج من حالة منتهية
+ */
+export function assertServiceTransition(
+  from: ServiceStatus,
+  to: ServiceStatus
+): void {
+  if (isTerminalServiceStatus(from) && from !== to) {
+    throw new ServiceTransitionError(
+      "terminal_status",
+      from,
+      to,
+      `Service is ${from}, its status can no longer change to ${to}`
+    );
+  }
+}
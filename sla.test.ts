@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateServiceSla,
+  resolveSlaTargets,
+  summarizeSlaCompliance,
+  type SlaServiceFields,
+} from "./sla";
+
+const requestedAt = new Date("2025-03-01T07:00:00Z");
+const minutesLater = (minutes: number) =>
+  new Date(requestedAt.getTime() + minutes * 60 * 1000);
+
+const service = (
+  overrides: Partial<SlaServiceFields> = {}
+): SlaServiceFields => ({
+  status: "pending",
+  createdAt: requestedAt,
+  assignedAt: null,
+  enRouteAt: null,
+  arrivedAt: null,
+  ...overrides,
+});
+
+const ambulanceImmediate = { assigned: 2, en_route: 5, arrived: 15 };
+
+describe("resolveSlaTargets", () => {
+  it("uses saved targets and falls back to the defaults", () => {
+    const targets = resolveSlaTargets([
+      {
+        serviceType: "ambulance",
+        priority: "immediate",
+        assignedMinutes: 1,
+        enRouteMinutes: 3,
+        arrivedMinutes: 10,
+      },
+    ]);
+
+    expect(targets).toHaveLength(15);
+    expect(
+      targets.find(
+        t => t.serviceType === "ambulance" && t.priority === "immediate"
+      )
+    ).toMatchObject({
+      minutes: { assigned: 1, en_route: 3, arrived: 10 },
+      custom: true,
+    });
+    expect(
+      targets.find(
+        t => t.serviceType === "tow_truck" && t.priority === "urgent"
+      )
+    ).toMatchObject({
+      minutes: { assigned: 10, en_route: 15, arrived: 40 },
+      custom: false,
+    });
+  });
+});
+
+describe("evaluateServiceSla", () => {
+  it("measures each milestone from the service request", () => {
+    const states = evaluateServiceSla(
+      service({
+        status: "arrived",
+        assignedAt: minutesLater(1),
+        enRouteAt: minutesLater(4),
+        arrivedAt: minutesLater(20),
+      }),
+      ambulanceImmediate,
+      minutesLater(30)
+    );
+
+    expect(states.map(s => [s.milestone, s.status, s.minutes])).toEqual([
+      ["assigned", "met", 1],
+      ["en_route", "met", 4],
+      ["arrived", "breached", 20],
+    ]);
+  });
+
+  it("breaches unreached milestones of open services once their time passes", () => {
+    const states = evaluateServiceSla(
+      service({ status: "assigned", assignedAt: minutesLater(1) }),
+      ambulanceImmediate,
+      minutesLater(6)
+    );
+
+    expect(states.map(s => s.status)).toEqual(["met", "breached", "pending"]);
+    expect(states[1]?.dueAt).toEqual(minutesLater(5));
+  });
+
+  it("does not count milestones of cancelled services", () => {
+    const states = evaluateServiceSla(
+      service({ status: "cancelled" }),
+      ambulanceImmediate,
+      minutesLater(60)
+    );
+
+    expect(states.map(s => s.status)).toEqual([
+      "not_reached",
+      "not_reached",
+      "not_reached",
+    ]);
+  });
+});
+
+describe("summarizeSlaCompliance", () => {
+  it("reports compliance per agency", () => {
+    const targets = resolveSlaTargets([]);
+    const ambulance = (overrides: Partial<SlaServiceFields>) => ({
+      ...service(overrides),
+      serviceType: "ambulance" as const,
+      priority: "immediate" as const,
+    });
+
+    const report = summarizeSlaCompliance(
+      [
+        {
+          agency: "الهلال الأحمر",
+          service: ambulance({
+            status: "completed",
+            assignedAt: minutesLater(1),
+            enRouteAt: minutesLater(3),
+            arrivedAt: minutesLater(12),
+          }),
+        },
+        {
+          agency: "الهلال الأحمر",
+          service: ambulance({
+            status: "en_route",
+            assignedAt: minutesLater(1),
+            enRouteAt: minutesLater(7),
+          }),
+        },
+        { agency: null, service: ambulance({ status: "pending" }) },
+      ],
+      targets,
+      minutesLater(10)
+    );
+
+    expect(report.map(agency => agency.agency)).toEqual([
+      "unassigned",
+      "الهلال الأحمر",
+    ]);
+
+    const redCrescent = report[1]!;
+    expect(redCrescent.services).toBe(2);
+    expect(redCrescent.breachedServices).toBe(1);
+    expect(redCrescent.milestones.assigned).toMatchObject({
+      met: 2,
+      breached: 0,
+      compliancePercent: 100,
+      averageMinutes: 1,
+    });
+    expect(redCrescent.milestones.en_route).toMatchObject({
+      met: 1,
+      breached: 1,
+      compliancePercent: 50,
+      averageMinutes: 5,
+    });
+    expect(redCrescent.milestones.arrived).toMatchObject({
+      met: 1,
+      pending: 1,
+    });
+    // 4 مراحل في موعدها من 5 محسومة
+    expect(redCrescent.compliancePercent).toBe(80);
+
+    expect(report[0]!.milestones.assigned.breached).toBe(1);
+  });
+});
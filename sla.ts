@@ -0,0 +1,516 @@
+import type { Service, SlaTargetRow } from "../drizzle/schema";
+import {
+  addIncidentHistory,
+  getOpenServices,
+  getServicesWithAgency,
+  getSlaBreaches,
+  getSlaTargets,
+  recordSlaBreach,
+  updateSlaBreach,
+} from "./db";
+import { getDeliveryChannels, type DeliveryChannels } from "./deliveryChannels";
+import {
+  describeDispatch,
+  redispatchService,
+  type DispatchResult,
+  type ServiceType,
+} from "./dispatch";
+import {
+  DISPATCH_PRIORITY_RANK,
+  SERVICE_TYPE_LABELS,
+  type DispatchPriority,
+} from "./dispatchRules";
+import { publishRealtimeEvent } from "./realtime";
+import { minutesBetween } from "./statistics";
+
+/**
+ * أهداف زمن الاستجابة (SLA) وتصعيد تجاوزها
+ * لكل نوع خدمة وأولوية هدف بالدقائق من طلب الخدمة حتى كل مرحلة (التوجيه، الانطلاق، الوصول).
+ * المرحلة التي يفوت موعدها تُسجل تجاوزاً مرة واحدة، ويُصعّد بتوجيه وحدة أخرى
+ * وإبلاغ المشرف وتسجيله في سجل الحادث
+ */
+
+export const SLA_MILESTONES = ["assigned", "en_route", "arrived"] as const;
+
+export type SlaMilestone = (typeof SLA_MILESTONES)[number];
+
+export type SlaMinutes = Record<SlaMilestone, number>;
+
+export type SlaTarget = {
+  serviceType: ServiceType;
+  priority: DispatchPriority;
+  minutes: SlaMinutes;
+  // محفوظ في slaTargets، وإلا فهو الهدف الافتراضي
+  custom: boolean;
+};
+
+export const DEFAULT_SLA_MINUTES: Record<DispatchPriority, SlaMinutes> = {
+  immediate: { assigned: 2, en_route: 5, arrived: 15 },
+  urgent: { assigned: 5, en_route: 10, arrived: 25 },
+  normal: { assigned: 10, en_route: 20, arrived: 45 },
+};
+
+// السطحات تأتي من مقرات أبعد، فأهدافها أطول
+const DEFAULT_SLA_MINUTES_BY_TYPE: Partial<
+  Record<ServiceType, Record<DispatchPriority, SlaMinutes>>
+> = {
+  tow_truck: {
+    immediate: { assigned: 5, en_route: 10, arrived: 30 },
+    urgent: { assigned: 10, en_route: 15, arrived: 40 },
+    normal: { assigned: 15, en_route: 30, arrived: 60 },
+  },
+};
+
+const SERVICE_TYPES = Object.keys(SERVICE_TYPE_LABELS) as ServiceType[];
+const PRIORITIES = Object.keys(DISPATCH_PRIORITY_RANK) as DispatchPriority[];
+
+export function defaultSlaMinutes(
+  serviceType: ServiceType,
+  priority: DispatchPriority
+): SlaMinutes {
+  return (
+    DEFAULT_SLA_MINUTES_BY_TYPE[serviceType]?.[priority] ??
+    DEFAULT_SLA_MINUTES[priority]
+  );
+}
+
+/**
+ * الأهداف الفعلية لكل نوع خدمة وأولوية: المحفوظة، وإلا الافتراضية
+ */
+export function resolveSlaTargets(
+  rows: Pick<
+    SlaTargetRow,
+    | "serviceType"
+    | "priority"
+    | "assignedMinutes"
+    | "enRouteMinutes"
+    | "arrivedMinutes"
+  >[]
+): SlaTarget[] {
+  return SERVICE_TYPES.flatMap(serviceType =>
+    PRIORITIES.map(priority => {
+      const row = rows.find(
+        item => item.serviceType === serviceType && item.priority === priority
+      );
+      return {
+        serviceType,
+        priority,
+        minutes: row
+          ? {
+              assigned: row.assignedMinutes,
+              en_route: row.enRouteMinutes,
+              arrived: row.arrivedMinutes,
+            }
+          : defaultSlaMinutes(serviceType, priority),
+        custom: Boolean(row),
+      };
+    })
+  );
+}
+
+export function findSlaMinutes(
+  targets: SlaTarget[],
+  serviceType: ServiceType,
+  priority: DispatchPriority
+): SlaMinutes {
+  return (
+    targets.find(
+      target =>
+        target.serviceType === serviceType && target.priority === priority
+    )?.minutes ?? defaultSlaMinutes(serviceType, priority)
+  );
+}
+
+export type SlaServiceFields = Pick<
+  Service,
+  "status" | "createdAt" | "assignedAt" | "enRouteAt" | "arrivedAt"
+>;
+
+export type SlaMilestoneState = {
+  milestone: SlaMilestone;
+  targetMinutes: number;
+  dueAt: Date;
+  reachedAt: Date | null;
+  // من طلب الخدمة حتى بلوغ المرحلة
+  minutes: number | null;
+  // not_reached: أُغلقت الخدمة دون بلوغ المرحلة، فلا تُحسب في الالتزام
+  status: "met" | "breached" | "pending" | "not_reached";
+};
+
+const OPEN_STATUSES: Service["status"][] = ["pending", "assigned", "en_route"];
+
+export function milestoneReachedAt(
+  service: SlaServiceFields,
+  milestone: SlaMilestone
+): Date | null {
+  if (milestone === "assigned") return service.assignedAt;
+  if (milestone === "en_route") return service.enRouteAt;
+  return service.arrivedAt;
+}
+
+/**
+ * حالة كل مرحلة مقابل هدفها، والمؤقت يبدأ من طلب الخدمة
+ */
+export function evaluateServiceSla(
+  service: SlaServiceFields,
+  minutes: SlaMinutes,
+  now: Date
+): SlaMilestoneState[] {
+  const open = OPEN_STATUSES.includes(service.status);
+
+  return SLA_MILESTONES.map(milestone => {
+    const targetMinutes = minutes[milestone];
+    const dueAt = new Date(
+      service.createdAt.getTime() + targetMinutes * 60 * 1000
+    );
+    const reachedAt = milestoneReachedAt(service, milestone);
+
+    let status: SlaMilestoneState["status"];
+    if (reachedAt) status = reachedAt <= dueAt ? "met" : "breached";
+    else if (!open) status = "not_reached";
+    else status = now > dueAt ? "breached" : "pending";
+
+    return {
+      milestone,
+      targetMinutes,
+      dueAt,
+      reachedAt,
+      minutes: reachedAt ? minutesBetween(service.createdAt, reachedAt) : null,
+      status,
+    };
+  });
+}
+
+export type SlaMilestoneCompliance = {
+  met: number;
+  breached: number;
+  pending: number;
+  // نسبة المراحل المحققة في موعدها من المراحل المحسومة (null إذا لم تُحسم أي مرحلة)
+  compliancePercent: number | null;
+  averageMinutes: number | null;
+};
+
+export type AgencySlaCompliance = {
+  agency: string;
+  services: number;
+  // الخدمات التي تجاوزت مرحلة واحدة على الأقل
+  breachedServices: number;
+  compliancePercent: number | null;
+  milestones: Record<SlaMilestone, SlaMilestoneCompliance>;
+};
+
+// الخدمات التي لم توجه لها وحدة تُجمع تحت هذه الجهة
+export const UNASSIGNED_AGENCY = "unassigned";
+
+/**
+ * تقرير الالتزام بـ SLA لكل جهة من الخدمات المطلوبة خلال الفترة
+ */
+export function summarizeSlaCompliance(
+  rows: {
+    service: SlaServiceFields & Pick<Service, "serviceType" | "priority">;
+    agency: string | null;
+  }[],
+  targets: SlaTarget[],
+  now: Date
+): AgencySlaCompliance[] {
+  const byAgency = new Map<
+    string,
+    {
+      services: number;
+      breachedServices: number;
+      milestones: Record<
+        SlaMilestone,
+        { met: number; breached: number; pending: number; minutes: number[] }
+      >;
+    }
+  >();
+
+  for (const { service, agency } of rows) {
+    const key = agency ?? UNASSIGNED_AGENCY;
+    let entry = byAgency.get(key);
+    if (!entry) {
+      entry = {
+        services: 0,
+        breachedServices: 0,
+        milestones: {
+          assigned: { met: 0, breached: 0, pending: 0, minutes: [] },
+          en_route: { met: 0, breached: 0, pending: 0, minutes: [] },
+          arrived: { met: 0, breached: 0, pending: 0, minutes: [] },
+        },
+      };
+      byAgency.set(key, entry);
+    }
+
+    const states = evaluateServiceSla(
+      service,
+      findSlaMinutes(targets, service.serviceType, service.priority),
+      now
+    );
+    entry.services++;
+    if (states.some(state => state.status === "breached")) {
+      entry.breachedServices++;
+    }
+    for (const state of states) {
+      const counts = entry.milestones[state.milestone];
+      if (state.status === "not_reached") continue;
+      counts[state.status]++;
+      if (state.minutes !== null) counts.minutes.push(state.minutes);
+    }
+  }
+
+  return Array.from(byAgency.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([agency, entry]) => {
+      const milestones = {} as Record<SlaMilestone, SlaMilestoneCompliance>;
+      let met = 0;
+      let decided = 0;
+      for (const milestone of SLA_MILESTONES) {
+        const counts = entry.milestones[milestone];
+        met += counts.met;
+        decided += counts.met + counts.breached;
+        milestones[milestone] = {
+          met: counts.met,
+          breached: counts.breached,
+          pending: counts.pending,
+          compliancePercent: percent(counts.met, counts.met + counts.breached),
+          averageMinutes:
+            counts.minutes.length > 0
+              ? round1(
+                  counts.minutes.reduce((sum, value) => sum + value, 0) /
+                    counts.minutes.length
+                )
+              : null,
+        };
+      }
+
+      return {
+        agency,
+        services: entry.services,
+        breachedServices: entry.breachedServices,
+        compliancePercent: percent(met, decided),
+        milestones,
+      };
+    });
+}
+
+function percent(part: number, total: number): number | null {
+  return total > 0 ? round1((part / total) * 100) : null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * تقرير الالتزام لفترة، اختيارياً لجهة واحدة
+ */
+export async function getSlaComplianceReport(filter: {
+  from: Date;
+  to: Date;
+  agency?: string;
+}) {
+  const [rows, targetRows] = await Promise.all([
+    getServicesWithAgency(filter),
+    getSlaTargets(),
+  ]);
+  return {
+    from: filter.from,
+    to: filter.to,
+    agencies: summarizeSlaCompliance(
+      rows,
+      resolveSlaTargets(targetRows),
+      new Date()
+    ),
+  };
+}
+
+/**
+ * حالة SLA لخدمات الحادث
+ */
+export async function getIncidentSla(
+  services: (SlaServiceFields &
+    Pick<Service, "id" | "serviceType" | "priority">)[]
+) {
+  const targets = resolveSlaTargets(await getSlaTargets());
+  const now = new Date();
+  return services.map(service => ({
+    serviceId: service.id,
+    serviceType: service.serviceType,
+    priority: service.priority,
+    milestones: evaluateServiceSla(
+      service,
+      findSlaMinutes(targets, service.serviceType, service.priority),
+      now
+    ),
+  }));
+}
+
+/**
+ * إبلاغ المشرف عبر قنوات الإرسال (SLA_SUPERVISOR_EMAIL و SLA_SUPERVISOR_PHONE)
+ * @returns القنوات التي نجح الإرسال عبرها
+ */
+export async function notifySupervisor(
+  content: { subject: string; body: string; incidentId: number },
+  channels: DeliveryChannels = getDeliveryChannels()
+): Promise<string[]> {
+  const baseUrl = (process.env.PUBLIC_APP_URL ?? "").replace(/\/+$/, "");
+  const targets: [keyof DeliveryChannels, string | undefined][] = [
+    ["email", process.env.SLA_SUPERVISOR_EMAIL],
+    ["sms", process.env.SLA_SUPERVISOR_PHONE],
+  ];
+
+  const delivered: string[] = [];
+  for (const [name, to] of targets) {
+    const channel = channels[name];
+    if (!to || !channel) continue;
+    try {
+      await channel.send({
+        to,
+        subject: content.subject,
+        body: content.body,
+        trackingUrl: `${baseUrl}/incidents/${content.incidentId}`,
+      });
+      delivered.push(name);
+    } catch (error) {
+      console.error(`[SLA] Supervisor ${name} notification failed:`, error);
+    }
+  }
+  return delivered;
+}
+
+/**
+ * تصعيد تجاوزات خدمة: وحدة أخرى (مرة واحدة لكل خدمة)، وإبلاغ المشرف، والسجل
+ */
+async function escalateSlaBreaches(
+  service: Service,
+  breaches: { id: number; state: SlaMilestoneState }[],
+  now: Date
+): Promise<DispatchResult | null> {
+  const previous = await getSlaBreaches({ serviceId: service.id });
+  const alreadyRedispatched = previous.some(
+    breach => breach.redispatchServiceId !== null
+  );
+
+  let redispatch: DispatchResult | null = null;
+  if (!alreadyRedispatched) {
+    try {
+      redispatch = await redispatchService(service);
+    } catch (error) {
+      console.error(
+        `[SLA] Re-dispatch for service #${service.id} failed:`,
+        error
+      );
+    }
+  }
+
+  const elapsed = Math.round(minutesBetween(service.createdAt, now));
+  const missed = breaches
+    .map(({ state }) => `${state.milestone} (${state.targetMinutes} min)`)
+    .join(", ");
+  const label = SERVICE_TYPE_LABELS[service.serviceType];
+
+  const notified = await notifySupervisor({
+    incidentId: service.incidentId,
+    subject: `تجاوز زمن الاستجابة: الحادث #${service.incidentId}`,
+    body:
+      `خدمة ${label} (${service.priority}) لم تبلغ ${missed} بعد ${elapsed} دقيقة من الطلب.` +
+      (redispatch?.unit
+        ? ` وُجهت الوحدة ${redispatch.unit.callSign} (${redispatch.unit.agency}).`
+        : " لا توجد وحدة متاحة أخرى."),
+  });
+
+  for (const breach of breaches) {
+    await updateSlaBreach(breach.id, {
+      redispatchServiceId: redispatch?.serviceId ?? null,
+      supervisorNotified: notified.length > 0,
+    });
+  }
+
+  const outcome = redispatch
+    ? describeDispatch(service.serviceType, redispatch)
+    : alreadyRedispatched
+      ? "Another unit was already dispatched for this service"
+      : "No other available unit to re-dispatch";
+  await addIncidentHistory({
+    incidentId: service.incidentId,
+    type: "service.sla_breached",
+    details: `${service.serviceType} service #${service.id} (${service.priority}) missed ${missed} after ${elapsed} min. ${outcome}. Supervisor ${notified.length > 0 ? `notified by ${notified.join(", ")}` : "not notified"}`,
+    payload: {
+      previous: null,
+      next: {
+        redispatchServiceId: redispatch?.serviceId ?? null,
+        redispatchUnitId: redispatch?.unit?.id ?? null,
+      },
+      serviceId: service.id,
+      breaches: breaches.map(({ id, state }) => ({
+        id,
+        milestone: state.milestone,
+        targetMinutes: state.targetMinutes,
+        dueAt: state.dueAt,
+      })),
+      supervisorNotified: notified,
+    },
+  });
+
+  void publishRealtimeEvent("service.sla_breached", service.incidentId, {
+    serviceId: service.id,
+    serviceType: service.serviceType,
+    priority: service.priority,
+    milestones: breaches.map(({ state }) => state.milestone),
+    redispatchServiceId: redispatch?.serviceId ?? null,
+  });
+
+  return redispatch;
+}
+
+/**
+ * فحص الخدمات المفتوحة وتصعيد المراحل التي فات موعدها ولم تُبلغ (مهمة مجدولة)
+ * التجاوز يُسجل مرة واحدة لكل مرحلة، فالتصعيد لا يتكرر في الدورات التالية
+ */
+export async function monitorServiceSla(now = new Date()): Promise<{
+  checked: number;
+  breaches: number;
+  redispatched: number;
+}> {
+  const [services, targetRows] = await Promise.all([
+    getOpenServices(),
+    getSlaTargets(),
+  ]);
+  const targets = resolveSlaTargets(targetRows);
+  const summary = { checked: services.length, breaches: 0, redispatched: 0 };
+
+  for (const service of services) {
+    const overdue = evaluateServiceSla(
+      service,
+      findSlaMinutes(targets, service.serviceType, service.priority),
+      now
+    ).filter(state => state.status === "breached" && !state.reachedAt);
+
+    const breaches: { id: number; state: SlaMilestoneState }[] = [];
+    for (const state of overdue) {
+      const id = await recordSlaBreach({
+        serviceId: service.id,
+        incidentId: service.incidentId,
+        milestone: state.milestone,
+        targetMinutes: state.targetMinutes,
+        dueAt: state.dueAt,
+      });
+      if (id) breaches.push({ id, state });
+    }
+    if (breaches.length === 0) continue;
+
+    summary.breaches += breaches.length;
+    try {
+      if (await escalateSlaBreaches(service, breaches, now)) {
+        summary.redispatched++;
+      }
+    } catch (error) {
+      console.error(
+        `[SLA] Escalation for service #${service.id} failed:`,
+        error
+      );
+    }
+  }
+
+  return summary;
+}
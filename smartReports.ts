@@ -1,5 +1,44 @@
-import { getDb } from "./db";
-import { incidents, services } from "../drizzle/schema";
+import {
+  addFaultAssessment,
+  addIncidentHistory,
+  createReportSend,
+  getDb,
+  getFaultAssessmentById,
+  getIncidentById,
+  getIncidentMedia,
+  getIncidentParties,
+  getReportSends,
+} from "./db";
+import {
+  evaluateFault,
+  FaultAssessmentError,
+  type FaultInput,
+  type FaultPartyInput,
+  type FaultResult,
+} from "./faultEngine";
+import {
+  incidents,
+  services,
+  type Incident,
+  type IncidentParty,
+} from "../drizzle/schema";
+import {
+  emptySceneAnalysis,
+  getIncidentAnalyzer,
+  type SceneAnalysis,
+} from "./incidentAnalyzer";
+import { resolveMediaUrls } from "./mediaUpload";
+import {
+  evaluateDispatchRules,
+  getActiveDispatchRules,
+  SERVICE_TYPE_LABELS,
+  type DispatchDecision,
+  type DispatchPriority,
+  type RecommendedService,
+} from "./dispatchRules";
+import type { ServiceType } from "./dispatch";
+import { INCIDENT_SEVERITY_RANK } from "./incidentSearch";
+import { toCoordinates } from "./geo";
 import { eq } from "drizzle-orm";
 
 /**
@@ -11,24 +50,34 @@ export interface SmartReportData {
   incidentId: number;
   location: string;
   incidentType: "injury" | "breakdown" | "traffic";
+  // الخطورة التي قُيمت بها قواعد التوجيه: المسجلة للحادث أو المقدرة، أيهما أعلى
   severity: "low" | "medium" | "high" | "critical";
-  faultPercentage: number;
-  recommendedServices: string[];
+  // الخطورة المقدرة من نوع الحادث ونسبة الخطأ وحدها
+  estimatedSeverity: "low" | "medium" | "high" | "critical";
+  // نسب الخطأ المعتمدة لكل طرف كما هي مسجلة في incidentParties
+  faultBreakdown: PartyFaultShare[];
+  faultAssessment: FaultResult;
+  // الخدمات من قواعد التوجيه مرتبة بالأولوية، مع القواعد التي طلبتها
+  recommendedServices: RecommendedService[];
+  matchedDispatchRules: DispatchDecision["matchedRules"];
   analysisTime: number;
-  videoAnalysis: {
-    vehicleCount: number;
-    impactPoint: string;
-    trajectoryAnalysis: string;
-    estimatedSpeed: number;
-  };
+  videoAnalysis: SceneAnalysis;
+  // مزود التحليل الذي أنتج videoAnalysis
+  analysisProvider: string;
   aiDecision: {
-    action: "ambulance" | "tow_truck" | "traffic_control" | "police" | "none";
-    priority: "immediate" | "urgent" | "normal";
+    action: ServiceType | "none";
+    priority: DispatchPriority;
     estimatedResponseTime: number;
   };
   reportSummary: string;
 }
 
+export type PartyFaultShare = {
+  partyId: number;
+  partyName: string;
+  faultPercentage: number;
+};
+
 /**
  * تحليل الحادث وإصدار تقرير ذكي
  */
@@ -46,159 +95,268 @@ export async function generateSmartReport(
     .limit(1);
 
   if (!incident || incident.length === 0) {
-    throw new Error("Incident not found");
+    throw new FaultAssessmentError("not_found", `Incident #${incidentId} not found`);
   }
 
   const incidentData = incident[0];
 
-  // محاكاة تحليل الفيديو والأقمار الصناعية
-  const videoAnalysis = simulateVideoAnalysis(incidentData.incidentType);
+  // تحليل الصور والفيديو بالمزود المفعل
+  const { provider: analysisProvider, scene: videoAnalysis } =
+    await analyzeIncidentScene(incidentData);
 
-  // حساب نسبة الخطأ بناءً على التحليل
-  const faultPercentage = calculateFaultPercentage(
-    incidentData.incidentType,
-    videoAnalysis
+  // نسب الخطأ المسجلة لكل طرف، مع تقييم محرك القواعد للمقارنة
+  const parties = await getIncidentParties(incidentId);
+  const faultAssessment = evaluateFault(
+    buildFaultInput(incidentData.incidentType, parties, videoAnalysis)
   );
+  const faultBreakdown: PartyFaultShare[] = parties.map(party => ({
+    partyId: party.id,
+    partyName: party.partyName,
+    faultPercentage: party.faultPercentage ?? 0,
+  }));
 
-  // تحديد الخدمات المطلوبة
-  const recommendedServices = determineServices(incidentData.incidentType);
+  // القرار يعتمد على الطرف الأكثر خطأً، وعلى تقييم المحرك إذا لم يُعتمد توزيع بعد
+  const recordedMax = Math.max(
+    0,
+    ...faultBreakdown.map(share => share.faultPercentage)
+  );
+  const faultPercentage =
+    recordedMax > 0
+      ? recordedMax
+      : Math.max(
+          0,
+          ...faultAssessment.parties.map(party => party.faultPercentage)
+        );
 
-  // اتخاذ قرار ذكي
-  const aiDecision = makeAIDecision(
+  // الخطورة المسجلة للحادث أو المقدرة من نسبة الخطأ، أيهما أعلى
+  const estimatedSeverity = determineSeverity(
     incidentData.incidentType,
-    faultPercentage,
-    videoAnalysis
+    faultPercentage
   );
+  const severity =
+    INCIDENT_SEVERITY_RANK[incidentData.severity] >=
+    INCIDENT_SEVERITY_RANK[estimatedSeverity]
+      ? incidentData.severity
+      : estimatedSeverity;
+
+  // تحديد الخدمات المطلوبة من قواعد التوجيه
+  const dispatchDecision = evaluateDispatchRules(
+    await getActiveDispatchRules(),
+    {
+      incidentType: incidentData.incidentType,
+      severity,
+      vehicleCount: Math.max(
+        videoAnalysis.vehicleCount,
+        parties.filter(party => party.vehicleNumber).length
+      ),
+      injuries:
+        incidentData.incidentType === "injury" ||
+        parties.some(
+          party => (party.facts as { injured?: boolean } | null)?.injured
+        ),
+      reportedAt: incidentData.reportedAt,
+      location: toCoordinates(incidentData.latitude, incidentData.longitude),
+    }
+  );
+
+  // اتخاذ قرار ذكي
+  const aiDecision = makeAIDecision(dispatchDecision, faultPercentage);
 
   // إنشاء ملخص التقرير
   const reportSummary = generateReportSummary(
     incidentData,
-    faultPercentage,
-    aiDecision
+    faultBreakdown,
+    aiDecision,
+    dispatchDecision.services
   );
 
   return {
     incidentId,
     location: incidentData.location,
     incidentType: incidentData.incidentType,
-    severity: determineSeverity(incidentData.incidentType, faultPercentage),
-    faultPercentage,
-    recommendedServices,
+    severity,
+    estimatedSeverity,
+    faultBreakdown,
+    faultAssessment,
+    recommendedServices: dispatchDecision.services,
+    matchedDispatchRules: dispatchDecision.matchedRules,
     analysisTime: 3000, // 3 ثوانٍ
     videoAnalysis,
+    analysisProvider,
     aiDecision,
     reportSummary,
   };
 }
 
 /**
- * محاكاة تحليل الفيديو والأقمار الصناعية
+ * تحليل مشهد الحادث من وسائطه بالمزود المفعل (incidentAnalyzer.ts)
+ * فشل المزود لا يوقف إصدار التقرير: يُستخدم مشهد فارغ ويُسجل التحذير
  */
-function simulateVideoAnalysis(incidentType: string) {
-  const analyses: { [key: string]: any } = {
-    injury: {
-      vehicleCount: 2,
-      impactPoint: "نقطة الاصطدام الأمامية",
-      trajectoryAnalysis: "سيارة A كانت تسير بسرعة عالية",
-      estimatedSpeed: 85,
-    },
-    breakdown: {
-      vehicleCount: 1,
-      impactPoint: "محرك السيارة",
-      trajectoryAnalysis: "السيارة توقفت فجأة",
-      estimatedSpeed: 0,
-    },
-    traffic: {
-      vehicleCount: 3,
-      impactPoint: "حادث خفيف",
-      trajectoryAnalysis: "تصادم بسيط بين السيارات",
-      estimatedSpeed: 30,
-    },
-  };
+async function analyzeIncidentScene(
+  incident: Pick<Incident, "id" | "incidentType">
+): Promise<{ provider: string; scene: SceneAnalysis }> {
+  const analyzer = getIncidentAnalyzer();
+  const media = await Promise.all(
+    (await getIncidentMedia(incident.id)).map(resolveMediaUrls)
+  );
+  const urlsOf = (mediaType: "image" | "video") =>
+    media
+      .filter((item) => item.mediaType === mediaType && item.url)
+      .map((item) => item.url!);
 
-  return analyses[incidentType] || analyses.traffic;
+  try {
+    const { result } = await analyzer.analyzeScene({
+      incidentType: incident.incidentType,
+      imageUrls: urlsOf("image"),
+      videoUrls: urlsOf("video"),
+    });
+    return { provider: analyzer.name, scene: result };
+  } catch (error) {
+    console.warn(
+      `[SmartReports] Scene analysis (${analyzer.name}) failed for incident #${incident.id}:`,
+      error
+    );
+    return { provider: analyzer.name, scene: emptySceneAnalysis() };
+  }
 }
 
 /**
- * حساب نسبة الخطأ
+ * بناء مدخلات محرك نسبة الخطأ من الأطراف المسجلة وتحليل الفيديو
+ * إذا لم تُسجل أطراف بعد، تُستخدم المركبات المكتشفة في الفيديو (A، B، ...)
  */
-function calculateFaultPercentage(
-  incidentType: string,
-  videoAnalysis: any
-): number {
-  let basePercentage = 0;
-
-  switch (incidentType) {
-    case "injury":
-      basePercentage = 65 + Math.random() * 20; // 65-85%
-      break;
-    case "breakdown":
-      basePercentage = 0; // لا توجد نسبة خطأ في التعطل
-      break;
-    case "traffic":
-      basePercentage = 45 + Math.random() * 30; // 45-75%
-      break;
-    default:
-      basePercentage = 50;
+export function buildFaultInput(
+  incidentType: "injury" | "breakdown" | "traffic",
+  parties: Pick<IncidentParty, "id" | "partyName" | "facts">[],
+  videoAnalysis: { vehicleCount: number; estimatedSpeed: number }
+): FaultInput {
+  const faultParties: FaultPartyInput[] =
+    parties.length > 0
+      ? parties.map((party) => ({
+          ...((party.facts as Partial<FaultPartyInput> | null) ?? {}),
+          partyId: party.id,
+          label: party.partyName,
+        }))
+      : Array.from({ length: videoAnalysis.vehicleCount }, (_, index) => ({
+          label: String.fromCharCode(65 + index),
+        }));
+
+  // السرعة المقدرة من الفيديو تخص المركبة الأولى (A) ما لم يذكر الأطراف سرعاتهم
+  if (
+    videoAnalysis.estimatedSpeed > 0 &&
+    faultParties.length > 0 &&
+    faultParties.every((party) => party.speedKmh === undefined)
+  ) {
+    faultParties[0] = { ...faultParties[0]!, speedKmh: videoAnalysis.estimatedSpeed };
   }
 
-  // تعديل النسبة بناءً على السرعة المقدرة
-  if (videoAnalysis.estimatedSpeed > 80) {
-    basePercentage += 10;
+  return { incidentType, parties: faultParties };
+}
+
+/**
+ * حساب نسبة الخطأ للحادث وحفظ المدخلات والنتيجة وإصدار القواعد
+ */
+export async function assessIncidentFault(incidentId: number, performedBy?: number) {
+  const incident = await getIncidentById(incidentId);
+  if (!incident) {
+    throw new FaultAssessmentError("not_found", `Incident #${incidentId} not found`);
   }
 
-  return Math.min(100, Math.round(basePercentage));
+  const parties = await getIncidentParties(incidentId);
+  const { scene } = await analyzeIncidentScene(incident);
+  const input = buildFaultInput(incident.incidentType, parties, scene);
+  const result = evaluateFault(input);
+
+  const { insertId } = await addFaultAssessment({
+    incidentId,
+    rulesetVersion: result.rulesetVersion,
+    input,
+    result,
+    createdBy: performedBy,
+  });
+
+  await addIncidentHistory({
+    incidentId,
+    type: "fault.assessed",
+    details: `Fault assessed with ruleset ${result.rulesetVersion}: ${result.parties
+      .map((party) => `${party.label} ${party.faultPercentage}%`)
+      .join(", ")}`,
+    payload: {
+      previous: parties.map((party) => ({
+        partyId: party.id,
+        faultPercentage: party.faultPercentage ?? 0,
+      })),
+      next: result.parties.flatMap((party) =>
+        party.partyId === undefined
+          ? []
+          : [{ partyId: party.partyId, faultPercentage: party.faultPercentage }]
+      ),
+      faultAssessmentId: insertId,
+      rulesetVersion: result.rulesetVersion,
+    },
+    performedBy,
+  });
+
+  return { id: insertId, ...result };
 }
 
 /**
- * تحديد الخدمات المطلوبة
+ * إعادة اشتقاق تقييم محفوظ بنفس المدخلات وإصدار القواعد والتأكد من تطابقه
  */
-function determineServices(incidentType: string): string[] {
-  const services: { [key: string]: string[] } = {
-    injury: ["إسعاف", "مرور", "شرطة", "هلال أحمر"],
-    breakdown: ["سطحة", "مرور"],
-    traffic: ["مرور"],
-  };
+export async function rederiveFaultAssessment(assessmentId: number) {
+  const assessment = await getFaultAssessmentById(assessmentId);
+  if (!assessment) {
+    throw new FaultAssessmentError("not_found", `Fault assessment #${assessmentId} not found`);
+  }
 
-  return services[incidentType] || ["مرور"];
+  const result = evaluateFault(assessment.input as FaultInput, assessment.rulesetVersion);
+  const stored = assessment.result as FaultResult;
+  return { matches: isSameFaultResult(result, stored), stored, result };
 }
 
 /**
- * اتخاذ قرار ذكي بناءً على تحليل الحادث
+ * مقارنة نتيجتين بالنسب والقواعد (ترتيب المفاتيح في JSON المخزن قد يختلف)
+ */
+function isSameFaultResult(a: FaultResult, b: FaultResult): boolean {
+  const normalize = (result: FaultResult) =>
+    JSON.stringify([
+      result.rulesetVersion,
+      result.parties.map((party) => [
+        party.label,
+        party.faultPercentage,
+        party.rules.map((rule) => [rule.ruleId, rule.weight]),
+      ]),
+    ]);
+  return normalize(a) === normalize(b);
+}
+
+// الوقت المتوقع للاستجابة بالدقائق لكل خدمة
+const ESTIMATED_RESPONSE_MINUTES: Record<ServiceType, number> = {
+  ambulance: 3,
+  fire: 4,
+  police: 5,
+  traffic_control: 5,
+  tow_truck: 10,
+};
+
+/**
+ * اتخاذ قرار ذكي: الخدمة الرئيسية هي الأعلى أولوية من قواعد التوجيه
  */
 function makeAIDecision(
-  incidentType: string,
-  faultPercentage: number,
-  videoAnalysis: any
-) {
-  let action: "ambulance" | "tow_truck" | "traffic_control" | "police" | "none" =
-    "traffic_control";
-  let priority: "immediate" | "urgent" | "normal" = "normal";
-  let estimatedResponseTime = 5; // دقائق
-
-  switch (incidentType) {
-    case "injury":
-      action = "ambulance";
-      priority = "immediate";
-      estimatedResponseTime = 3;
-      break;
-    case "breakdown":
-      action = "tow_truck";
-      priority = "urgent";
-      estimatedResponseTime = 10;
-      break;
-    case "traffic":
-      action = "traffic_control";
-      priority = "normal";
-      estimatedResponseTime = 5;
-      break;
-  }
+  dispatchDecision: DispatchDecision,
+  faultPercentage: number
+): SmartReportData["aiDecision"] {
+  const primary = dispatchDecision.services[0];
+  const action: ServiceType | "none" = primary?.serviceType ?? "none";
+  let priority: DispatchPriority = primary?.priority ?? "normal";
+  let estimatedResponseTime = primary
+    ? ESTIMATED_RESPONSE_MINUTES[primary.serviceType]
+    : 0; // دقائق
 
-  // تعديل الأولوية بناءً على نسبة الخطأ
-  if (faultPercentage > 80) {
+  // تعديل الأولوية بناءً على نسبة الخطأ (رفع فقط، لا تُخفض أولوية طلبتها قاعدة)
+  if (primary && faultPercentage > 80) {
     priority = "immediate";
     estimatedResponseTime = Math.max(2, estimatedResponseTime - 2);
-  } else if (faultPercentage > 60) {
+  } else if (primary && faultPercentage > 60 && priority === "normal") {
     priority = "urgent";
   }
 
@@ -230,8 +388,9 @@ function determineSeverity(
  */
 function generateReportSummary(
   incident: any,
-  faultPercentage: number,
-  aiDecision: any
+  faultBreakdown: PartyFaultShare[],
+  aiDecision: SmartReportData["aiDecision"],
+  recommendedServices: RecommendedService[]
 ): string {
   const incidentTypeLabel: { [key: string]: string } = {
     injury: "حادث إصابات",
@@ -244,14 +403,28 @@ function generateReportSummary(
     tow_truck: "تم توجيه السطحة",
     traffic_control: "تم توجيه المرور",
     police: "تم توجيه الشرطة",
+    fire: "تم توجيه الإطفاء",
     none: "لا توجد خدمات مطلوبة",
   };
 
   return `
 تقرير ذكي - ${incidentTypeLabel[incident.incidentType]}
 الموقع: ${incident.location}
-نسبة الخطأ: ${faultPercentage}%
+نسب الخطأ: ${
+    faultBreakdown.length > 0
+      ? faultBreakdown
+          .map(share => `${share.partyName} ${share.faultPercentage}%`)
+          .join("، ")
+      : "لا توجد أطراف مسجلة"
+  }
 الإجراء المتخذ: ${actionLabel[aiDecision.action]}
+الخدمات المطلوبة: ${
+    recommendedServices.length > 0
+      ? recommendedServices
+          .map(service => SERVICE_TYPE_LABELS[service.serviceType])
+          .join("، ")
+      : "لا توجد"
+  }
 الأولوية: ${aiDecision.priority === "immediate" ? "فوري" : aiDecision.priority === "urgent" ? "عاجل" : "عادي"}
 الوقت المتوقع للاستجابة: ${aiDecision.estimatedResponseTime} دقائق
   `.trim();
@@ -259,16 +432,40 @@ function generateReportSummary(
 
 /**
  * إرسال التقرير للأطراف المعنية
+ * يضيف الأطراف الذين لديهم رقم جوال إلى قائمة الإرسال، ويتولى reportDelivery.ts الإرسال الفعلي
  */
 export async function sendSmartReportToParties(
-  report: SmartReportData
+  report: Pick<SmartReportData, "incidentId">
 ): Promise<void> {
-  // محاكاة إرسال التقرير
-  console.log("📧 تم إرسال التقرير الذكي للأطراف المعنية:");
-  console.log(`   - نسبة الخطأ: ${report.faultPercentage}%`);
-  console.log(`   - الخدمات المطلوبة: ${report.recommendedServices.join(", ")}`);
-  console.log(`   - الإجراء: ${report.aiDecision.action}`);
-
-  // يمكن إضافة تكامل حقيقي مع خدمات الإرسال هنا
-  // مثل: إرسال رسائل SMS، إرسال إشعارات Push، إلخ
+  const parties = await getIncidentParties(report.incidentId);
+  const existingSends = await getReportSends(report.incidentId);
+  const alreadyQueued = new Set(existingSends.map((send) => send.recipientPhone));
+
+  const recipients = parties.filter(
+    (party) => party.phone && !alreadyQueued.has(party.phone)
+  );
+
+  let queued = 0;
+  if (recipients.length > 0) {
+    const { getOrCreateReportDocument } = await import("./reportPdf");
+    const document = await getOrCreateReportDocument(report.incidentId);
+
+    for (const party of recipients) {
+      await createReportSend({
+        incidentId: report.incidentId,
+        recipientType: "party",
+        recipientPhone: party.phone!,
+        recipientName: party.partyName,
+        reportDocumentId: document.id,
+      });
+      queued++;
+    }
+  }
+
+  console.log(`📧 تمت إضافة ${queued} طرف لقائمة إرسال التقرير الذكي`);
+
+  if (queued > 0) {
+    const { processPendingReportSends } = await import("./reportDelivery");
+    await processPendingReportSends();
+  }
 }
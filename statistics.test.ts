@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  findResolutionTimeInHistory,
+  nextDay,
+  startOfDay,
+  summarizeDailyStatistics,
+} from "./statistics";
+
+describe("summarizeDailyStatistics", () => {
+  it("counts incidents by type, severity and status", () => {
+    const stats = summarizeDailyStatistics(
+      new Date(2025, 0, 15, 14, 30),
+      [
+        {
+          incidentType: "injury",
+          severity: "critical",
+          status: "in_progress",
+          mergedIntoId: null,
+        },
+        {
+          incidentType: "injury",
+          severity: "high",
+          status: "resolved",
+          mergedIntoId: null,
+        },
+        {
+          incidentType: "breakdown",
+          severity: "low",
+          status: "closed",
+          mergedIntoId: null,
+        },
+        {
+          incidentType: "traffic",
+          severity: "medium",
+          status: "pending",
+          mergedIntoId: null,
+        },
+      ],
+      [30, 45]
+    );
+
+    expect(stats).toMatchObject({
+      date: new Date(2025, 0, 15),
+      totalIncidents: 4,
+      injuryIncidents: 2,
+      breakdownIncidents: 1,
+      trafficIncidents: 1,
+      lowSeverityIncidents: 1,
+      mediumSeverityIncidents: 1,
+      highSeverityIncidents: 1,
+      criticalSeverityIncidents: 1,
+      pendingIncidents: 1,
+      inProgressIncidents: 1,
+      resolvedIncidents: 1,
+      closedIncidents: 1,
+      averageResolutionTime: 38,
+    });
+  });
+
+  it("does not count reports merged into another incident as closed", () => {
+    const stats = summarizeDailyStatistics(
+      new Date(2025, 0, 15),
+      [
+        {
+          incidentType: "traffic",
+          severity: "medium",
+          status: "closed",
+          mergedIntoId: 4,
+        },
+        {
+          incidentType: "traffic",
+          severity: "medium",
+          status: "closed",
+          mergedIntoId: null,
+        },
+      ],
+      []
+    );
+
+    expect(stats.totalIncidents).toBe(2);
+    expect(stats.closedIncidents).toBe(1);
+    expect(stats.resolvedIncidents).toBe(0);
+  });
+
+  it("reports zero resolution time when nothing was resolved", () => {
+    const stats = summarizeDailyStatistics(new Date(2025, 0, 15), [], []);
+    expect(stats.totalIncidents).toBe(0);
+    expect(stats.averageResolutionTime).toBe(0);
+  });
+});
+
+describe("findResolutionTimeInHistory", () => {
+  it("returns the first transition to resolved or closed", () => {
+    const resolvedAt = findResolutionTimeInHistory([
+      {
+        action: "Status updated",
+        details: "Status changed to closed",
+        createdAt: new Date(2025, 0, 15, 12),
+      },
+      {
+        action: "Incident created",
+        details: null,
+        createdAt: new Date(2025, 0, 15, 9),
+      },
+      {
+        action: "Status updated",
+        details: "Status changed to resolved",
+        createdAt: new Date(2025, 0, 15, 10),
+      },
+    ]);
+    expect(resolvedAt).toEqual(new Date(2025, 0, 15, 10));
+  });
+
+  it("returns null when the incident was never resolved", () => {
+    expect(
+      findResolutionTimeInHistory([
+        {
+          action: "Status updated",
+          details: "Status changed to assigned",
+          createdAt: new Date(),
+        },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("day boundaries", () => {
+  it("spans exactly one local day", () => {
+    const day = new Date(2025, 1, 28, 23, 59);
+    expect(startOfDay(day)).toEqual(new Date(2025, 1, 28));
+    expect(nextDay(day)).toEqual(new Date(2025, 2, 1));
+  });
+});
@@ -0,0 +1,103 @@
+import type {
+  Incident,
+  IncidentHistory,
+  InsertStatistic,
+} from "../drizzle/schema";
+
+/**
+ * تجميع الإحصائيات اليومية
+ * دوال نقية تحسب أعداد الحوادث ومتوسط زمن الحل ليوم واحد
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * بداية اليوم (منتصف الليل بالتوقيت المحلي)
+ */
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * بداية اليوم التالي
+ */
+export function nextDay(date: Date): Date {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() + 1);
+  return day;
+}
+
+/**
+ * وقت أول انتقال للحادث إلى الحالة resolved أو closed من السجل التاريخي
+ */
+export function findResolutionTimeInHistory(
+  history: Pick<IncidentHistory, "action" | "details" | "createdAt">[]
+): Date | null {
+  const entry = history
+    .filter(
+      h =>
+        h.action === "Status updated" &&
+        (h.details === "Status changed to resolved" ||
+          h.details === "Status changed to closed")
+    )
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+
+  return entry ? entry.createdAt : null;
+}
+
+/**
+ * حساب إحصائيات يوم واحد
+ * البلاغات المدمجة في حادث آخر تُغلق عند الدمج فلا تُحسب ضمن الحوادث المحلولة أو المغلقة
+ * @param reported الحوادث المبلغ عنها خلال اليوم
+ * @param resolutionMinutes أزمنة حل الحوادث التي حُلّت خلال اليوم (بالدقائق)
+ */
+export function summarizeDailyStatistics(
+  date: Date,
+  reported: Pick<
+    Incident,
+    "incidentType" | "severity" | "status" | "mergedIntoId"
+  >[],
+  resolutionMinutes: number[]
+): InsertStatistic {
+  const count = (predicate: (incident: (typeof reported)[number]) => boolean) =>
+    reported.filter(predicate).length;
+
+  const averageResolutionTime =
+    resolutionMinutes.length > 0
+      ? Math.round(
+          resolutionMinutes.reduce((sum, minutes) => sum + minutes, 0) /
+            resolutionMinutes.length
+        )
+      : 0;
+
+  return {
+    date: startOfDay(date),
+    totalIncidents: reported.length,
+    injuryIncidents: count(i => i.incidentType === "injury"),
+    breakdownIncidents: count(i => i.incidentType === "breakdown"),
+    trafficIncidents: count(i => i.incidentType === "traffic"),
+    lowSeverityIncidents: count(i => i.severity === "low"),
+    mediumSeverityIncidents: count(i => i.severity === "medium"),
+    highSeverityIncidents: count(i => i.severity === "high"),
+    criticalSeverityIncidents: count(i => i.severity === "critical"),
+    pendingIncidents: count(i => i.status === "pending"),
+    assignedIncidents: count(i => i.status === "assigned"),
+    inProgressIncidents: count(i => i.status === "in_progress"),
+    resolvedIncidents: count(
+      i => i.status === "resolved" && i.mergedIntoId == null
+    ),
+    closedIncidents: count(
+      i => i.status === "closed" && i.mergedIntoId == null
+    ),
+    averageResolutionTime,
+  };
+}
+
+/**
+ * المدة بالدقائق بين وقتين (لا تقل عن صفر)
+ */
+export function minutesBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / MINUTE_MS);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  acceptsServicePositions,
+  ARRIVAL_RADIUS_KM,
+  proximityAlertsWithin,
+  shouldMarkArrived,
+} from "./tracking";
+
+describe("proximityAlertsWithin", () => {
+  it("returns nothing outside the widest radius", () => {
+    expect(proximityAlertsWithin(5.01)).toEqual([]);
+  });
+
+  it("returns every crossed threshold from farthest to nearest", () => {
+    expect(proximityAlertsWithin(4)).toEqual(["5km"]);
+    expect(proximityAlertsWithin(1.5)).toEqual(["5km", "2km"]);
+    expect(proximityAlertsWithin(0.5)).toEqual(["5km", "2km", "1km"]);
+    expect(proximityAlertsWithin(0.05)).toEqual([
+      "5km",
+      "2km",
+      "1km",
+      "arrived",
+    ]);
+  });
+
+  it("includes a threshold at exactly its radius", () => {
+    expect(proximityAlertsWithin(2)).toEqual(["5km", "2km"]);
+    expect(proximityAlertsWithin(ARRIVAL_RADIUS_KM)).toContain("arrived");
+  });
+});
+
+describe("shouldMarkArrived", () => {
+  it("moves services that were not there yet to arrived", () => {
+    for (const status of ["pending", "assigned", "en_route"] as const) {
+      expect(shouldMarkArrived(status, ["1km", "arrived"])).toBe(true);
+    }
+  });
+
+  it("does not move the service again once the arrival alert has fired", () => {
+    // التنبيه أُطلق في تحديث سابق، فلا يظهر في التنبيهات الجديدة
+    expect(shouldMarkArrived("en_route", [])).toBe(false);
+    expect(shouldMarkArrived("arrived", ["arrived"])).toBe(false);
+  });
+
+  it("ignores alerts short of arrival", () => {
+    expect(shouldMarkArrived("en_route", ["5km", "2km", "1km"])).toBe(false);
+  });
+});
+
+describe("acceptsServicePositions", () => {
+  it("rejects positions for closed services", () => {
+    expect(acceptsServicePositions("en_route")).toBe(true);
+    expect(acceptsServicePositions("arrived")).toBe(true);
+    expect(acceptsServicePositions("completed")).toBe(false);
+    expect(acceptsServicePositions("cancelled")).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  addIncidentHistory,
+  addServiceLocation,
+  getIncidentById,
+  getServiceById,
+  recordProximityAlert,
+  updateServiceStatus,
+  updateServiceUnit,
+} from "./db";
+import type { Service } from "../drizzle/schema";
+import { distanceKm, toCoordinates } from "./geo";
+import { sendSmartAlerts } from "./automationEngine";
+import { isTerminalServiceStatus } from "./serviceLifecycle";
+
+/**
+ * التتبع المباشر للخدمات
+ * يستقبل مواقع GPS من الوحدات الميدانية ويطلق تنبيهات الاقتراب
+ */
+
+export type ProximityAlert = "5km" | "2km" | "1km" | "arrived";
+
+/** نصف قطر الوصول: الوحدة ضمن هذه المسافة تعتبر قد وصلت */
+export const ARRIVAL_RADIUS_KM = 0.1;
+
+const PROXIMITY_THRESHOLDS: { alert: ProximityAlert; radiusKm: number }[] = [
+  { alert: "5km", radiusKm: 5 },
+  { alert: "2km", radiusKm: 2 },
+  { alert: "1km", radiusKm: 1 },
+  { alert: "arrived", radiusKm: ARRIVAL_RADIUS_KM },
+];
+
+/**
+ * جميع التنبيهات التي تقع المسافة الحالية ضمن نطاقها (من الأبعد إلى الأقرب)
+ */
+export function proximityAlertsWithin(distance: number): ProximityAlert[] {
+  return PROXIMITY_THRESHOLDS.filter(t => distance <= t.radiusKm).map(
+    t => t.alert
+  );
+}
+
+/**
+ * الخدمة المكتملة أو الملغاة لا تقبل مواقع جديدة
+ */
+export function acceptsServicePositions(status: Service["status"]): boolean {
+  return !isTerminalServiceStatus(status);
+}
+
+/**
+ * الوصول إلى نطاق الحادث ينقل الخدمة تلقائياً إلى arrived
+ * firedAlerts هي التنبيهات التي أُطلقت الآن لأول مرة، فالانتقال يحدث مرة واحدة
+ * ومن حالات ما قبل الوصول فقط
+ */
+export function shouldMarkArrived(
+  status: Service["status"],
+  firedAlerts: ProximityAlert[]
+): boolean {
+  return (
+    firedAlerts.includes("arrived") &&
+    ["pending", "assigned", "en_route"].includes(status)
+  );
+}
+
+/**
+ * تسجيل موقع جديد للخدمة
+ * يحفظ النقطة في المسار، يحدّث موقع الوحدة، ويطلق كل تنبيه اقتراب مرة واحدة فقط
+ */
+export async function ingestServicePosition(data: {
+  serviceId: number;
+  latitude: string;
+  longitude: string;
+  recordedAt?: Date;
+  performedBy?: number;
+}) {
+  const service = await getServiceById(data.serviceId);
+  if (!service) throw new Error("Service not found");
+
+  if (!acceptsServicePositions(service.status)) {
+    throw new Error(
+      `Service is ${service.status}, position updates are closed`
+    );
+  }
+
+  const incident = await getIncidentById(service.incidentId);
+  if (!incident) throw new Error("Incident not found");
+
+  const distance = distanceKm(
+    toCoordinates(data.latitude, data.longitude),
+    toCoordinates(incident.latitude, incident.longitude)
+  );
+  const distanceMeters = Math.round(distance * 1000);
+
+  await addServiceLocation({
+    serviceId: service.id,
+    unitId: service.unitId,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    distanceMeters,
+    recordedAt: data.recordedAt,
+  });
+
+  if (service.unitId) {
+    await updateServiceUnit(service.unitId, {
+      currentLatitude: data.latitude,
+      currentLongitude: data.longitude,
+    });
+  }
+
+  const firedAlerts: ProximityAlert[] = [];
+  for (const alert of proximityAlertsWithin(distance)) {
+    const isNew = await recordProximityAlert({
+      serviceId: service.id,
+      alert,
+      distanceMeters,
+    });
+    if (!isNew) continue;
+
+    firedAlerts.push(alert);
+    const message = await sendSmartAlerts(
+      incident.id,
+      service.serviceType,
+      alert
+    );
+    await addIncidentHistory({
+      incidentId: incident.id,
+      type: "service.proximity_alert",
+      details: `${service.serviceType}: ${message}`,
+      payload: {
+        previous: null,
+        next: alert,
+        serviceId: service.id,
+        distanceMeters,
+      },
+    });
+  }
+
+  const arrived = shouldMarkArrived(service.status, firedAlerts);
+  if (arrived) {
+    await updateServiceStatus(service.id, "arrived");
+    await addIncidentHistory({
+      incidentId: incident.id,
+      type: "service.status_changed",
+      details: "Service status changed to arrived",
+      payload: {
+        previous: service.status,
+        next: "arrived",
+        serviceId: service.id,
+      },
+      performedBy: data.performedBy,
+    });
+  }
+
+  return {
+    distanceMeters,
+    alerts: firedAlerts,
+    status: arrived ? "arrived" : service.status,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertActiveChange,
+  assertRoleChange,
+  type ManagedUser,
+} from "./userManagement";
+
+const ADMIN_ID = 1;
+
+const user = (overrides: Partial<ManagedUser> = {}): ManagedUser => ({
+  id: 7,
+  role: "user",
+  agency: null,
+  deactivatedAt: null,
+  isOwner: false,
+  ...overrides,
+});
+
+const codeOf = (run: () => void) => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    return (error as { code?: string }).code;
+  }
+};
+
+describe("user management rules", () => {
+  it("lets admins promote, demote and deactivate other accounts", () => {
+    expect(() =>
+      assertRoleChange(user(), "operator", ADMIN_ID, 1)
+    ).not.toThrow();
+    expect(() =>
+      assertRoleChange(user({ role: "admin" }), "operator", ADMIN_ID, 2)
+    ).not.toThrow();
+    expect(() => assertActiveChange(user(), false, ADMIN_ID, 1)).not.toThrow();
+    expect(() =>
+      assertActiveChange(user({ deactivatedAt: new Date() }), true, ADMIN_ID, 1)
+    ).not.toThrow();
+  });
+
+  it("blocks changes to the admin's own account and the owner account", () => {
+    expect(
+      codeOf(() =>
+        assertActiveChange(user({ id: ADMIN_ID }), false, ADMIN_ID, 2)
+      )
+    ).toBe("self_change");
+    expect(
+      codeOf(() =>
+        assertRoleChange(
+          user({ role: "admin", isOwner: true }),
+          "user",
+          ADMIN_ID,
+          2
+        )
+      )
+    ).toBe("owner_account");
+  });
+
+  it("keeps at least one active admin", () => {
+    const lastAdmin = user({ role: "admin" });
+    expect(codeOf(() => assertRoleChange(lastAdmin, "user", ADMIN_ID, 1))).toBe(
+      "last_admin"
+    );
+    expect(
+      codeOf(() => assertActiveChange(lastAdmin, false, ADMIN_ID, 1))
+    ).toBe("last_admin");
+  });
+
+  it("requires an agency for agency roles and allows moving between agencies", () => {
+    expect(
+      codeOf(() => assertRoleChange(user(), "tow_operator", ADMIN_ID, 1))
+    ).toBe("agency_required");
+    expect(() =>
+      assertRoleChange(
+        user({ role: "tow_operator", agency: "سطحات الرياض" }),
+        "tow_operator",
+        ADMIN_ID,
+        1,
+        "سطحات جدة"
+      )
+    ).not.toThrow();
+    expect(
+      codeOf(() =>
+        assertRoleChange(
+          user({ role: "tow_operator", agency: "سطحات الرياض" }),
+          "tow_operator",
+          ADMIN_ID,
+          1,
+          "سطحات الرياض"
+        )
+      )
+    ).toBe("no_change");
+  });
+
+  it("rejects changes that change nothing", () => {
+    expect(codeOf(() => assertRoleChange(user(), "user", ADMIN_ID, 1))).toBe(
+      "no_change"
+    );
+    expect(codeOf(() => assertActiveChange(user(), true, ADMIN_ID, 1))).toBe(
+      "no_change"
+    );
+  });
+});
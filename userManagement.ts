@@ -0,0 +1,124 @@
+import type { User } from "../drizzle/schema";
+import { isAgencyRole } from "./permissions";
+
+/**
+ * قواعد إدارة المستخدمين
+ * المدير لا يغير دوره ولا يعطل حسابه، ولا يُترك النظام بلا مدير نشط،
+ * وحساب المالك (OWNER_OPEN_ID) يبقى مديراً لأن تسجيل دخوله يعيده مديراً،
+ * وأدوار الجهات تتطلب تحديد الجهة
+ */
+
+export type UserRole = User["role"];
+
+export type UserAuditAction = "role_changed" | "deactivated" | "reactivated";
+
+export type UserManagementErrorCode =
+  | "not_found"
+  | "self_change"
+  | "owner_account"
+  | "last_admin"
+  | "no_change"
+  | "agency_required";
+
+/**
+ * خطأ في تعديل حساب مستخدم
+ */
+export class UserManagementError extends Error {
+  constructor(
+    public code: UserManagementErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "UserManagementError";
+  }
+}
+
+export type ManagedUser = Pick<
+  User,
+  "id" | "role" | "agency" | "deactivatedAt"
+> & {
+  isOwner: boolean;
+};
+
+function assertCanManage(user: ManagedUser, actorId: number) {
+  if (user.id === actorId) {
+    throw new UserManagementError(
+      "self_change",
+      "Admins cannot change their own role or account status"
+    );
+  }
+  if (user.isOwner) {
+    throw new UserManagementError(
+      "owner_account",
+      "The owner account always stays an active admin"
+    );
+  }
+}
+
+// المدير النشط الوحيد لا يُخفض دوره ولا يُعطل
+function assertNotLastAdmin(user: ManagedUser, activeAdmins: number) {
+  if (user.role === "admin" && !user.deactivatedAt && activeAdmins <= 1) {
+    throw new UserManagementError(
+      "last_admin",
+      "At least one active admin must remain"
+    );
+  }
+}
+
+/**
+ * التحقق من تغيير الدور
+ * @param activeAdmins عدد المديرين النشطين قبل التغيير
+ * @param agency جهة أدوار الجهات (تُتجاهل لبقية الأدوار)
+ */
+export function assertRoleChange(
+  user: ManagedUser,
+  role: UserRole,
+  actorId: number,
+  activeAdmins: number,
+  agency: string | null = null
+): void {
+  assertCanManage(user, actorId);
+  if (isAgencyRole(role) && !agency) {
+    throw new UserManagementError(
+      "agency_required",
+      `Role ${role} requires an agency`
+    );
+  }
+  if (
+    user.role === role &&
+    (user.agency ?? null) === agencyForRole(role, agency)
+  ) {
+    throw new UserManagementError("no_change", `User already has role ${role}`);
+  }
+  if (role !== "admin") assertNotLastAdmin(user, activeAdmins);
+}
+
+/**
+ * الجهة المحفوظة مع الدور: أدوار الجهات فقط ترتبط بجهة
+ */
+export function agencyForRole(
+  role: UserRole,
+  agency: string | null
+): string | null {
+  return isAgencyRole(role) ? agency : null;
+}
+
+/**
+ * التحقق من تعطيل الحساب أو إعادة تفعيله
+ * @param activeAdmins عدد المديرين النشطين قبل التغيير
+ */
+export function assertActiveChange(
+  user: ManagedUser,
+  active: boolean,
+  actorId: number,
+  activeAdmins: number
+): void {
+  assertCanManage(user, actorId);
+  if (active === !user.deactivatedAt) {
+    throw new UserManagementError(
+      "no_change",
+      `User is already ${active ? "active" : "deactivated"}`
+    );
+  }
+  if (!active) assertNotLastAdmin(user, activeAdmins);
+}